@@ -1,39 +1,89 @@
-import { DSAEncoding } from 'node:crypto';
-import { LogEntry, SessionSummary, SQLQueryType } from './log.types';
+import { LogEntry, QueryExecution, SessionSummary, SQLQueryType } from './log.types';
+import { ThresholdSelection } from './threshold.types';
 
 export type AnalysisType =
     | 'slow-queries'
     | 'error-patterns'
     | 'memory-peaks'
+    | 'memory-profile'
     | 'session-summary'
     | 'query-frequency'
+    | 'query-patterns'
+    | 'transactions'
+    | 'insights'
     | 'timeline'
     | 'table-usage';
 
-export interface AnalysisConfig {
+/**
+ * thresholdProfile/thresholds definem os limites de query lenta, resultados grandes e memória
+ */
+export interface AnalysisConfig extends ThresholdSelection {
     types: AnalysisType[];
 
+    /** Atalho para thresholds.slowQuerySeconds */
     slowQueryThreshold?: number;
 
     limit?: number;
 
     includeDetails?: boolean;
+
+    /** Intervalo sem linhas (s) após o qual um PID reaparecendo inicia nova sessão */
+    sessionIdleGapSeconds?: number;
+
+    /** Duração (s) a partir da qual uma sessão é considerada longa */
+    longSessionSeconds?: number;
+
+    /** Duração (s) a partir da qual uma transação é considerada longa */
+    longTransactionSeconds?: number;
+
+    /** Arquivo JSON com regras de insight da equipe (somadas às embutidas) */
+    rulesFile?: string;
 }
 
 export interface SlowQuery {
     entry: LogEntry;
+    execution?: QueryExecution;
     executionTime: number;
     severity: 'warning' | 'critical' | 'severe';
     suggestions: string[];
 }
 
+export type ErrorCategory =
+    | 'db-constraint'
+    | 'db-lock'
+    | 'db-syntax'
+    | 'timeout'
+    | 'connection-lost'
+    | 'php-fatal'
+    | 'other';
+
+/**
+ * Query dos erros de um padrão: a registrada no próprio erro (ex.: STATEMENT do
+ * PostgreSQL) ou a executada pelo mesmo PID, na mesma sessão, logo antes dele
+ */
+export interface ErrorRelatedQuery {
+    query: string;
+    fingerprint?: string;
+    /** Erros do padrão ligados a esta query */
+    count: number;
+    /** Linha da query (ou do próprio erro) no erro mais recente */
+    lineNumber: number;
+}
+
+/**
+ * Erros ERROR/CRITICAL agrupados pelo template da mensagem
+ * (números, ids, caminhos e valores entre aspas mascarados)
+ */
 export interface ErrorPattern {
     pattern: string;
-    errorType: string;
+    errorType: ErrorCategory;
     count: number;
     examples: LogEntry[];
     firstOccurrence: string;
     lastOccurrence: string;
+    processIds: string[];
+    /** Queries ligadas aos erros, da mais frequente para a menos frequente */
+    relatedQueries: ErrorRelatedQuery[];
 }
 
 export interface MemoryPeak {
@@ -54,13 +104,225 @@ export interface QueryStatistics {
     p95ExecutionTime: number;
 }
 
+/**
+ * Queries agrupadas pelo fingerprint (mesma query normalizada)
+ */
+export interface QueryPattern {
+    fingerprint: string;
+    normalizedQuery: string;
+    queryType: SQLQueryType;
+    tables: string[];
+    count: number;
+    totalExecutionTime: number;
+    avgExecutionTime: number;
+    p95ExecutionTime: number;
+    maxExecutionTime: number;
+    totalRecordsReturned: number;
+    avgRecordsReturned: number;
+    processIds: string[];
+    examples: QueryExecution[];
+}
+
 export interface TableUsage {
     tableName: string;
     queryCount: number;
+    /** Comandos em que a tabela é lida (FROM, JOIN, USING) */
+    readCount: number;
+    /** Comandos em que a tabela é alterada (INSERT, UPDATE, DELETE, MERGE, DDL) */
+    writeCount: number;
     operations: Record<SQLQueryType, number>;
     totalExecutionTime: number;
 }
 
+/**
+ * Transação (BEGIN ... COMMIT/ROLLBACK) de um PID
+ * 'open' = o arquivo terminou sem COMMIT/ROLLBACK
+ */
+export interface TransactionRecord {
+    id: string;
+    processId: string;
+    outcome: 'committed' | 'rolled-back' | 'open';
+    /** Caminho de chamada (connectionIndex) no BEGIN */
+    callPath?: string;
+    startLine: number;
+    endLine: number;
+    startTimestamp: string;
+    endTimestamp: string;
+    durationSeconds: number;
+    isLong: boolean;
+    /** Queries executadas dentro da transação */
+    statements: QueryExecution[];
+    totalSQLTime: number;
+    /** BEGINs recebidos com a transação já aberta */
+    nestedBegins: number;
+    /** Erros registrados dentro da transação */
+    errors: LogEntry[];
+    /** ROLLBACK precedido de erro na mesma transação */
+    rolledBackAfterError: boolean;
+}
+
+/**
+ * Memória de um PID em uma linha do log (uma amostra por mudança de valor)
+ */
+export interface MemorySample {
+    lineNumber: number;
+    timestamp: string;
+    memoryMB: number;
+}
+
+/**
+ * Aumento brusco de memória entre duas linhas consecutivas do mesmo PID
+ */
+export interface MemoryJump {
+    processId: string;
+    lineNumber: number;
+    timestamp: string;
+    fromMB: number;
+    toMB: number;
+    deltaMB: number;
+    /** Linha do PID imediatamente anterior ao salto */
+    precedingLine: number;
+    /** Caminho de chamada (connectionIndex) da linha anterior */
+    callPath?: string;
+    /** Última query do PID antes do salto */
+    precedingStatement?: string;
+    precedingFingerprint?: string;
+}
+
+/**
+ * Série de memória de um PID ao longo do log
+ */
+export interface MemoryProfile {
+    processId: string;
+    startMB: number;
+    endMB: number;
+    minMB: number;
+    peakMB: number;
+    /** endMB - startMB */
+    growthMB: number;
+    growthRateMBPerMinute: number;
+    /** Fração das mudanças de valor que foram aumentos (1 = crescimento monotônico) */
+    monotonicRatio: number;
+    /** Cresceu acima do limite quase sem liberar memória: provável vazamento */
+    isGrowing: boolean;
+    timeRange: { start: string; end: string };
+    lineRange: { start: number; end: number };
+    durationSeconds: number;
+    sampleCount: number;
+    /** Série (reduzida a no máximo maxSamples pontos, mantendo o pico) */
+    samples: MemorySample[];
+    jumps: MemoryJump[];
+}
+
+/**
+ * PID suspeito de consumo anormal de memória
+ * score em MB: crescimento ponderado pela monotonicidade ('growth') ou tamanho do salto ('jump')
+ */
+export interface MemorySuspect {
+    processId: string;
+    kind: 'growth' | 'jump';
+    score: number;
+    jump?: MemoryJump;
+}
+
+export type InsightSeverity = 'info' | 'warning' | 'critical';
+
+/**
+ * Achado de uma regra do motor de insights
+ */
+export interface InsightFinding {
+    ruleId: string;
+    severity: InsightSeverity;
+    message: string;
+    suggestion: string;
+    /** Ocorrências encontradas (pode ser maior que a quantidade de evidências guardadas) */
+    occurrences: number;
+    evidence: LogEntry[];
+}
+
+/**
+ * Parâmetros do pareamento entre o log da aplicação e o log do banco
+ */
+export interface CrossLogOptions {
+    /** Distância máxima (s) entre os horários da aplicação e do banco (padrão: 2) */
+    windowSeconds?: number;
+
+    /** Somado aos horários da aplicação: diferença de relógio/fuso entre os servidores (s) */
+    clockOffsetSeconds?: number;
+
+    /** PID da aplicação -> PID (conexão) do banco, quando conhecido */
+    connectionMap?: Record<string, string>;
+
+    /** Confiança mínima (0 a 1) para aceitar um par (padrão: 0.4) */
+    minConfidence?: number;
+}
+
+/**
+ * O que sustenta um par: mesmo fingerprint, mesmos literais (decodedQuery ou binds)
+ * e/ou mesma conexão (connectionMap ou pares anteriores dos mesmos PIDs)
+ */
+export type CrossLogEvidence = 'fingerprint' | 'decoded-query' | 'connection';
+
+/**
+ * Execução da aplicação pareada com a execução correspondente no banco
+ */
+export interface CrossLogMatch {
+    fingerprint: string;
+    appExecution: QueryExecution;
+    dbExecution: QueryExecution;
+    /** Tempo medido pela aplicação (s) */
+    appTime?: number;
+    /** Tempo medido pelo banco (s) */
+    dbTime?: number;
+    /** appTime - dbTime: rede, driver e espera por conexão (s) */
+    overhead?: number;
+    /** Horário do banco - horário da aplicação, sem clockOffsetSeconds (s) */
+    clockDelta: number;
+    confidence: number;
+    evidence: CrossLogEvidence[];
+}
+
+/**
+ * Pares agrupados pelo fingerprint
+ */
+export interface CrossLogQuerySummary {
+    fingerprint: string;
+    normalizedQuery: string;
+    count: number;
+    totalAppTime: number;
+    totalDbTime: number;
+    totalOverhead: number;
+    avgAppTime: number;
+    avgDbTime: number;
+    avgOverhead: number;
+    /** Parcela do tempo da aplicação gasta fora do banco (0 a 1) */
+    overheadRatio: number;
+}
+
+/**
+ * Conexão do banco usada por um PID da aplicação
+ */
+export interface CrossLogConnection {
+    appProcessId: string;
+    dbProcessId: string;
+    matches: number;
+}
+
+export interface CrossLogCorrelation {
+    matches: CrossLogMatch[];
+    /** Ordenado pelo overhead total, maior primeiro */
+    queries: CrossLogQuerySummary[];
+    connections: CrossLogConnection[];
+    /** Execuções com SQL e data que ficaram sem par */
+    unmatchedAppExecutions: number;
+    unmatchedDbExecutions: number;
+    totalAppTime: number;
+    totalDbTime: number;
+    totalOverhead: number;
+    /** Mediana de clockDelta: diferença de relógio que sobra entre os servidores */
+    medianClockDelta?: number;
+}
+
 export interface TimelineEvent {
     timestamp: string;
     type: 'query' | 'transaction' | 'error' | 'warning';
@@ -75,10 +337,15 @@ export interface AnalysisResult {
     slowQueries?: SlowQuery[];
     errorPatterns?: ErrorPattern[];
     memoryPeaks?: MemoryPeak[];
+    memoryProfiles?: MemoryProfile[];
+    memorySuspects?: MemorySuspect[];
     sessionSummaries?: SessionSummary[];
     queryStatistics?: QueryStatistics;
+    queryPatterns?: QueryPattern[];
     tableUsage?: TableUsage[];
+    transactions?: TransactionRecord[];
     timeline?: TimelineEvent[];
+    findings?: InsightFinding[];
     insights: string[];
     analyzedAt: Date;
     analysisDurationMs: number;
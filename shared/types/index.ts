@@ -1,4 +1,5 @@
 export * from './log.types';
 export * from './parser.types';
 export * from './analysis.types';
-export * from './ipc.types';
\ No newline at end of file
+export * from './ipc.types';
+export * from './threshold.types';
\ No newline at end of file
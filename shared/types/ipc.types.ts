@@ -1,9 +1,43 @@
-import { ParsedLog, LogEntry } from './log.types';
-import { ParserOptions } from './parser.types';
-import { AnalysisResult, AnalysisConfig } from './analysis.types';
+import {
+    ArchiveMember,
+    CompressionFormat,
+    ParsedLog,
+    LineIndex,
+    LogEntry,
+    QueryExecution,
+    StoredLogSummary
+} from './log.types';
+import { FollowOptions, LogEncoding, ParserOptions } from './parser.types';
+import {
+    AnalysisResult,
+    AnalysisConfig,
+    CrossLogCorrelation,
+    CrossLogOptions,
+    TimelineEvent
+} from './analysis.types';
 
 export type OperationStatus = 'idle' | 'processing' | 'success' | 'error';
 
+/**
+ * Códigos de erro retornados em IPCResponse.errorCode
+ * (espelhados em src-tauri/src/commands.rs)
+ */
+export enum IPCErrorCode {
+    UNKNOWN = 1000,
+    INVALID_REQUEST = 1001,
+    UNKNOWN_COMMAND = 1002,
+    FILE_NOT_FOUND = 1003,
+    UNSUPPORTED_FORMAT = 1004,
+    LOG_NOT_FOUND = 1005,
+    SIDECAR_UNAVAILABLE = 1006
+}
+
+/** Nome do evento Tauri emitido durante parsings longos */
+export const PARSING_PROGRESS_EVENT = 'parsing-progress';
+
+/** Nome do evento Tauri emitido quando um log acompanhado recebe novas linhas */
+export const LOG_APPENDED_EVENT = 'log-appended';
+
 export interface IPCResponse<T = any> {
     success: boolean;
     data?: T;
@@ -18,9 +52,71 @@ export interface ParseLogCommand {
 }
 
 export interface ParseLogResponse extends IPCResponse<ParsedLog> {
+    /** Id do log registrado no store (usado por analyze/search/export) */
+    logId?: string;
     warnings?: string[];
 }
 
+export interface FollowLogCommand {
+    filePath: string;
+    options?: ParserOptions;
+    follow?: FollowOptions;
+}
+
+/**
+ * Conteúdo já existente no arquivo; o restante chega pelo evento log-appended
+ */
+export interface FollowLogResponse extends IPCResponse<ParsedLog> {
+    logId?: string;
+}
+
+export interface UnfollowLogCommand {
+    logId: string;
+}
+
+export interface UnfollowLogResponse extends IPCResponse<{ stopped: boolean; }> {}
+
+export interface IndexLogCommand {
+    filePath: string;
+    options?: ParserOptions;
+    /** Ignora o índice gravado e indexa o arquivo inteiro */
+    rebuild?: boolean;
+}
+
+export interface IndexLogResponse extends IPCResponse<{
+    /** 'restored' (índice gravado reaproveitado), 'extended' (só o trecho novo) ou 'built' */
+    status: 'restored' | 'extended' | 'built';
+    index: LineIndex;
+}> {}
+
+/**
+ * Lê um trecho do arquivo pelo índice de linhas (sem carregar o log inteiro)
+ * Informe fromLine ou timestamp (ISO); sem nenhum dos dois, lê do início
+ */
+export interface ReadLinesCommand {
+    filePath: string;
+    fromLine?: number;
+    timestamp?: string;
+    /** Máximo de entradas (padrão: 200) */
+    count?: number;
+    options?: ParserOptions;
+}
+
+export interface ReadLinesResponse extends IPCResponse<{
+    entries: LogEntry[];
+    totalLines: number;
+}> {}
+
+export interface ListLogsCommand {}
+
+export interface ListLogsResponse extends IPCResponse<StoredLogSummary[]> {}
+
+export interface CloseLogCommand {
+    logId: string;
+}
+
+export interface CloseLogResponse extends IPCResponse<{ closed: boolean; }> {}
+
 export interface AnalyzeLogCommand {
     logId: string;
     config: AnalysisConfig;
@@ -28,14 +124,51 @@ export interface AnalyzeLogCommand {
 
 export interface AnalyzeLogResponse extends IPCResponse<AnalysisResult> {}
 
+/**
+ * Pareia as queries de um log da aplicação com as de um log do banco já abertos
+ */
+export interface CorrelateLogsCommand {
+    appLogId: string;
+    dbLogId: string;
+    options?: CrossLogOptions;
+}
+
+export interface CorrelateLogsResponse extends IPCResponse<CrossLogCorrelation> {}
+
 export interface DetectFormatCommand {
     filePath: string;
+    /** Membro a detectar quando o arquivo é um pacote zip/tar */
+    archiveMember?: string;
 }
 
 export interface DetectFormatResponse extends IPCResponse<{
     format: string;
     confidence: number;
     parserName: string;
+    /** Encoding detectado pelo início do arquivo (BOM, UTF-8 inválido, acentos) */
+    encoding: LogEncoding;
+}> {}
+
+/**
+ * Lista os arquivos de um pacote zip/tar com o formato detectado em cada um
+ */
+export interface ListArchiveCommand {
+    filePath: string;
+}
+
+export interface ArchiveMemberInfo extends ArchiveMember {
+    /** Ausente quando nenhum parser reconhece o conteúdo */
+    detection?: {
+        format: string;
+        confidence: number;
+        parserName: string;
+        encoding: LogEncoding;
+    };
+}
+
+export interface ListArchiveResponse extends IPCResponse<{
+    compression: CompressionFormat;
+    members: ArchiveMemberInfo[];
 }> {}
 
 export interface SearchLogsCommand {
@@ -44,11 +177,28 @@ export interface SearchLogsCommand {
     isRegex?: boolean;
     caseSensitive?: boolean;
     fields?: ('message' | 'query' | 'all')[];
+    /** Expressão na linguagem de filtros; com query vazia, retorna só o que o filtro aceita */
+    filter?: string;
+    /** Índice do primeiro resultado (paginação) */
+    offset?: number;
+    /** Máximo de resultados por página (padrão: 200) */
+    limit?: number;
+}
+
+/**
+ * Trecho encontrado em um resultado de busca (offsets em caracteres, fim exclusivo)
+ */
+export interface SearchHighlight {
+    lineNumber: number;
+    field: 'message' | 'query' | 'decodedQuery';
+    start: number;
+    end: number;
 }
 
 export interface SearchLogsResponse extends IPCResponse<{
     results: LogEntry[];
     totalMatches: number;
+    highlights?: SearchHighlight[];
 }> {}
 
 export interface ExportLogCommand {
@@ -59,6 +209,8 @@ export interface ExportLogCommand {
         processIds?: string[];
         severity?: string[];
         timeRange?: { start: string; end: string; };
+        /** Expressão na linguagem de filtros, combinada (AND) com os demais campos */
+        expression?: string;
     };
 }
 
@@ -75,6 +227,23 @@ export interface ParsingProgressEvent {
     message: string;
 }
 
+/**
+ * Linhas novas de um log acompanhado (já acrescentadas ao log no store)
+ */
+export interface LogAppendedEvent {
+    logId: string;
+    entries: LogEntry[];
+    /** Execuções concluídas neste lote */
+    executions: QueryExecution[];
+    timeline: TimelineEvent[];
+    /** O arquivo recomeçou ('truncated' ou 'rotated'); as próximas linhas vêm do início dele */
+    reset?: 'truncated' | 'rotated';
+    /** Total de entradas do log após o lote */
+    totalEntries: number;
+    /** Presente quando o acompanhamento parou por erro de leitura */
+    error?: string;
+}
+
 export interface IPCCommands {
   'parse_log': {
     request: ParseLogCommand;
@@ -84,6 +253,10 @@ export interface IPCCommands {
     request: AnalyzeLogCommand;
     response: AnalyzeLogResponse;
   };
+  'correlate_logs': {
+    request: CorrelateLogsCommand;
+    response: CorrelateLogsResponse;
+  };
   'detect_format': {
     request: DetectFormatCommand;
     response: DetectFormatResponse;
@@ -96,4 +269,32 @@ export interface IPCCommands {
     request: ExportLogCommand;
     response: ExportLogResponse;
   };
+  'list_logs': {
+    request: ListLogsCommand;
+    response: ListLogsResponse;
+  };
+  'close_log': {
+    request: CloseLogCommand;
+    response: CloseLogResponse;
+  };
+  'follow_log': {
+    request: FollowLogCommand;
+    response: FollowLogResponse;
+  };
+  'unfollow_log': {
+    request: UnfollowLogCommand;
+    response: UnfollowLogResponse;
+  };
+  'index_log': {
+    request: IndexLogCommand;
+    response: IndexLogResponse;
+  };
+  'read_lines': {
+    request: ReadLinesCommand;
+    response: ReadLinesResponse;
+  };
+  'list_archive': {
+    request: ListArchiveCommand;
+    response: ListArchiveResponse;
+  };
 }
\ No newline at end of file
@@ -22,9 +22,73 @@ export type LogSeverity =
   | 'CRITICAL'; // Erros críticos que param a aplicação
 
 /**
- * Tipo de query SQL
+ * Tipo de query SQL (WITH assume o tipo do comando principal)
  */
-export type SQLQueryType = 'select' | 'insert' | 'update' | 'delete' | 'other';
+export type SQLQueryType =
+  | 'select'
+  | 'insert'
+  | 'update'
+  | 'delete'
+  | 'merge'
+  | 'call'    // CALL / EXEC de procedures
+  | 'ddl'     // CREATE / ALTER / DROP / TRUNCATE
+  | 'other';
+
+/**
+ * Papel de uma tabela no comando: lida ou alterada
+ */
+export type SQLTableRole = 'read' | 'write';
+
+/**
+ * Tabela referenciada por uma query
+ */
+export interface SQLTableReference {
+  /** Nome completo em minúsculas (ex: "vendas.produto") */
+  name: string;
+
+  /** Schema/owner, quando qualificado */
+  schema?: string;
+
+  /** Apelido usado na query (ex: "p" em "FROM produto p") */
+  alias?: string;
+
+  role: SQLTableRole;
+}
+
+/**
+ * Estrutura de um comando SQL extraída pelo analisador de SQL
+ * Cláusulas (WHERE, ORDER BY, LIMIT) se referem ao comando principal, fora de subqueries
+ */
+export interface SQLStatementInfo {
+  kind: SQLQueryType;
+  tables: SQLTableReference[];
+
+  /** Nomes das CTEs declaradas no WITH (não entram em tables) */
+  ctes: string[];
+
+  hasWhere: boolean;
+  hasOrderBy: boolean;
+
+  /** LIMIT, FETCH FIRST/NEXT, TOP ou ROWNUM */
+  hasLimit: boolean;
+
+  hasSubquery: boolean;
+
+  /** SELECT * ou alias.* */
+  selectsAll: boolean;
+}
+
+/**
+ * Etapa do ciclo de vida de uma query em que a linha foi registrada
+ * (ex: "SQL Antes processamento" = 'raw', "Tempo Execução" = 'result')
+ */
+export type SQLLifecycleStage =
+  | 'raw'        // SQL Antes processamento
+  | 'processed'  // SQL Após processamento
+  | 'executed'   // SQL:
+  | 'binds'      // No Pré executa BINDS
+  | 'decoded'    // SQL BIND DECODE
+  | 'result';    // Tempo Execução / Registros Retornados
 
 /**
  * Informações extraídas de queries SQL
@@ -44,17 +108,62 @@ export interface SQLInfo {
   
   /** Número de registros retornados */
   recordsReturned?: number;
+
+  /** Registros lidos pelo banco para responder (slow log do MySQL) */
+  rowsExamined?: number;
   
   /** Tipo de query detectado */
   queryType?: SQLQueryType;
   
   /** Tabelas envolvidas na query */
   tables?: string[];
+
+  /** Estrutura da query (tabelas com papel e apelido, cláusulas, tipo de comando) */
+  statement?: SQLStatementInfo;
+
+  /** Hash da query normalizada (sem literais/binds), igual para queries do mesmo padrão */
+  fingerprint?: string;
   
   /** Flag se é uma query multi-linha */
   isMultiLine?: boolean;
+  
+  /** Etapa do ciclo de vida registrada nesta linha (quando o formato separa as etapas) */
+  stage?: SQLLifecycleStage;
+}
+
+/**
+ * Execução de uma query correlacionada a partir de várias linhas do mesmo PID
+ * (SQL antes/após processamento, binds, decode, tempo e registros)
+ */
+export interface QueryExecution {
+  /** Identificador estável (PID + primeira linha) */
+  id: string;
+  
+  /** Process ID da sessão que executou a query */
+  processId: string;
+  
+  /** Contexto da primeira linha da execução */
+  context: ExecutionContext;
+  
+  /** SQL antes do processamento */
+  rawQuery?: string;
+  
+  /** SQL após o processamento */
+  processedQuery?: string;
+  
+  /** Informações SQL consolidadas (query, binds, decode, tempo, registros) */
+  sqlInfo: SQLInfo;
+  
+  /** Linhas do arquivo que contribuíram para esta execução */
+  lineNumbers: number[];
 }
 
+/**
+ * De onde veio a data base usada para completar os timestamps HH:MM:SS
+ * ('log-line': as próprias linhas trazem a data completa, sem inferência)
+ */
+export type LogDateSource = 'file-name' | 'file-mtime' | 'option' | 'log-line';
+
 /**
  * Metadados de contexto de execução
  */
@@ -79,6 +188,12 @@ export interface ExecutionContext {
   
   /** Índice de conexão / contexto (ex: "funcoesGerais::retornarValorParametro") */
   connectionIndex: string;
+
+  /** Usuário do banco (logs do PostgreSQL/MySQL) */
+  user?: string;
+
+  /** Banco de dados da sessão (logs do PostgreSQL/MySQL) */
+  database?: string;
 }
 
 /**
@@ -89,6 +204,12 @@ export interface LogEntry {
   /** Número da linha no arquivo original */
   lineNumber: number;
   
+  /** Última linha ocupada pela entrada (apenas entradas multi-linha) */
+  endLineNumber?: number;
+
+  /** Posição (bytes) do início da entrada no arquivo */
+  byteOffset?: number;
+  
   /** Linha original completa (raw) */
   rawLine: string;
   
@@ -124,7 +245,7 @@ export interface LogFileMetadata {
   /** Caminho completo */
   filePath: string;
   
-  /** Tamanho do arquivo em bytes */
+  /** Tamanho do arquivo em bytes (descomprimido, se o log veio comprimido) */
   fileSizeBytes: number;
   
   /** Total de linhas no arquivo */
@@ -141,6 +262,9 @@ export interface LogFileMetadata {
     start: Date;
     end: Date;
   };
+
+  /** Origem da data base usada em dateRange/fullDate */
+  dateSource?: LogDateSource;
   
   /** Número de sessões únicas (PIDs únicos) */
   uniqueSessions: number;
@@ -150,6 +274,40 @@ export interface LogFileMetadata {
   
   /** Encoding do arquivo */
   encoding: string;
+
+  /** Presente quando o log foi lido de um arquivo comprimido ou de um pacote */
+  compression?: LogCompression;
+}
+
+/**
+ * Compressão do arquivo: gzip/deflate (um único log) ou pacotes zip/tar (vários membros)
+ */
+export type CompressionFormat = 'gzip' | 'deflate' | 'zip' | 'tar' | 'tar-gzip';
+
+export interface LogCompression {
+  format: CompressionFormat;
+
+  /** Membro lido, em pacotes zip/tar */
+  member?: string;
+
+  /** Tamanho do arquivo comprimido em bytes */
+  compressedBytes: number;
+}
+
+/**
+ * Arquivo dentro de um pacote zip/tar
+ */
+export interface ArchiveMember {
+  /** Caminho dentro do pacote */
+  name: string;
+
+  /** Tamanho descomprimido em bytes */
+  size: number;
+
+  /** Tamanho comprimido em bytes (zip) */
+  compressedSize?: number;
+
+  modifiedAt?: Date;
 }
 
 /**
@@ -162,6 +320,9 @@ export interface ParsedLog {
   /** Entradas de log parseadas */
   entries: LogEntry[];
   
+  /** Execuções de queries correlacionadas a partir das entradas */
+  queryExecutions?: QueryExecution[];
+  
   /** Timestamp do parsing */
   parsedAt: Date;
   
@@ -170,9 +331,88 @@ export interface ParsedLog {
 }
 
 /**
- * Resumo de uma sessão (agrupado por PID)
+ * Onde as entradas de um log aberto estão no momento
+ */
+export type StoredLogState = 'memory' | 'raw-lines-dropped' | 'spilled';
+
+/**
+ * Log aberto no store, identificado por logId
+ */
+export interface StoredLogSummary {
+  /** Id gerado ao registrar o log */
+  logId: string;
+  
+  /** Metadados do arquivo */
+  metadata: LogFileMetadata;
+  
+  /** Estado das entradas (em memória, sem rawLine ou em disco) */
+  state: StoredLogState;
+  
+  /** Memória estimada das entradas e execuções em bytes */
+  estimatedBytes: number;
+  
+  /** Último acesso (epoch ms) */
+  lastAccessedAt: number;
+}
+
+/**
+ * Ponto do arquivo onde a leitura pode recomeçar (sempre o início de uma entrada)
+ */
+export interface LineIndexCheckpoint {
+  lineNumber: number;
+
+  byteOffset: number;
+
+  /** Data completa da entrada (epoch ms), quando conhecida */
+  time?: number;
+}
+
+/**
+ * Índice de linhas gravado ao lado do log (<arquivo>.lidx)
+ * Permite ir direto a uma linha ou horário e, ao reabrir o arquivo,
+ * reaproveitar o índice em vez de reprocessá-lo
+ */
+export interface LineIndex {
+  version: number;
+
+  filePath: string;
+
+  /** Parser que gerou o índice (formato detectado) */
+  parserName: string;
+
+  /** Tamanho e mtime (epoch ms) do arquivo quando o índice foi gravado */
+  fileSizeBytes: number;
+  fileModifiedMs: number;
+
+  /** Linhas entre checkpoints consecutivos */
+  interval: number;
+
+  checkpoints: LineIndexCheckpoint[];
+
+  /** Última linha ocupada por uma entrada indexada */
+  totalLines: number;
+
+  totalEntries: number;
+
+  /** Bytes do arquivo já indexados */
+  indexedBytes: number;
+
+  /** Início da última entrada: se o arquivo crescer, a indexação continua dela */
+  resumeFrom?: LineIndexCheckpoint;
+
+  dateRange?: {
+    start: number;
+    end: number;
+  };
+}
+
+/**
+ * Resumo de uma sessão (PID contínuo; um PID reutilizado após um período ocioso gera outra sessão)
  */
 export interface SessionSummary {
+  /** Identificador da sessão no arquivo (ex: "1234#2" = segunda sessão do PID 1234) */
+  sessionId: string;
+
   /** Process ID da sessão */
   processId: string;
   
@@ -196,7 +436,31 @@ export interface SessionSummary {
     start: string;
     end: string;
   };
-  
+
+  /** Primeira e última linha da sessão no arquivo */
+  lineRange: {
+    start: number;
+    end: number;
+  };
+
+  /** Duração em segundos (usa fullDate quando disponível) */
+  durationSeconds: number;
+
+  /** Quantidade de entradas da sessão */
+  entryCount: number;
+
+  /**
+   * Contexto funcional: caminhos de chamada (connectionIndex) na ordem em que aparecem
+   * (ex: ['funcoesGerais::retornarValorParametro'])
+   */
+  callPaths: string[];
+
+  /** Duração acima do limite de sessão longa */
+  isLongLived: boolean;
+
+  /** Terminou com transação aberta (BEGIN sem COMMIT/ROLLBACK) */
+  endedInTransaction: boolean;
+
   /** Entradas de log desta sessão */
   entries: LogEntry[];
 }
\ No newline at end of file
@@ -1,25 +1,97 @@
 import { ParsedLog, LogEntry } from './log.types';
+import { ThresholdSelection } from './threshold.types';
+
+/**
+ * Encoding dos logs: os do Node e os de servidores legados que o Node não
+ * decodifica (windows-1252, UTF-16 big-endian)
+ */
+export type LogEncoding = BufferEncoding | 'windows-1252' | 'utf16be';
 
 /**
  * Opções de parsing configuráveis
+ * thresholdProfile/thresholds definem os limites de severidade e tags
  */
-export interface ParserOptions {
-    /** Data base para inferir timestamps completos*/
+export interface ParserOptions extends ThresholdSelection {
+    /**
+     * Data base para inferir timestamps completos
+     * Informada, tem precedência sobre a data do nome do arquivo e o mtime
+     * (que só são usados sem ela)
+     */
     baseDate?: Date;
 
+    /** Atalho para thresholds.slowQuerySeconds */
     slowQueryThreshold?: number;
 
     maxLines?: number;
 
-    encoding?: BufferEncoding;
+    /**
+     * Retomada a partir de uma posição do arquivo (ex: checkpoint do índice de linhas)
+     * startOffset deve ser o início de uma entrada; startLine é o número dessa linha
+     * e startDate a data completa dela, para manter a virada de dia no meio do arquivo
+     */
+    startOffset?: number;
+
+    startLine?: number;
+
+    startDate?: Date;
+
+    /** Posição (bytes) onde parar a leitura (exclusiva); deve ser o início de uma entrada */
+    endOffset?: number;
+
+    /**
+     * Parsing em worker threads, em partes do arquivo (arquivos de vários GB)
+     * Ignorado com maxLines ou startOffset
+     */
+    parallel?: ParallelParseOptions;
+
+    /** Sem encoding, ele é detectado pelo início do arquivo (BOM, UTF-8 inválido, acentos) */
+    encoding?: LogEncoding;
+
+    /**
+     * Arquivo a ler de um pacote .zip/.tar/.tar.gz (caminho dentro do pacote)
+     * Obrigatório quando o pacote tem mais de um arquivo
+     */
+    archiveMember?: string;
 
     chunkSize?: number;
 
     stopOnError?: boolean;
 
+    /**
+     * Expressão na linguagem de filtros
+     * (ex: "severity>=WARNING AND sql.executionTime>0.5 AND table:produto")
+     */
+    filter?: string;
+
+    /** @deprecated Use `filter`; convertido para a mesma linguagem internamente */
     filters?: ParserFilter[];
 }
 
+export interface ParallelParseOptions {
+    /** Workers simultâneos (padrão: núcleos - 1, mínimo 1) */
+    workers?: number;
+
+    /** Tamanho aproximado de cada parte (padrão: 16 MB) */
+    chunkBytes?: number;
+}
+
+/**
+ * Opções do modo follow (acompanhar um arquivo que continua sendo escrito)
+ */
+export interface FollowOptions {
+    /** Intervalo entre verificações do arquivo (padrão: 500ms) */
+    pollIntervalMs?: number;
+
+    /**
+     * Tempo sem novas linhas após o qual a entrada pendente (SQL que ainda
+     * poderia ter continuação) é emitida (padrão: 1000ms)
+     */
+    pendingFlushMs?: number;
+
+    /** Começa no fim do arquivo, ignorando o conteúdo já existente */
+    fromEnd?: boolean;
+}
+
 export interface ParserFilter {
     type: 'include' | 'exclude';
 
@@ -82,4 +154,10 @@ export interface ParserRegistration {
     priority: number;
 
     formats: string[];
+
+    /**
+     * Cria uma instância nova do parser (parsers guardam o estado do arquivo
+     * em leitura; cada leitura concorrente precisa da sua)
+     */
+    create?: () => ILogParser;
 }
\ No newline at end of file
@@ -0,0 +1,57 @@
+/**
+ * Limites usados para severidade, tags e classificação das análises
+ * Perfis nomeados permitem ajustar os limites ao ambiente de cada cliente
+ */
+export interface ThresholdProfile {
+    /** Tempo (s) a partir do qual a query é lenta (WARNING, tag slow-query, SlowQuery 'warning') */
+    slowQuerySeconds: number;
+
+    /** Tempo (s) da tag very-slow-query e de SlowQuery 'critical' */
+    criticalQuerySeconds: number;
+
+    /** Tempo (s) de SlowQuery 'severe' */
+    severeQuerySeconds: number;
+
+    /** Registros acima dos quais o resultado é grande (tag large-result-set) */
+    largeResultSetRows: number;
+
+    /** Registros acima dos quais o resultado grande é crítico */
+    hugeResultSetRows: number;
+
+    /** Memória (MB) do processo a partir da qual a linha recebe a tag high-memory */
+    highMemoryMB: number;
+
+    /** Aumento (MB) entre duas linhas do mesmo PID que conta como salto de memória */
+    memoryJumpMB: number;
+
+    /** Crescimento (MB) mínimo do início ao fim do PID para suspeita de vazamento */
+    memoryGrowthMB: number;
+
+    /** Palavras-chave (minúsculas, português e inglês) que classificam a mensagem */
+    keywords: ThresholdKeywords;
+}
+
+export interface ThresholdKeywords {
+    critical: string[];
+    error: string[];
+    warning: string[];
+    debug: string[];
+}
+
+/**
+ * Ajustes sobre um perfil (listas de palavras-chave substituem as do perfil)
+ */
+export type ThresholdOverrides = Partial<Omit<ThresholdProfile, 'keywords'>> & {
+    keywords?: Partial<ThresholdKeywords>;
+};
+
+/**
+ * Seleção de limites aceita por ParserOptions e AnalysisConfig
+ */
+export interface ThresholdSelection {
+    /** Perfil nomeado (padrão: 'default') */
+    thresholdProfile?: string;
+
+    /** Ajustes aplicados sobre o perfil */
+    thresholds?: ThresholdOverrides;
+}
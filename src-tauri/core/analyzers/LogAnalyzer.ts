@@ -0,0 +1,622 @@
+import {
+  AnalysisConfig,
+  AnalysisResult,
+  AnalysisType,
+  ErrorPattern,
+  InsightFinding,
+  MemoryPeak,
+  MemoryProfile,
+  MemorySuspect,
+  QueryPattern,
+  QueryStatistics,
+  SlowQuery,
+  TableUsage,
+  TimelineEvent,
+  TransactionRecord
+} from '../../../shared/types/analysis.types';
+import {
+  LogEntry,
+  ParsedLog,
+  QueryExecution,
+  SessionSummary,
+  SQLQueryType
+} from '../../../shared/types/log.types';
+import { correlateQueryExecutions } from '../parsers/correlation/QueryCorrelator';
+import { reconstructSessions } from '../sessions/SessionReconstructor';
+import { trackTransactions } from '../transactions/TransactionTracker';
+import { profileMemory } from '../memory/MemoryProfiler';
+import { clusterErrors } from '../errors/ErrorClustering';
+import { InsightContext, InsightEngine, insightEngine } from '../insights/InsightEngine';
+import { applyInsightRulesConfig, loadInsightRulesConfig } from '../insights/InsightRuleConfig';
+import { registerDefaultRules } from '../insights/registry';
+import { analyzeSQL } from '../parsers/utils/SQLAnalyzer';
+import { getSQLFingerprint, normalizeSQL } from '../parsers/utils/SQLFingerprint';
+import { thresholdProfiles } from '../thresholds/ThresholdProfiles';
+import { ThresholdProfile } from '../../../shared/types/threshold.types';
+
+/** Limite padrão de itens por lista de resultado */
+const DEFAULT_LIMIT = 50;
+
+/** Quantidade máxima de exemplos guardados por padrão de erro */
+const MAX_ERROR_EXAMPLES = 3;
+
+/** Quantidade máxima de execuções de exemplo por padrão de query */
+const MAX_PATTERN_EXAMPLES = 3;
+
+/** Quantidade máxima de entradas de evidência por achado de insight */
+const MAX_FINDING_EVIDENCE = 5;
+
+/**
+ * Motor de análise
+ * Recebe um ParsedLog e executa cada AnalysisType solicitado no AnalysisConfig
+ */
+export class LogAnalyzer {
+  constructor(private readonly insights: InsightEngine = registerDefaultRules(insightEngine)) {}
+
+  /**
+   * Executa as análises configuradas sobre um log parseado
+   * @param log Resultado do parsing
+   * @param config Tipos de análise e parâmetros
+   */
+  analyze(log: ParsedLog, config: AnalysisConfig): AnalysisResult {
+    const startTime = Date.now();
+    const entries = log.entries;
+    const executions = log.queryExecutions ?? correlateQueryExecutions(entries);
+    const entryByLine = new Map(entries.map(entry => [entry.lineNumber, entry]));
+    const thresholds = thresholdProfiles.resolve(config);
+    const threshold = thresholds.slowQuerySeconds;
+    const limit = config.limit ?? DEFAULT_LIMIT;
+    const includeDetails = config.includeDetails ?? false;
+
+    const result: AnalysisResult = {
+      config,
+      insights: [],
+      analyzedAt: new Date(),
+      analysisDurationMs: 0
+    };
+
+    const types = new Set<AnalysisType>(config.types);
+
+    // Sugestões das queries lentas vêm dos achados das regras
+    const findings = types.has('insights') || types.has('slow-queries')
+      ? this.runInsightRules({ entries, executions, entryByLine, thresholds }, config)
+      : [];
+
+    if (types.has('slow-queries')) {
+      result.slowQueries = this.findSlowQueries(executions, entryByLine, thresholds, limit);
+      this.attachSuggestions(result.slowQueries, findings);
+    }
+
+    if (types.has('error-patterns')) {
+      result.errorPatterns = this.findErrorPatterns(entries, limit, includeDetails);
+    }
+
+    if (types.has('memory-peaks')) {
+      result.memoryPeaks = this.findMemoryPeaks(entries, limit);
+    }
+
+    if (types.has('memory-profile')) {
+      const { profiles, suspects } = this.profileMemory(entries, thresholds, limit, includeDetails);
+      result.memoryProfiles = profiles;
+      result.memorySuspects = suspects;
+    }
+
+    if (types.has('session-summary')) {
+      result.sessionSummaries = this.summarizeSessions(
+        entries,
+        executions,
+        config,
+        threshold,
+        limit,
+        includeDetails
+      );
+    }
+
+    if (types.has('query-frequency')) {
+      result.queryStatistics = this.computeQueryStatistics(executions, threshold);
+    }
+
+    if (types.has('query-patterns')) {
+      result.queryPatterns = this.findQueryPatterns(executions, limit, includeDetails);
+    }
+
+    if (types.has('table-usage')) {
+      result.tableUsage = this.computeTableUsage(executions, limit);
+    }
+
+    if (types.has('transactions')) {
+      result.transactions = this.findTransactions(entries, executions, config, limit, includeDetails);
+    }
+
+    if (types.has('timeline')) {
+      result.timeline = this.buildTimeline(entries, executions, entryByLine, threshold, limit);
+    }
+
+    if (types.has('insights')) {
+      result.findings = findings.slice(0, limit);
+      result.insights = result.findings.map(finding => finding.message);
+
+      if (!includeDetails) {
+        for (const finding of result.findings) {
+          finding.evidence = finding.evidence.slice(0, MAX_FINDING_EVIDENCE);
+        }
+      }
+    }
+
+    result.analysisDurationMs = Date.now() - startTime;
+
+    return result;
+  }
+
+  /**
+   * Queries com tempo de execução acima do threshold, da mais lenta para a mais rápida
+   */
+  private findSlowQueries(
+    executions: QueryExecution[],
+    entryByLine: Map<number, LogEntry>,
+    thresholds: ThresholdProfile,
+    limit: number
+  ): SlowQuery[] {
+    const slowQueries: SlowQuery[] = [];
+
+    for (const execution of executions) {
+      const executionTime = execution.sqlInfo.executionTime;
+
+      if (executionTime === undefined || executionTime < thresholds.slowQuerySeconds) {
+        continue;
+      }
+
+      const entry = this.findQueryEntry(execution, entryByLine);
+      if (!entry) {
+        continue;
+      }
+
+      slowQueries.push({
+        entry,
+        execution,
+        executionTime,
+        severity: this.classifySlowQuery(executionTime, thresholds),
+        suggestions: []
+      });
+    }
+
+    return slowQueries
+      .sort((a, b) => b.executionTime - a.executionTime)
+      .slice(0, limit);
+  }
+
+  /**
+   * Executa as regras de insight (embutidas + arquivo de regras da configuração)
+   * @throws InsightConfigError se o arquivo de regras for inválido
+   */
+  private runInsightRules(context: InsightContext, config: AnalysisConfig): InsightFinding[] {
+    const engine = config.rulesFile
+      ? applyInsightRulesConfig(this.insights, loadInsightRulesConfig(config.rulesFile))
+      : this.insights;
+
+    return engine.run(context);
+  }
+
+  /**
+   * Preenche SlowQuery.suggestions com as sugestões dos achados que têm a query como evidência
+   */
+  private attachSuggestions(slowQueries: SlowQuery[], findings: InsightFinding[]): void {
+    const suggestionsByLine = new Map<number, Set<string>>();
+
+    for (const finding of findings) {
+      if (!finding.suggestion) {
+        continue;
+      }
+
+      for (const entry of finding.evidence) {
+        const suggestions = suggestionsByLine.get(entry.lineNumber) ?? new Set<string>();
+        suggestions.add(finding.suggestion);
+        suggestionsByLine.set(entry.lineNumber, suggestions);
+      }
+    }
+
+    for (const slowQuery of slowQueries) {
+      const lineNumber = slowQuery.execution?.lineNumbers[0] ?? slowQuery.entry.lineNumber;
+      slowQuery.suggestions = Array.from(suggestionsByLine.get(lineNumber) ?? []);
+    }
+  }
+
+  /**
+   * Entrada que melhor representa a execução (a que carrega a query)
+   */
+  private findQueryEntry(
+    execution: QueryExecution,
+    entryByLine: Map<number, LogEntry>
+  ): LogEntry | undefined {
+    let fallback: LogEntry | undefined;
+
+    for (const lineNumber of execution.lineNumbers) {
+      const entry = entryByLine.get(lineNumber);
+      if (entry?.sqlInfo?.query) {
+        return entry;
+      }
+      fallback = fallback ?? entry;
+    }
+
+    return fallback;
+  }
+
+  /**
+   * Classifica a severidade de uma query lenta pelos tempos do perfil de thresholds
+   */
+  private classifySlowQuery(executionTime: number, thresholds: ThresholdProfile): SlowQuery['severity'] {
+    if (executionTime >= thresholds.severeQuerySeconds) return 'severe';
+    if (executionTime >= thresholds.criticalQuerySeconds) return 'critical';
+    return 'warning';
+  }
+
+  /**
+   * Erros ERROR/CRITICAL agrupados por template, dos mais frequentes para os menos frequentes
+   */
+  private findErrorPatterns(
+    entries: LogEntry[],
+    limit: number,
+    includeDetails: boolean
+  ): ErrorPattern[] {
+    return clusterErrors(entries, { maxExamples: includeDetails ? MAX_ERROR_EXAMPLES : 0 })
+      .sort((a, b) => b.count - a.count)
+      .slice(0, limit);
+  }
+
+  /**
+   * Maior uso de memória registrado por processo, ordenado do maior para o menor
+   */
+  private findMemoryPeaks(entries: LogEntry[], limit: number): MemoryPeak[] {
+    const peaksByProcess = new Map<string, MemoryPeak>();
+
+    for (const entry of entries) {
+      const { processId, memoryMB, timestamp } = entry.context;
+
+      if (!processId) {
+        continue;
+      }
+
+      const current = peaksByProcess.get(processId);
+      if (!current || memoryMB > current.memoryMB) {
+        peaksByProcess.set(processId, { entry, memoryMB, processId, timestamp });
+      }
+    }
+
+    return Array.from(peaksByProcess.values())
+      .sort((a, b) => b.memoryMB - a.memoryMB)
+      .slice(0, limit);
+  }
+
+  /**
+   * Série de memória por PID (maiores crescimentos primeiro) e suspeitos de
+   * vazamento ou saltos bruscos, ranqueados pelo score
+   */
+  private profileMemory(
+    entries: LogEntry[],
+    thresholds: ThresholdProfile,
+    limit: number,
+    includeDetails: boolean
+  ): { profiles: MemoryProfile[]; suspects: MemorySuspect[] } {
+    const { profiles, suspects } = profileMemory(entries, {
+      jumpThresholdMB: thresholds.memoryJumpMB,
+      growthThresholdMB: thresholds.memoryGrowthMB,
+      maxSamples: includeDetails ? 0 : undefined
+    });
+
+    return {
+      profiles: profiles
+        .sort((a, b) => Number(b.isGrowing) - Number(a.isGrowing) || b.growthMB - a.growthMB)
+        .slice(0, limit),
+      suspects: suspects.slice(0, limit)
+    };
+  }
+
+  /**
+   * Resumo por sessão (PID, dividido em períodos ociosos), ordenado pelo tempo total de execução
+   */
+  private summarizeSessions(
+    entries: LogEntry[],
+    executions: QueryExecution[],
+    config: AnalysisConfig,
+    threshold: number,
+    limit: number,
+    includeDetails: boolean
+  ): SessionSummary[] {
+    return reconstructSessions(entries, executions, {
+      idleGapSeconds: config.sessionIdleGapSeconds,
+      longSessionSeconds: config.longSessionSeconds,
+      slowQueryThreshold: threshold,
+      includeEntries: includeDetails
+    })
+      .sort((a, b) => b.totalExecutionTime - a.totalExecutionTime)
+      .slice(0, limit);
+  }
+
+  /**
+   * Transações por PID; abertas até o fim do arquivo primeiro, depois as mais longas
+   */
+  private findTransactions(
+    entries: LogEntry[],
+    executions: QueryExecution[],
+    config: AnalysisConfig,
+    limit: number,
+    includeDetails: boolean
+  ): TransactionRecord[] {
+    const transactions = trackTransactions(entries, executions, {
+      longTransactionSeconds: config.longTransactionSeconds
+    });
+
+    if (!includeDetails) {
+      for (const transaction of transactions) {
+        transaction.errors = transaction.errors.slice(0, MAX_ERROR_EXAMPLES);
+      }
+    }
+
+    return transactions
+      .sort((a, b) =>
+        Number(b.outcome === 'open') - Number(a.outcome === 'open') ||
+        b.durationSeconds - a.durationSeconds)
+      .slice(0, limit);
+  }
+
+  /**
+   * Estatísticas gerais de queries
+   */
+  private computeQueryStatistics(executions: QueryExecution[], threshold: number): QueryStatistics {
+    const byType = createQueryTypeCounter();
+    const times: number[] = [];
+    let totalQueries = 0;
+
+    for (const { sqlInfo } of executions) {
+      if (sqlInfo.query) {
+        totalQueries++;
+        byType[sqlInfo.queryType || 'other']++;
+      }
+
+      if (sqlInfo.executionTime !== undefined) {
+        times.push(sqlInfo.executionTime);
+      }
+    }
+
+    const totalExecutionTime = times.reduce((sum, time) => sum + time, 0);
+
+    return {
+      totalQueries,
+      byType,
+      avgExecutionTime: times.length > 0 ? totalExecutionTime / times.length : 0,
+      minExecutionTime: times.length > 0 ? times.reduce((min, time) => Math.min(min, time)) : 0,
+      maxExecutionTime: times.length > 0 ? times.reduce((max, time) => Math.max(max, time)) : 0,
+      totalExecutionTime,
+      slowQueriesCount: times.filter(time => time >= threshold).length,
+      p95ExecutionTime: percentile(times, 95)
+    };
+  }
+
+  /**
+   * Agrupa as execuções pelo fingerprint da query, das que mais consomem tempo
+   * no total para as que menos consomem (revela queries repetidas, ex: N+1)
+   */
+  private findQueryPatterns(
+    executions: QueryExecution[],
+    limit: number,
+    includeDetails: boolean
+  ): QueryPattern[] {
+    const groups = new Map<string, { pattern: QueryPattern; times: number[]; processIds: Set<string> }>();
+
+    for (const execution of executions) {
+      const sqlInfo = execution.sqlInfo;
+      const fingerprint = sqlInfo.fingerprint ?? getSQLFingerprint(sqlInfo);
+      if (!fingerprint) {
+        continue;
+      }
+
+      let group = groups.get(fingerprint);
+      if (!group) {
+        group = {
+          pattern: {
+            fingerprint,
+            normalizedQuery: normalizeSQL(sqlInfo.query || sqlInfo.decodedQuery || ''),
+            queryType: sqlInfo.queryType || 'other',
+            tables: sqlInfo.tables || [],
+            count: 0,
+            totalExecutionTime: 0,
+            avgExecutionTime: 0,
+            p95ExecutionTime: 0,
+            maxExecutionTime: 0,
+            totalRecordsReturned: 0,
+            avgRecordsReturned: 0,
+            processIds: [],
+            examples: []
+          },
+          times: [],
+          processIds: new Set()
+        };
+        groups.set(fingerprint, group);
+      }
+
+      const pattern = group.pattern;
+      pattern.count++;
+      pattern.totalRecordsReturned += sqlInfo.recordsReturned ?? 0;
+      group.processIds.add(execution.processId);
+
+      if (sqlInfo.executionTime !== undefined) {
+        group.times.push(sqlInfo.executionTime);
+        pattern.totalExecutionTime += sqlInfo.executionTime;
+        pattern.maxExecutionTime = Math.max(pattern.maxExecutionTime, sqlInfo.executionTime);
+      }
+
+      if (includeDetails && pattern.examples.length < MAX_PATTERN_EXAMPLES) {
+        pattern.examples.push(execution);
+      }
+    }
+
+    return Array.from(groups.values())
+      .map(({ pattern, times, processIds }) => ({
+        ...pattern,
+        avgExecutionTime: times.length > 0 ? pattern.totalExecutionTime / times.length : 0,
+        p95ExecutionTime: percentile(times, 95),
+        avgRecordsReturned: pattern.totalRecordsReturned / pattern.count,
+        processIds: Array.from(processIds)
+      }))
+      .sort((a, b) => b.totalExecutionTime - a.totalExecutionTime || b.count - a.count)
+      .slice(0, limit);
+  }
+
+  /**
+   * Uso de tabelas por quantidade de queries, separando leituras e escritas
+   */
+  private computeTableUsage(executions: QueryExecution[], limit: number): TableUsage[] {
+    const usage = new Map<string, TableUsage>();
+
+    for (const { sqlInfo } of executions) {
+      const statement = sqlInfo.statement ?? (sqlInfo.query ? analyzeSQL(sqlInfo.query) : undefined);
+      if (!statement || statement.tables.length === 0) {
+        continue;
+      }
+
+      const counted = new Set<string>();
+
+      for (const { name: tableName, role } of statement.tables) {
+        let table = usage.get(tableName);
+        if (!table) {
+          table = {
+            tableName,
+            queryCount: 0,
+            readCount: 0,
+            writeCount: 0,
+            operations: createQueryTypeCounter(),
+            totalExecutionTime: 0
+          };
+          usage.set(tableName, table);
+        }
+
+        if (role === 'write') {
+          table.writeCount++;
+        } else {
+          table.readCount++;
+        }
+
+        // Tabela lida e escrita no mesmo comando conta como uma query só
+        if (counted.has(tableName)) {
+          continue;
+        }
+        counted.add(tableName);
+
+        table.queryCount++;
+        table.operations[sqlInfo.queryType || 'other']++;
+        table.totalExecutionTime += sqlInfo.executionTime ?? 0;
+      }
+    }
+
+    return Array.from(usage.values())
+      .sort((a, b) => b.queryCount - a.queryCount)
+      .slice(0, limit);
+  }
+
+  /**
+   * Linha do tempo de queries, transações, erros e avisos na ordem do arquivo
+   * Queries vêm das execuções correlacionadas; demais eventos, das entradas
+   * Também usada pelo modo follow, com apenas as entradas e execuções de cada lote
+   */
+  buildTimeline(
+    entries: LogEntry[],
+    executions: QueryExecution[],
+    entryByLine: Map<number, LogEntry>,
+    threshold: number,
+    limit: number = Infinity
+  ): TimelineEvent[] {
+    const events: TimelineEvent[] = [];
+
+    for (const execution of executions) {
+      const entry = this.findQueryEntry(execution, entryByLine);
+      if (entry) {
+        events.push(this.toQueryEvent(execution, entry, threshold));
+      }
+    }
+
+    for (const entry of entries) {
+      const event = this.toTimelineEvent(entry);
+      if (event) {
+        events.push(event);
+      }
+    }
+
+    return events
+      .sort((a, b) => a.entry.lineNumber - b.entry.lineNumber)
+      .slice(0, limit);
+  }
+
+  /**
+   * Evento de timeline para uma execução de query
+   */
+  private toQueryEvent(
+    execution: QueryExecution,
+    entry: LogEntry,
+    threshold: number
+  ): TimelineEvent {
+    const duration = execution.sqlInfo.executionTime;
+    const isSlow = duration !== undefined && duration >= threshold;
+
+    return {
+      timestamp: execution.context.timestamp,
+      type: isSlow ? 'warning' : 'query',
+      description: execution.sqlInfo.query || entry.message,
+      duration,
+      severity: isSlow ? 'warning' : 'info',
+      entry
+    };
+  }
+
+  /**
+   * Converte uma entrada não-SQL em evento de timeline (ou null se não for relevante)
+   */
+  private toTimelineEvent(entry: LogEntry): TimelineEvent | null {
+    const base = {
+      timestamp: entry.context.timestamp,
+      entry
+    };
+
+    if (entry.severity === 'ERROR' || entry.severity === 'CRITICAL') {
+      return { ...base, type: 'error', description: entry.message, severity: 'error' };
+    }
+
+    if (entry.messageType === 'TRANSACTION') {
+      return { ...base, type: 'transaction', description: entry.message, severity: 'info' };
+    }
+
+    // Linhas SQL já estão representadas pelas execuções
+    if (entry.sqlInfo) {
+      return null;
+    }
+
+    if (entry.severity === 'WARNING') {
+      return { ...base, type: 'warning', description: entry.message, severity: 'warning' };
+    }
+
+    return null;
+  }
+}
+
+/**
+ * Cria um contador zerado para cada SQLQueryType
+ */
+function createQueryTypeCounter(): Record<SQLQueryType, number> {
+  return { select: 0, insert: 0, update: 0, delete: 0, merge: 0, call: 0, ddl: 0, other: 0 };
+}
+
+/**
+ * Calcula o percentil (nearest-rank) de uma lista de valores
+ */
+export function percentile(values: number[], p: number): number {
+  if (values.length === 0) return 0;
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = Math.ceil((p / 100) * sorted.length);
+
+  return sorted[Math.min(Math.max(rank - 1, 0), sorted.length - 1)];
+}
+
+/**
+ * Instância singleton global do analisador
+ */
+export const logAnalyzer = new LogAnalyzer();
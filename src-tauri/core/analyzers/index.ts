@@ -0,0 +1 @@
+export { LogAnalyzer, logAnalyzer, percentile } from './LogAnalyzer';
@@ -0,0 +1,366 @@
+import { ArchiveMember } from '../../../shared/types/log.types';
+import { Readable, Transform } from 'stream';
+import * as fs from 'fs';
+import * as zlib from 'zlib';
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22;
+/** O registro final pode ser seguido de um comentário de até 64 KB */
+const MAX_END_SEARCH_BYTES = END_OF_CENTRAL_DIRECTORY_SIZE + 0xffff;
+
+const CENTRAL_DIRECTORY_HEADER_SIZE = 46;
+const LOCAL_FILE_HEADER_SIZE = 30;
+
+/** Valor que indica campos ZIP64 (arquivos acima de 4 GB) */
+const ZIP64_MARKER = 0xffffffff;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+const FLAG_ENCRYPTED = 0x1;
+const FLAG_UTF8_NAME = 0x800;
+
+const TAR_BLOCK_SIZE = 512;
+
+/** Cabeçalhos de nome longo (GNU) e PAX são lidos inteiros; maiores que isso são inválidos */
+const MAX_TAR_EXTENDED_HEADER_BYTES = 1024 * 1024;
+
+/**
+ * Erro ao ler um arquivo comprimido ou pacote (formato inválido, membro inexistente...)
+ */
+export class ArchiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ArchiveError';
+  }
+}
+
+/**
+ * Entrada do diretório central de um .zip
+ */
+export interface ZipEntry extends ArchiveMember {
+  compressedSize: number;
+  method: number;
+  encrypted: boolean;
+  isDirectory: boolean;
+  localHeaderOffset: number;
+}
+
+/**
+ * Lê o diretório central (no fim do arquivo) sem descomprimir nada
+ * @throws ArchiveError se o arquivo não for um zip válido ou usar ZIP64
+ */
+export async function readZipDirectory(filePath: string): Promise<ZipEntry[]> {
+  const handle = await fs.promises.open(filePath, 'r');
+
+  try {
+    const { size } = await handle.stat();
+    const tailSize = Math.min(size, MAX_END_SEARCH_BYTES);
+    const tail = await readAt(handle, size - tailSize, tailSize);
+
+    const endAt = findEndOfCentralDirectory(tail);
+    if (endAt === -1) {
+      throw new ArchiveError(`Invalid zip file (end of central directory not found): ${filePath}`);
+    }
+
+    const entryCount = tail.readUInt16LE(endAt + 10);
+    const directorySize = tail.readUInt32LE(endAt + 12);
+    const directoryOffset = tail.readUInt32LE(endAt + 16);
+
+    if (directoryOffset === ZIP64_MARKER || directorySize === ZIP64_MARKER) {
+      throw new ArchiveError(`ZIP64 archives are not supported: ${filePath}`);
+    }
+
+    const directory = await readAt(handle, directoryOffset, directorySize);
+    const entries: ZipEntry[] = [];
+    let position = 0;
+
+    for (let index = 0; index < entryCount; index++) {
+      if (position + CENTRAL_DIRECTORY_HEADER_SIZE > directory.length ||
+          directory.readUInt32LE(position) !== CENTRAL_DIRECTORY_HEADER) {
+        throw new ArchiveError(`Invalid zip file (corrupted central directory): ${filePath}`);
+      }
+
+      const flags = directory.readUInt16LE(position + 8);
+      const nameLength = directory.readUInt16LE(position + 28);
+      const extraLength = directory.readUInt16LE(position + 30);
+      const commentLength = directory.readUInt16LE(position + 32);
+      const nameStart = position + CENTRAL_DIRECTORY_HEADER_SIZE;
+      // Sem o bit UTF-8, o nome está na página de código do DOS (aproximada por latin1)
+      const name = directory.toString(flags & FLAG_UTF8_NAME ? 'utf8' : 'latin1', nameStart, nameStart + nameLength);
+
+      entries.push({
+        name,
+        size: directory.readUInt32LE(position + 24),
+        compressedSize: directory.readUInt32LE(position + 20),
+        modifiedAt: fromDosDateTime(directory.readUInt16LE(position + 14), directory.readUInt16LE(position + 12)),
+        method: directory.readUInt16LE(position + 10),
+        encrypted: (flags & FLAG_ENCRYPTED) !== 0,
+        isDirectory: name.endsWith('/'),
+        localHeaderOffset: directory.readUInt32LE(position + 42)
+      });
+
+      position = nameStart + nameLength + extraLength + commentLength;
+    }
+
+    return entries;
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Stream com o conteúdo descomprimido de uma entrada
+ * @throws ArchiveError para entradas criptografadas, ZIP64 ou com compressão não suportada
+ */
+export async function openZipEntry(filePath: string, entry: ZipEntry): Promise<Readable> {
+  if (entry.encrypted) {
+    throw new ArchiveError(`Encrypted zip entries are not supported: ${entry.name}`);
+  }
+  if (entry.size === ZIP64_MARKER || entry.compressedSize === ZIP64_MARKER) {
+    throw new ArchiveError(`ZIP64 entries are not supported: ${entry.name}`);
+  }
+  if (entry.method !== METHOD_STORED && entry.method !== METHOD_DEFLATE) {
+    throw new ArchiveError(`Unsupported zip compression method ${entry.method}: ${entry.name}`);
+  }
+
+  const handle = await fs.promises.open(filePath, 'r');
+  let header: Buffer;
+  try {
+    header = await readAt(handle, entry.localHeaderOffset, LOCAL_FILE_HEADER_SIZE);
+  } finally {
+    await handle.close();
+  }
+
+  if (header.length < LOCAL_FILE_HEADER_SIZE || header.readUInt32LE(0) !== LOCAL_FILE_HEADER) {
+    throw new ArchiveError(`Invalid zip file (corrupted local header): ${entry.name}`);
+  }
+
+  if (entry.compressedSize === 0) {
+    return Readable.from([]);
+  }
+
+  // Nome e extra do cabeçalho local podem diferir dos do diretório central
+  const dataStart = entry.localHeaderOffset + LOCAL_FILE_HEADER_SIZE +
+    header.readUInt16LE(26) + header.readUInt16LE(28);
+  const raw = fs.createReadStream(filePath, { start: dataStart, end: dataStart + entry.compressedSize - 1 });
+
+  if (entry.method === METHOD_STORED) {
+    return raw;
+  }
+
+  return pipeDecompressor(raw, zlib.createInflateRaw());
+}
+
+/**
+ * Liga o arquivo comprimido ao descompressor: erros de leitura chegam a quem
+ * consome o stream e fechar o stream descomprimido fecha o arquivo
+ */
+export function pipeDecompressor(raw: Readable, decompressor: Transform): Readable {
+  raw.on('error', error => decompressor.destroy(error));
+  decompressor.on('close', () => raw.destroy());
+
+  return raw.pipe(decompressor);
+}
+
+/**
+ * Leitor sequencial de tar sobre um stream (o .tar.gz é lido já descomprimido)
+ *
+ * next() avança para o próximo arquivo, pulando o que não foi lido do anterior;
+ * data() entrega o conteúdo do arquivo atual aos poucos, sem carregá-lo inteiro
+ */
+export class TarReader {
+  private readonly iterator: AsyncIterator<Buffer>;
+  private buffer: Buffer = Buffer.alloc(0);
+  /** Bytes do arquivo atual ainda não lidos */
+  private remaining = 0;
+  /** Preenchimento até o fim do bloco de 512 bytes do arquivo atual */
+  private padding = 0;
+
+  constructor(source: AsyncIterable<Buffer>) {
+    this.iterator = source[Symbol.asyncIterator]();
+  }
+
+  /**
+   * Próximo arquivo regular do pacote (diretórios e links são pulados; undefined no fim)
+   * @throws ArchiveError se o tar estiver truncado ou corrompido
+   */
+  async next(): Promise<ArchiveMember | undefined> {
+    await this.skip(this.remaining + this.padding);
+    this.remaining = 0;
+    this.padding = 0;
+
+    let longName: string | undefined;
+
+    for (;;) {
+      if (!(await this.fill(TAR_BLOCK_SIZE))) {
+        return undefined;
+      }
+
+      const header = this.take(TAR_BLOCK_SIZE);
+      // Dois blocos zerados marcam o fim do pacote
+      if (header.every(byte => byte === 0)) {
+        return undefined;
+      }
+      if (!hasValidTarChecksum(header)) {
+        throw new ArchiveError('Invalid tar file (bad header checksum)');
+      }
+
+      const size = readTarNumber(header.subarray(124, 136));
+      const type = header[156] === 0 ? '0' : String.fromCharCode(header[156]);
+      const padding = (TAR_BLOCK_SIZE - (size % TAR_BLOCK_SIZE)) % TAR_BLOCK_SIZE;
+
+      // Nome longo do próximo cabeçalho: GNU (L) ou PAX (x, campo path)
+      if (type === 'L' || type === 'x') {
+        if (size > MAX_TAR_EXTENDED_HEADER_BYTES || !(await this.fill(size))) {
+          throw new ArchiveError('Invalid tar file (truncated extended header)');
+        }
+        const data = this.take(size).toString('utf8');
+        await this.skip(padding);
+
+        longName = type === 'L'
+          ? data.replace(/\0.*$/s, '')
+          : /(?:^|\n)\d+ path=([^\n]*)\n/.exec(data)?.[1] ?? longName;
+        continue;
+      }
+
+      const prefix = readTarString(header.subarray(345, 500));
+      const name = longName ?? (prefix ? `${prefix}/${readTarString(header.subarray(0, 100))}` : readTarString(header.subarray(0, 100)));
+      longName = undefined;
+
+      // Arquivo regular (0, 7); os demais tipos só ocupam espaço
+      if (type !== '0' && type !== '7') {
+        await this.skip(size + padding);
+        continue;
+      }
+
+      this.remaining = size;
+      this.padding = padding;
+
+      return {
+        name,
+        size,
+        modifiedAt: new Date(readTarNumber(header.subarray(136, 148)) * 1000)
+      };
+    }
+  }
+
+  /**
+   * Conteúdo do arquivo atual
+   * @throws ArchiveError se o tar terminar antes do fim do arquivo
+   */
+  async* data(): AsyncGenerator<Buffer> {
+    while (this.remaining > 0) {
+      if (!(await this.fill(1))) {
+        throw new ArchiveError('Invalid tar file (truncated member data)');
+      }
+
+      const length = Math.min(this.remaining, this.buffer.length);
+      this.remaining -= length;
+      yield this.take(length);
+    }
+  }
+
+  /**
+   * Garante ao menos length bytes no buffer (false se o stream acabar antes)
+   */
+  private async fill(length: number): Promise<boolean> {
+    const chunks = [this.buffer];
+    let available = this.buffer.length;
+
+    while (available < length) {
+      const result = await this.iterator.next();
+      if (result.done) {
+        this.buffer = Buffer.concat(chunks);
+        return false;
+      }
+      chunks.push(result.value);
+      available += result.value.length;
+    }
+
+    this.buffer = chunks.length > 1 ? Buffer.concat(chunks) : this.buffer;
+    return true;
+  }
+
+  private take(length: number): Buffer {
+    const bytes = this.buffer.subarray(0, length);
+    this.buffer = this.buffer.subarray(length);
+    return bytes;
+  }
+
+  private async skip(length: number): Promise<void> {
+    while (length > 0) {
+      if (this.buffer.length === 0 && !(await this.fill(1))) {
+        throw new ArchiveError('Invalid tar file (truncated member data)');
+      }
+
+      const skipped = Math.min(length, this.buffer.length);
+      this.buffer = this.buffer.subarray(skipped);
+      length -= skipped;
+    }
+  }
+}
+
+/**
+ * Soma dos bytes do cabeçalho com o campo do checksum contado como espaços
+ */
+function hasValidTarChecksum(header: Buffer): boolean {
+  let sum = 0;
+  for (let index = 0; index < TAR_BLOCK_SIZE; index++) {
+    sum += index >= 148 && index < 156 ? 0x20 : header[index];
+  }
+  return sum === readTarNumber(header.subarray(148, 156));
+}
+
+/**
+ * Número octal em texto ou, com o bit alto no primeiro byte, binário (base 256, GNU)
+ */
+function readTarNumber(field: Buffer): number {
+  if (field[0] & 0x80) {
+    let value = field[0] & 0x7f;
+    for (let index = 1; index < field.length; index++) {
+      value = value * 256 + field[index];
+    }
+    return value;
+  }
+
+  const text = readTarString(field).trim();
+  return text ? parseInt(text, 8) : 0;
+}
+
+function readTarString(field: Buffer): string {
+  const end = field.indexOf(0);
+  return field.toString('utf8', 0, end === -1 ? field.length : end);
+}
+
+async function readAt(handle: fs.promises.FileHandle, position: number, length: number): Promise<Buffer> {
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await handle.read(buffer, 0, length, position);
+  return buffer.subarray(0, bytesRead);
+}
+
+function findEndOfCentralDirectory(tail: Buffer): number {
+  for (let position = tail.length - END_OF_CENTRAL_DIRECTORY_SIZE; position >= 0; position--) {
+    if (tail.readUInt32LE(position) === END_OF_CENTRAL_DIRECTORY) {
+      return position;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Data e hora no formato do DOS (resolução de 2 s, horário local)
+ */
+function fromDosDateTime(date: number, time: number): Date | undefined {
+  if (date === 0) {
+    return undefined;
+  }
+
+  return new Date(
+    (date >> 9) + 1980, ((date >> 5) & 0x0f) - 1, date & 0x1f,
+    time >> 11, (time >> 5) & 0x3f, (time & 0x1f) * 2
+  );
+}
@@ -0,0 +1,390 @@
+import { ArchiveMember, CompressionFormat, LogCompression } from '../../../shared/types/log.types';
+import { ArchiveError, openZipEntry, pipeDecompressor, readZipDirectory, TarReader } from './ArchiveReader';
+import { Readable } from 'stream';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+
+/**
+ * Log a ser lido, já descomprimido quando o arquivo é .gz/.zip/.tar
+ */
+export interface LogInputInfo {
+  /** Nome usado na detecção do formato e na data base: o arquivo sem .gz ou o membro do pacote */
+  name: string;
+
+  /**
+   * Tamanho descomprimido em bytes (base do progresso); no gzip vem do rodapé
+   * e no deflate não é conhecido (usa o tamanho comprimido)
+   */
+  size: number;
+
+  compression?: LogCompression;
+}
+
+export interface LogInput extends LogInputInfo {
+  stream: Readable;
+}
+
+export interface OpenLogInputOptions {
+  /** Membro de um pacote zip/tar */
+  archiveMember?: string;
+
+  /** Posição (bytes, no conteúdo descomprimido) onde começar */
+  start?: number;
+
+  /** Posição (bytes, no conteúdo descomprimido) onde parar (exclusiva) */
+  end?: number;
+}
+
+/**
+ * Membro de um pacote com os primeiros bytes do conteúdo (para detectar o formato)
+ */
+export interface ArchiveMemberSample {
+  member: ArchiveMember;
+  sample: Buffer;
+}
+
+const GZIP_MAGIC = 0x8b1f;
+const ZIP_LOCAL_FILE_MAGIC = 0x04034b50;
+const ZIP_EMPTY_ARCHIVE_MAGIC = 0x06054b50;
+
+/** Cabeçalho tar POSIX: "ustar" na posição 257 do primeiro bloco */
+const TAR_MAGIC_OFFSET = 257;
+const TAR_HEADER_BYTES = 512;
+
+/** Extensões retiradas do nome para detectar o formato do log comprimido (app.zlg.gz -> app.zlg) */
+const COMPRESSED_EXTENSION = /\.(gz|gzip|z|zz|deflate)$/i;
+
+/** Sem extensão, só aceita cabeçalhos zlib que não são texto comum ("x^" é, "x\x9c" não) */
+const DEFLATE_EXTENSION = /\.(zz|deflate)$/i;
+
+/**
+ * Identifica a compressão pelo conteúdo (não pela extensão)
+ * Um gzip cujo conteúdo começa com um cabeçalho tar é um .tar.gz
+ */
+export async function detectCompression(filePath: string): Promise<CompressionFormat | undefined> {
+  const head = await readFileHead(filePath, TAR_HEADER_BYTES);
+
+  if (head.length >= 2 && head.readUInt16LE(0) === GZIP_MAGIC) {
+    return isTarHeader(await readStreamHead(openCompressed(filePath, 'gzip'), TAR_HEADER_BYTES))
+      ? 'tar-gzip'
+      : 'gzip';
+  }
+
+  if (head.length >= 4 &&
+      (head.readUInt32LE(0) === ZIP_LOCAL_FILE_MAGIC || head.readUInt32LE(0) === ZIP_EMPTY_ARCHIVE_MAGIC)) {
+    return 'zip';
+  }
+
+  if (isTarHeader(head)) {
+    return 'tar';
+  }
+
+  if (isZlibHeader(head) && (DEFLATE_EXTENSION.test(filePath) || head[1] !== 0x5e)) {
+    return 'deflate';
+  }
+
+  return undefined;
+}
+
+/**
+ * Abre o conteúdo do log: o próprio arquivo, o gzip/deflate descomprimido ou
+ * um membro de pacote zip/tar. start/end se referem ao conteúdo descomprimido
+ * (em arquivos comprimidos, o trecho anterior é descomprimido e descartado)
+ * @throws ArchiveError se o pacote for inválido, o membro não existir ou, sem
+ *   archiveMember, o pacote tiver mais de um arquivo
+ */
+export async function openLogInput(filePath: string, options: OpenLogInputOptions = {}): Promise<LogInput> {
+  const { size: fileSize } = await fs.promises.stat(filePath);
+  const format = await detectCompression(filePath);
+  const fileName = path.basename(filePath);
+
+  if (options.archiveMember !== undefined && format !== 'zip' && format !== 'tar' && format !== 'tar-gzip') {
+    throw new ArchiveError(`Not a zip or tar archive: ${fileName} (archiveMember requires one)`);
+  }
+
+  if (!format) {
+    return {
+      name: fileName,
+      size: fileSize,
+      stream: fs.createReadStream(filePath, {
+        start: options.start ?? 0,
+        // end do createReadStream é inclusivo
+        end: options.end !== undefined ? options.end - 1 : undefined
+      })
+    };
+  }
+
+  if (format === 'gzip' || format === 'deflate') {
+    return {
+      name: fileName.replace(COMPRESSED_EXTENSION, ''),
+      size: format === 'gzip' ? await readGzipSize(filePath, fileSize) : fileSize,
+      compression: { format, compressedBytes: fileSize },
+      stream: sliceStream(openCompressed(filePath, format), options.start, options.end)
+    };
+  }
+
+  const { member, stream } = await openArchiveMember(filePath, format, options.archiveMember);
+
+  return {
+    name: member.name,
+    size: member.size,
+    compression: { format, member: member.name, compressedBytes: fileSize },
+    stream: sliceStream(stream, options.start, options.end)
+  };
+}
+
+/**
+ * Arquivos de um pacote zip/tar (diretórios e links ficam de fora)
+ * @throws ArchiveError se o arquivo não for um pacote zip/tar válido
+ */
+export async function listArchiveMembers(filePath: string): Promise<ArchiveMember[]> {
+  return (await readArchiveSamples(filePath, 0)).map(({ member }) => member);
+}
+
+/**
+ * Arquivos de um pacote com os primeiros sampleBytes de cada um, em uma única
+ * leitura do pacote (um .tar.gz não permite pular direto para um membro)
+ * Membros que não podem ser lidos (criptografados, compressão não suportada)
+ * vêm com a amostra vazia
+ * @throws ArchiveError se o arquivo não for um pacote zip/tar válido
+ */
+export async function readArchiveSamples(filePath: string, sampleBytes: number): Promise<ArchiveMemberSample[]> {
+  const format = await detectCompression(filePath);
+  const samples: ArchiveMemberSample[] = [];
+
+  if (format === 'zip') {
+    for (const entry of await readZipDirectory(filePath)) {
+      if (entry.isDirectory) {
+        continue;
+      }
+
+      const member: ArchiveMember = {
+        name: entry.name,
+        size: entry.size,
+        compressedSize: entry.compressedSize,
+        modifiedAt: entry.modifiedAt
+      };
+
+      let sample: Buffer = Buffer.alloc(0);
+      if (sampleBytes > 0) {
+        try {
+          sample = await readStreamHead(await openZipEntry(filePath, entry), sampleBytes);
+        } catch (error) {
+          if (!(error instanceof ArchiveError)) {
+            throw error;
+          }
+        }
+      }
+
+      samples.push({ member, sample });
+    }
+
+    return samples;
+  }
+
+  if (format !== 'tar' && format !== 'tar-gzip') {
+    throw new ArchiveError(`Not a zip or tar archive: ${path.basename(filePath)}`);
+  }
+
+  const source = openTarSource(filePath, format);
+  try {
+    const reader = new TarReader(source);
+
+    for (let member = await reader.next(); member; member = await reader.next()) {
+      samples.push({
+        member,
+        sample: sampleBytes > 0 ? await readStreamHead(reader.data(), sampleBytes) : Buffer.alloc(0)
+      });
+    }
+  } finally {
+    source.destroy();
+  }
+
+  return samples;
+}
+
+/**
+ * Membro escolhido (ou o único arquivo do pacote) com o stream do seu conteúdo
+ */
+async function openArchiveMember(
+  filePath: string,
+  format: 'zip' | 'tar' | 'tar-gzip',
+  memberName: string | undefined
+): Promise<{ member: ArchiveMember; stream: Readable }> {
+  if (format === 'zip') {
+    const entries = (await readZipDirectory(filePath)).filter(entry => !entry.isDirectory);
+    const entry = selectMember(entries, memberName, filePath);
+
+    return {
+      member: { name: entry.name, size: entry.size, compressedSize: entry.compressedSize, modifiedAt: entry.modifiedAt },
+      stream: await openZipEntry(filePath, entry)
+    };
+  }
+
+  // Sem membro escolhido, a listagem mostra se o pacote tem um único arquivo
+  const name = memberName ?? selectMember(await listArchiveMembers(filePath), undefined, filePath).name;
+  const source = openTarSource(filePath, format);
+
+  try {
+    const reader = new TarReader(source);
+
+    for (let member = await reader.next(); member; member = await reader.next()) {
+      if (isSameMember(member.name, name)) {
+        return { member, stream: Readable.from(readThenClose(reader.data(), source), { objectMode: false }) };
+      }
+    }
+  } catch (error) {
+    source.destroy();
+    throw error;
+  }
+
+  source.destroy();
+  throw new ArchiveError(`Member not found in ${path.basename(filePath)}: ${name}`);
+}
+
+function selectMember<T extends ArchiveMember>(members: T[], memberName: string | undefined, filePath: string): T {
+  const fileName = path.basename(filePath);
+
+  if (memberName !== undefined) {
+    const member = members.find(candidate => isSameMember(candidate.name, memberName));
+    if (!member) {
+      throw new ArchiveError(`Member not found in ${fileName}: ${memberName}`);
+    }
+    return member;
+  }
+
+  if (members.length === 1) {
+    return members[0];
+  }
+
+  throw new ArchiveError(members.length === 0
+    ? `Archive has no files: ${fileName}`
+    : `${fileName} contains ${members.length} files; choose one with archiveMember`);
+}
+
+/**
+ * "./logs/app.zlg", "logs/app.zlg" e "logs\app.zlg" são o mesmo membro
+ */
+function isSameMember(name: string, other: string): boolean {
+  const normalize = (value: string) => value.replace(/\\/g, '/').replace(/^(\.\/)+/, '');
+  return normalize(name) === normalize(other);
+}
+
+function openCompressed(filePath: string, format: 'gzip' | 'deflate'): Readable {
+  return pipeDecompressor(
+    fs.createReadStream(filePath),
+    format === 'gzip' ? zlib.createGunzip() : zlib.createInflate()
+  );
+}
+
+function openTarSource(filePath: string, format: 'tar' | 'tar-gzip'): Readable {
+  return format === 'tar-gzip' ? openCompressed(filePath, 'gzip') : fs.createReadStream(filePath);
+}
+
+async function* readThenClose(data: AsyncIterable<Buffer>, source: Readable): AsyncGenerator<Buffer> {
+  try {
+    yield* data;
+  } finally {
+    source.destroy();
+  }
+}
+
+/**
+ * Trecho [start, end) do conteúdo; o que vem antes é lido e descartado
+ */
+function sliceStream(stream: Readable, start: number = 0, end?: number): Readable {
+  if (start === 0 && end === undefined) {
+    return stream;
+  }
+
+  return Readable.from(sliceBytes(stream, start, end ?? Infinity), { objectMode: false });
+}
+
+async function* sliceBytes(stream: Readable, start: number, end: number): AsyncGenerator<Buffer> {
+  let position = 0;
+
+  try {
+    for await (const chunk of stream) {
+      const buffer = chunk as Buffer;
+      const from = Math.max(start - position, 0);
+      const to = Math.min(end - position, buffer.length);
+
+      if (to > from) {
+        yield buffer.subarray(from, to);
+      }
+
+      position += buffer.length;
+      if (position >= end) {
+        return;
+      }
+    }
+  } finally {
+    stream.destroy();
+  }
+}
+
+/**
+ * Tamanho descomprimido do rodapé do gzip (ISIZE, módulo 2^32)
+ * Menor que o arquivo comprimido indica mais de 4 GB; aí fica o tamanho comprimido
+ */
+async function readGzipSize(filePath: string, compressedBytes: number): Promise<number> {
+  if (compressedBytes < 4) {
+    return compressedBytes;
+  }
+
+  const handle = await fs.promises.open(filePath, 'r');
+  try {
+    const footer = Buffer.alloc(4);
+    await handle.read(footer, 0, 4, compressedBytes - 4);
+    const size = footer.readUInt32LE(0);
+    return size >= compressedBytes ? size : compressedBytes;
+  } finally {
+    await handle.close();
+  }
+}
+
+async function readFileHead(filePath: string, length: number): Promise<Buffer> {
+  const handle = await fs.promises.open(filePath, 'r');
+  try {
+    const buffer = Buffer.alloc(length);
+    const { bytesRead } = await handle.read(buffer, 0, length, 0);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Primeiros bytes de um stream (fechado em seguida)
+ * Um conteúdo corrompido devolve o que foi possível ler: o erro aparece na leitura do log
+ */
+async function readStreamHead(stream: AsyncIterable<Buffer>, length: number): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  let total = 0;
+
+  try {
+    for await (const chunk of stream) {
+      chunks.push(chunk);
+      total += chunk.length;
+      if (total >= length) {
+        break;
+      }
+    }
+  } catch {
+    // Amostra parcial
+  }
+
+  return Buffer.concat(chunks).subarray(0, length);
+}
+
+function isTarHeader(head: Buffer): boolean {
+  return head.length >= TAR_MAGIC_OFFSET + 5 && head.toString('latin1', TAR_MAGIC_OFFSET, TAR_MAGIC_OFFSET + 5) === 'ustar';
+}
+
+/**
+ * Cabeçalho zlib (RFC 1950): método 8, janela de 32 KB e checksum do cabeçalho
+ */
+function isZlibHeader(head: Buffer): boolean {
+  return head.length >= 2 && head[0] === 0x78 && ((head[0] << 8) | head[1]) % 31 === 0;
+}
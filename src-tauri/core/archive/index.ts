@@ -0,0 +1,4 @@
+export { ArchiveError, TarReader, readZipDirectory, openZipEntry } from './ArchiveReader';
+export type { ZipEntry } from './ArchiveReader';
+export { openLogInput, detectCompression, listArchiveMembers, readArchiveSamples } from './LogInput';
+export type { LogInput, LogInputInfo, OpenLogInputOptions, ArchiveMemberSample } from './LogInput';
\ No newline at end of file
@@ -0,0 +1,368 @@
+import { QueryExecution, SQLInfo } from '../../../shared/types/log.types';
+import {
+  CrossLogConnection,
+  CrossLogCorrelation,
+  CrossLogEvidence,
+  CrossLogMatch,
+  CrossLogOptions,
+  CrossLogQuerySummary
+} from '../../../shared/types/analysis.types';
+import { getSQLFingerprint, hasBindPlaceholders, normalizeSQL } from '../parsers/utils/SQLFingerprint';
+import { percentile } from '../analyzers/LogAnalyzer';
+
+/** Relógios de servidores diferentes raramente divergem mais que isso depois do NTP */
+const DEFAULT_WINDOW_SECONDS = 2;
+
+const DEFAULT_MIN_CONFIDENCE = 0.4;
+
+/** Peso de cada evidência na confiança do par (somam 1) */
+const CONFIDENCE_WEIGHTS = {
+  fingerprint: 0.4,
+  time: 0.3,
+  decodedQuery: 0.2,
+  connection: 0.1
+};
+
+/** Literais de texto e números (o que sobra de uma query decodificada) */
+const LITERAL = /'((?:[^']|'')*)'|\b\d+(?:\.\d+)?\b/g;
+
+/** :nome e $1 (sem pegar casts ::tipo) */
+const NAMED_BIND = /(?<!:):[a-z_]\w*|\$\d+/gi;
+
+/**
+ * Execução com SQL e data completa, pronta para o pareamento
+ */
+interface Candidate {
+  execution: QueryExecution;
+  fingerprint: string;
+  time: number;
+  duration: number;
+  /** Valores literais da execução, na ordem da query (para comparação exata) */
+  literals?: string;
+  /** Execução do banco já usada em um par */
+  matched: boolean;
+}
+
+/**
+ * Pareia as execuções do log da aplicação (.zlg) com as do log do banco
+ * (PostgreSQL, slow log do MySQL), para separar o custo da query no banco do
+ * custo de rede, driver e espera por conexão medido pela aplicação
+ *
+ * Um par exige o mesmo fingerprint e horários dentro de windowSeconds; os PIDs
+ * dos dois lados não se comparam diretamente (processo da aplicação x conexão do
+ * banco), mas connectionMap e os pares anteriores dos mesmos PIDs desempatam,
+ * assim como os literais (decodedQuery) iguais. Cada execução do banco é usada
+ * em um único par; as da aplicação são percorridas em ordem cronológica e
+ * ficam com o candidato de maior confiança
+ */
+export class CrossLogCorrelator {
+  private readonly windowSeconds: number;
+  private readonly clockOffsetSeconds: number;
+  private readonly minConfidence: number;
+
+  constructor(private readonly options: CrossLogOptions = {}) {
+    this.windowSeconds = Math.max(options.windowSeconds ?? DEFAULT_WINDOW_SECONDS, 0);
+    this.clockOffsetSeconds = options.clockOffsetSeconds ?? 0;
+    this.minConfidence = options.minConfidence ?? DEFAULT_MIN_CONFIDENCE;
+  }
+
+  /**
+   * Execuções sem SQL ou sem data completa (fullDate) ficam de fora
+   */
+  correlate(appExecutions: QueryExecution[], dbExecutions: QueryExecution[]): CrossLogCorrelation {
+    const appCandidates = toCandidates(appExecutions).sort((a, b) => a.time - b.time);
+    const dbByFingerprint = new Map<string, Candidate[]>();
+
+    for (const candidate of toCandidates(dbExecutions)) {
+      const list = dbByFingerprint.get(candidate.fingerprint);
+      if (list) {
+        list.push(candidate);
+      } else {
+        dbByFingerprint.set(candidate.fingerprint, [candidate]);
+      }
+    }
+
+    // A maior duração do banco limita até onde um candidato ainda pode estar na janela
+    const maxDurations = new Map<string, number>();
+    for (const [fingerprint, list] of dbByFingerprint) {
+      list.sort((a, b) => a.time - b.time);
+      maxDurations.set(fingerprint, list.reduce((max, candidate) => Math.max(max, candidate.duration), 0));
+    }
+
+    // Conexão do banco usada por último por cada PID da aplicação
+    const learnedConnections = new Map<string, string>();
+    const matches: CrossLogMatch[] = [];
+
+    for (const app of appCandidates) {
+      const match = this.findMatch(
+        app,
+        dbByFingerprint.get(app.fingerprint) ?? [],
+        maxDurations.get(app.fingerprint) ?? 0,
+        learnedConnections
+      );
+      if (!match) {
+        continue;
+      }
+
+      match.db.matched = true;
+      learnedConnections.set(app.execution.processId, match.db.execution.processId);
+      matches.push(this.createMatch(app, match.db, match.confidence, match.evidence));
+    }
+
+    const dbCount = Array.from(dbByFingerprint.values()).reduce((total, list) => total + list.length, 0);
+
+    return {
+      matches,
+      queries: summarizeQueries(matches),
+      connections: summarizeConnections(matches),
+      unmatchedAppExecutions: appCandidates.length - matches.length,
+      unmatchedDbExecutions: dbCount - matches.length,
+      totalAppTime: sum(matches.map(match => match.appTime ?? 0)),
+      totalDbTime: sum(matches.map(match => match.dbTime ?? 0)),
+      totalOverhead: sum(matches.map(match => match.overhead ?? 0)),
+      medianClockDelta: matches.length > 0 ? percentile(matches.map(match => match.clockDelta), 50) : undefined
+    };
+  }
+
+  /**
+   * Candidato do banco de maior confiança para uma execução da aplicação
+   */
+  private findMatch(
+    app: Candidate,
+    candidates: Candidate[],
+    maxDuration: number,
+    learnedConnections: Map<string, string>
+  ): { db: Candidate; confidence: number; evidence: CrossLogEvidence[] } | undefined {
+    const appTime = app.time + this.clockOffsetSeconds;
+    const expectedConnection = this.options.connectionMap?.[app.execution.processId];
+    const learnedConnection = learnedConnections.get(app.execution.processId);
+
+    const reach = app.duration + maxDuration + this.windowSeconds;
+
+    let best: { db: Candidate; confidence: number; evidence: CrossLogEvidence[]; gap: number } | undefined;
+
+    for (let index = lowerBound(candidates, appTime - reach); index < candidates.length; index++) {
+      const db = candidates[index];
+      if (db.time > appTime + reach) {
+        break;
+      }
+      if (db.matched) {
+        continue;
+      }
+
+      const gap = intervalGap(appTime, app.duration, db.time, db.duration);
+      if (gap > this.windowSeconds) {
+        continue;
+      }
+
+      const evidence: CrossLogEvidence[] = ['fingerprint'];
+      let confidence = CONFIDENCE_WEIGHTS.fingerprint +
+        CONFIDENCE_WEIGHTS.time * (this.windowSeconds > 0 ? 1 - gap / this.windowSeconds : 1);
+
+      if (app.literals !== undefined && db.literals !== undefined) {
+        if (app.literals === db.literals) {
+          confidence += CONFIDENCE_WEIGHTS.decodedQuery;
+          evidence.push('decoded-query');
+        } else {
+          confidence -= CONFIDENCE_WEIGHTS.decodedQuery;
+        }
+      }
+
+      const dbConnection = db.execution.processId;
+      if (expectedConnection !== undefined) {
+        if (expectedConnection === dbConnection) {
+          confidence += CONFIDENCE_WEIGHTS.connection;
+          evidence.push('connection');
+        } else {
+          confidence -= CONFIDENCE_WEIGHTS.connection;
+        }
+      } else if (learnedConnection === dbConnection) {
+        confidence += CONFIDENCE_WEIGHTS.connection;
+        evidence.push('connection');
+      }
+
+      if (confidence < this.minConfidence) {
+        continue;
+      }
+
+      if (!best || confidence > best.confidence || (confidence === best.confidence && gap < best.gap)) {
+        best = { db, confidence, evidence, gap };
+      }
+    }
+
+    return best;
+  }
+
+  private createMatch(
+    app: Candidate,
+    db: Candidate,
+    confidence: number,
+    evidence: CrossLogEvidence[]
+  ): CrossLogMatch {
+    const appTime = app.execution.sqlInfo.executionTime;
+    const dbTime = db.execution.sqlInfo.executionTime;
+
+    return {
+      fingerprint: app.fingerprint,
+      appExecution: app.execution,
+      dbExecution: db.execution,
+      appTime,
+      dbTime,
+      overhead: appTime !== undefined && dbTime !== undefined ? roundSeconds(appTime - dbTime) : undefined,
+      clockDelta: roundSeconds(db.time - app.time),
+      confidence: Math.round(Math.min(Math.max(confidence, 0), 1) * 100) / 100,
+      evidence
+    };
+  }
+}
+
+/**
+ * Pareia as execuções de dois logs (aplicação e banco)
+ */
+export function correlateLogs(
+  appExecutions: QueryExecution[],
+  dbExecutions: QueryExecution[],
+  options: CrossLogOptions = {}
+): CrossLogCorrelation {
+  return new CrossLogCorrelator(options).correlate(appExecutions, dbExecutions);
+}
+
+function toCandidates(executions: QueryExecution[]): Candidate[] {
+  const candidates: Candidate[] = [];
+
+  for (const execution of executions) {
+    const fullDate = execution.context.fullDate;
+    const fingerprint = execution.sqlInfo.fingerprint ?? getSQLFingerprint(execution.sqlInfo);
+    if (!fullDate || !fingerprint) {
+      continue;
+    }
+
+    candidates.push({
+      execution,
+      fingerprint,
+      time: new Date(fullDate).getTime() / 1000,
+      duration: execution.sqlInfo.executionTime ?? 0,
+      literals: getLiteralValues(execution.sqlInfo),
+      matched: false
+    });
+  }
+
+  return candidates;
+}
+
+/**
+ * Valores literais da query já com os binds: da decodedQuery ou, na falta dela,
+ * dos binds aplicados à query (:nome, $1). As aspas não contam ('42' = 42), já que
+ * aplicação e banco podem decodificar o mesmo valor de formas diferentes
+ * Retorna undefined se a query não tiver literais ou ainda tiver binds sem valor
+ */
+function getLiteralValues(sqlInfo: SQLInfo): string | undefined {
+  const { query, decodedQuery, binds } = sqlInfo;
+  let text = decodedQuery;
+
+  if (!text && query && binds) {
+    text = query.replace(NAMED_BIND, placeholder => {
+      const value = binds[placeholder] ?? binds[placeholder.replace(/^:/, '')];
+      return value === undefined || value === null ? placeholder : `'${String(value).replace(/'/g, "''")}'`;
+    });
+  }
+
+  text = text ?? query;
+  if (!text || hasBindPlaceholders(text)) {
+    return undefined;
+  }
+
+  const values = Array.from(text.matchAll(LITERAL), ([literal, quoted]) =>
+    quoted !== undefined ? quoted.replace(/''/g, "'") : literal
+  );
+
+  return values.length > 0 ? values.join('\u0000') : undefined;
+}
+
+/** Arredonda diferenças de horário ao microssegundo (ruído de ponto flutuante) */
+function roundSeconds(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
+
+/**
+ * Distância (s) entre duas execuções
+ * O horário registrado pode ser o início (aplicação, MySQL) ou o fim (PostgreSQL)
+ * da execução, então cada lado vale como o intervalo horário ± duração
+ */
+function intervalGap(timeA: number, durationA: number, timeB: number, durationB: number): number {
+  return Math.max(0, Math.abs(timeA - timeB) - durationA - durationB);
+}
+
+/**
+ * Primeiro índice com time >= value (lista ordenada por time)
+ */
+function lowerBound(candidates: Candidate[], value: number): number {
+  let low = 0;
+  let high = candidates.length;
+
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (candidates[middle].time < value) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+
+  return low;
+}
+
+function summarizeQueries(matches: CrossLogMatch[]): CrossLogQuerySummary[] {
+  const groups = new Map<string, CrossLogMatch[]>();
+
+  for (const match of matches) {
+    const group = groups.get(match.fingerprint);
+    if (group) {
+      group.push(match);
+    } else {
+      groups.set(match.fingerprint, [match]);
+    }
+  }
+
+  return Array.from(groups, ([fingerprint, group]) => {
+    const totalAppTime = sum(group.map(match => match.appTime ?? 0));
+    const totalDbTime = sum(group.map(match => match.dbTime ?? 0));
+    const totalOverhead = sum(group.map(match => match.overhead ?? 0));
+
+    return {
+      fingerprint,
+      normalizedQuery: normalizeSQL(group[0].appExecution.sqlInfo.query || group[0].dbExecution.sqlInfo.query),
+      count: group.length,
+      totalAppTime,
+      totalDbTime,
+      totalOverhead,
+      avgAppTime: totalAppTime / group.length,
+      avgDbTime: totalDbTime / group.length,
+      avgOverhead: totalOverhead / group.length,
+      overheadRatio: totalAppTime > 0 ? Math.min(Math.max(totalOverhead / totalAppTime, 0), 1) : 0
+    };
+  }).sort((a, b) => b.totalOverhead - a.totalOverhead);
+}
+
+function summarizeConnections(matches: CrossLogMatch[]): CrossLogConnection[] {
+  const connections = new Map<string, CrossLogConnection>();
+
+  for (const match of matches) {
+    const appProcessId = match.appExecution.processId;
+    const dbProcessId = match.dbExecution.processId;
+    const key = `${appProcessId}\u0000${dbProcessId}`;
+
+    const connection = connections.get(key);
+    if (connection) {
+      connection.matches++;
+    } else {
+      connections.set(key, { appProcessId, dbProcessId, matches: 1 });
+    }
+  }
+
+  return Array.from(connections.values()).sort((a, b) => b.matches - a.matches);
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
@@ -0,0 +1 @@
+export { CrossLogCorrelator, correlateLogs } from './CrossLogCorrelator';
\ No newline at end of file
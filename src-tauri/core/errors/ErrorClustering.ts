@@ -0,0 +1,257 @@
+import { LogEntry, SQLInfo } from '../../../shared/types/log.types';
+import { ErrorCategory, ErrorPattern, ErrorRelatedQuery } from '../../../shared/types/analysis.types';
+import { getSQLFingerprint } from '../parsers/utils/SQLFingerprint';
+import { cleanSQL } from '../parsers/utils/ParserUtils';
+import { getEntryTime } from '../parsers/utils/TimestampInference';
+import { DEFAULT_IDLE_GAP_SECONDS } from '../sessions/SessionReconstructor';
+
+export interface ErrorClusterOptions {
+  /** Exemplos guardados por padrão (0 = nenhum) */
+  maxExamples?: number;
+
+  /**
+   * Intervalo sem linhas (s) após o qual o PID é outra sessão e a última query
+   * dele deixa de ser ligada aos erros (padrão: o mesmo de SessionReconstructor)
+   */
+  idleGapSeconds?: number;
+}
+
+/**
+ * Tokens variáveis substituídos no template, na ordem de aplicação
+ * (valores entre aspas primeiro, para não mascarar o conteúdo deles aos pedaços)
+ */
+const MASKS: Array<{ pattern: RegExp; replacement: string }> = [
+  { pattern: /'[^']*'/g, replacement: "'?'" },
+  { pattern: /"[^"]*"/g, replacement: '"?"' },
+  { pattern: /\b[a-z][\w+.-]*:\/\/\S+/gi, replacement: '<url>' },
+  { pattern: /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g, replacement: '<email>' },
+  { pattern: /(?:\b[A-Za-z]:)?[\\/](?:[\w.-]+[\\/])+[\w.-]*/g, replacement: '<path>' },
+  { pattern: /\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi, replacement: '<uuid>' },
+  { pattern: /\b\d{1,3}(?:\.\d{1,3}){3}(?::\d+)?\b/g, replacement: '<ip>' },
+  { pattern: /\b0x[0-9a-f]+\b|\b(?=[0-9a-f]*\d)(?=[0-9a-f]*[a-f])[0-9a-f]{8,}\b/gi, replacement: '<hex>' }
+];
+
+/**
+ * Números, exceto códigos de erro (ORA-00001, TNS-12541, SQLSTATE[23000]),
+ * que identificam o erro e ficam no template
+ */
+const NUMBER = /(SQLSTATE\[|\b[A-Z]{2,}-)?\d+(?:[.,]\d+)*/g;
+
+/**
+ * Complemento STATEMENT do PostgreSQL na mensagem do erro (até o próximo complemento)
+ */
+const STATEMENT_DETAIL = /(?:^|\n)STATEMENT: {2}([\s\S]*?)(?=\n(?:DETAIL|HINT|CONTEXT|QUERY|LOCATION): {2}|$)/;
+
+/**
+ * Categorias na ordem de verificação (a primeira que casar vence)
+ */
+const CATEGORY_PATTERNS: Array<{ category: ErrorCategory; pattern: RegExp }> = [
+  {
+    category: 'db-constraint',
+    pattern: /ORA-00001\b|ORA-0229[0-2]|ORA-01400|unique constraint|integrity constraint|foreign key|duplicate (?:key|entry)|violates .*constraint|SQLSTATE\[23|viola[çc][ãa]o de (?:chave|restri[çc][ãa]o)|chave duplicada/i
+  },
+  {
+    category: 'db-lock',
+    pattern: /ORA-00060|ORA-00054|deadlock|lock wait|resource busy|registro (?:bloqueado|em uso)/i
+  },
+  {
+    category: 'timeout',
+    pattern: /time-?out|timed out|ORA-01013|maximum execution time|tempo (?:limite )?esgotado|excedeu o tempo/i
+  },
+  {
+    category: 'connection-lost',
+    pattern: /ORA-0311[34]|ORA-03135|ORA-1217\d|ORA-1254[13]|TNS-|gone away|broken pipe|not connected|lost connection|connection (?:refused|reset|lost|closed)|could not connect|conex[ãa]o (?:perdida|recusada|encerrada)|n[ãa]o foi poss[ií]vel conectar/i
+  },
+  {
+    category: 'db-syntax',
+    pattern: /ORA-009(?:0[047]|33|36|42)|syntax error|invalid identifier|table or view does not exist|unknown column|erro de sintaxe/i
+  },
+  {
+    category: 'php-fatal',
+    pattern: /PHP Fatal|Fatal error|Uncaught|Allowed memory size|Call to (?:undefined|a member function)/i
+  }
+];
+
+/** Query ligada a um erro e a linha onde ela aparece */
+interface RelatedSQL {
+  sqlInfo: SQLInfo;
+  lineNumber: number;
+}
+
+/** Padrão ainda em construção */
+interface OpenCluster {
+  pattern: ErrorPattern;
+  processIds: Set<string>;
+  relatedQueries: Map<string, ErrorRelatedQuery>;
+}
+
+/**
+ * Template da mensagem de erro: valores variáveis mascarados e espaços normalizados
+ */
+export function maskErrorMessage(message: string): string {
+  let template = message;
+
+  for (const { pattern, replacement } of MASKS) {
+    template = template.replace(pattern, replacement);
+  }
+
+  return template
+    .replace(NUMBER, (match, code?: string) => code ? match : 'N')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Classifica o erro (violação de constraint, lock, timeout, conexão perdida, ...)
+ */
+export function classifyError(message: string): ErrorCategory {
+  return CATEGORY_PATTERNS.find(({ pattern }) => pattern.test(message))?.category ?? 'other';
+}
+
+/**
+ * Agrupa entradas ERROR/CRITICAL pelo template da mensagem
+ *
+ * Cada erro é ligado à query registrada nele (SQL do próprio erro ou o STATEMENT
+ * do PostgreSQL) ou, na falta dela, à última query do mesmo PID (erros de banco
+ * costumam vir logo após ela). A última query vale só dentro da sessão: depois
+ * de idleGapSeconds sem linhas o PID é outro processo e ela é descartada
+ */
+export class ErrorClusterer {
+  private clusters = new Map<string, OpenCluster>();
+  private lastSQL = new Map<string, RelatedSQL>();
+  private lastSeen = new Map<string, number>();
+
+  constructor(private readonly options: ErrorClusterOptions = {}) {}
+
+  /**
+   * Adiciona uma entrada (na ordem do arquivo)
+   */
+  add(entry: LogEntry): void {
+    const processId = entry.context.processId;
+
+    if (processId) {
+      this.trackSession(processId, entry);
+    }
+
+    if (entry.severity !== 'ERROR' && entry.severity !== 'CRITICAL') {
+      if (processId && entry.sqlInfo?.query) {
+        this.lastSQL.set(processId, { sqlInfo: entry.sqlInfo, lineNumber: entry.lineNumber });
+      }
+      return;
+    }
+
+    const template = maskErrorMessage(entry.message);
+    let cluster = this.clusters.get(template);
+
+    if (!cluster) {
+      cluster = {
+        pattern: {
+          pattern: template,
+          errorType: classifyError(entry.message),
+          count: 0,
+          examples: [],
+          firstOccurrence: entry.context.timestamp,
+          lastOccurrence: entry.context.timestamp,
+          processIds: [],
+          relatedQueries: []
+        },
+        processIds: new Set(),
+        relatedQueries: new Map()
+      };
+      this.clusters.set(template, cluster);
+    }
+
+    const pattern = cluster.pattern;
+    pattern.count++;
+    pattern.lastOccurrence = entry.context.timestamp;
+
+    if (pattern.examples.length < (this.options.maxExamples ?? 0)) {
+      pattern.examples.push(entry);
+    }
+
+    if (processId) {
+      cluster.processIds.add(processId);
+    }
+
+    const related = this.relatedSQLOf(entry);
+    if (related) {
+      this.linkRelatedQuery(cluster, related);
+    }
+  }
+
+  /**
+   * Padrões encontrados, na ordem em que apareceram no arquivo
+   */
+  finish(): ErrorPattern[] {
+    return Array.from(this.clusters.values()).map(cluster => ({
+      ...cluster.pattern,
+      processIds: Array.from(cluster.processIds),
+      relatedQueries: Array.from(cluster.relatedQueries.values())
+        .sort((a, b) => b.count - a.count)
+    }));
+  }
+
+  /**
+   * Descarta o estado acumulado
+   */
+  reset(): void {
+    this.clusters.clear();
+    this.lastSQL.clear();
+    this.lastSeen.clear();
+  }
+
+  /**
+   * Descarta a última query do PID quando ele volta após um período ocioso
+   */
+  private trackSession(processId: string, entry: LogEntry): void {
+    const time = getEntryTime(entry);
+    if (time === undefined) {
+      return;
+    }
+
+    const lastSeen = this.lastSeen.get(processId);
+    if (lastSeen !== undefined && time - lastSeen > (this.options.idleGapSeconds ?? DEFAULT_IDLE_GAP_SECONDS)) {
+      this.lastSQL.delete(processId);
+    }
+    this.lastSeen.set(processId, time);
+  }
+
+  private relatedSQLOf(entry: LogEntry): RelatedSQL | undefined {
+    if (entry.sqlInfo?.query) {
+      return { sqlInfo: entry.sqlInfo, lineNumber: entry.lineNumber };
+    }
+
+    const statement = STATEMENT_DETAIL.exec(entry.message);
+    if (statement) {
+      return { sqlInfo: { query: cleanSQL(statement[1]) }, lineNumber: entry.lineNumber };
+    }
+
+    return entry.context.processId ? this.lastSQL.get(entry.context.processId) : undefined;
+  }
+
+  private linkRelatedQuery(cluster: OpenCluster, { sqlInfo, lineNumber }: RelatedSQL): void {
+    const fingerprint = sqlInfo.fingerprint ?? getSQLFingerprint(sqlInfo);
+    const key = fingerprint ?? sqlInfo.query;
+    const related = cluster.relatedQueries.get(key);
+
+    if (related) {
+      related.count++;
+      related.lineNumber = lineNumber;
+    } else {
+      cluster.relatedQueries.set(key, { query: sqlInfo.query, fingerprint, count: 1, lineNumber });
+    }
+  }
+}
+
+/**
+ * Agrupa os erros de um log pelo template da mensagem
+ */
+export function clusterErrors(entries: LogEntry[], options: ErrorClusterOptions = {}): ErrorPattern[] {
+  const clusterer = new ErrorClusterer(options);
+
+  for (const entry of entries) {
+    clusterer.add(entry);
+  }
+
+  return clusterer.finish();
+}
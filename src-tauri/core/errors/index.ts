@@ -0,0 +1,2 @@
+export { ErrorClusterer, clusterErrors, classifyError, maskErrorMessage } from './ErrorClustering';
+export type { ErrorClusterOptions } from './ErrorClustering';
\ No newline at end of file
@@ -0,0 +1,62 @@
+import { LogEntry } from '../../../shared/types/log.types';
+import * as fs from 'fs';
+import { finished } from 'stream/promises';
+
+/**
+ * Classe abstrata base para exportadores
+ * Escreve as entradas uma a uma em um WriteStream, respeitando backpressure,
+ * sem montar o arquivo inteiro em memória
+ */
+export abstract class BaseLogExporter {
+  abstract getFormat(): string;
+
+  /** Conteúdo escrito antes da primeira entrada */
+  protected abstract header(): string;
+
+  /** Representação de uma entrada (index = posição entre as exportadas) */
+  protected abstract serialize(entry: LogEntry, index: number): string;
+
+  /** Conteúdo escrito após a última entrada */
+  protected abstract footer(): string;
+
+  /**
+   * Exporta as entradas para o arquivo de destino
+   * @returns Quantidade de entradas exportadas
+   */
+  async export(
+    entries: Iterable<LogEntry> | AsyncIterable<LogEntry>,
+    destinationPath: string
+  ): Promise<number> {
+    const stream = fs.createWriteStream(destinationPath, { encoding: 'utf8' });
+    const failure = new Promise<never>((_, reject) => stream.once('error', reject));
+    // Evita unhandled rejection quando nenhum erro acontece
+    failure.catch(() => undefined);
+
+    let exported = 0;
+
+    const write = async (chunk: string) => {
+      if (chunk && !stream.write(chunk)) {
+        await Promise.race([
+          new Promise<void>(resolve => stream.once('drain', () => resolve())),
+          failure
+        ]);
+      }
+    };
+
+    try {
+      await write(this.header());
+
+      for await (const entry of entries) {
+        await write(this.serialize(entry, exported));
+        exported++;
+      }
+
+      await write(this.footer());
+    } finally {
+      stream.end();
+      await finished(stream);
+    }
+
+    return exported;
+  }
+}
@@ -0,0 +1,68 @@
+import { LogEntry } from '../../../shared/types/log.types';
+import { ExportLogCommand } from '../../../shared/types/ipc.types';
+import { compileFilter, EntryPredicate } from '../filters/FilterCompiler';
+
+export type ExportFilters = NonNullable<ExportLogCommand['filters']>;
+
+/**
+ * Compila os filtros de exportação em um predicado (expression é compilada uma vez)
+ * @throws FilterSyntaxError se filters.expression for inválida
+ */
+export function createExportPredicate(filters?: ExportFilters): EntryPredicate {
+  if (!filters) {
+    return () => true;
+  }
+
+  const expression = filters.expression && filters.expression.trim()
+    ? compileFilter(filters.expression)
+    : null;
+
+  return entry => matchesExportFilters(entry, filters) && (!expression || expression(entry));
+}
+
+/**
+ * Verifica se uma entrada passa nos filtros estruturados de exportação
+ * (expression é tratada por createExportPredicate)
+ * timeRange aceita HH:MM:SS (comparado com context.timestamp)
+ * ou data ISO (comparada com context.fullDate)
+ */
+export function matchesExportFilters(entry: LogEntry, filters?: ExportFilters): boolean {
+  if (!filters) {
+    return true;
+  }
+
+  if (filters.processIds && filters.processIds.length > 0 &&
+      !filters.processIds.includes(entry.context.processId)) {
+    return false;
+  }
+
+  if (filters.severity && filters.severity.length > 0 &&
+      !filters.severity.includes(entry.severity)) {
+    return false;
+  }
+
+  if (filters.timeRange) {
+    return isWithinTimeRange(entry, filters.timeRange.start, filters.timeRange.end);
+  }
+
+  return true;
+}
+
+function isWithinTimeRange(entry: LogEntry, start: string, end: string): boolean {
+  if (isTimeOfDay(start) && isTimeOfDay(end)) {
+    const timestamp = entry.context.timestamp;
+    return timestamp >= start && timestamp <= end;
+  }
+
+  const fullDate = entry.context.fullDate;
+  if (!fullDate) {
+    return false;
+  }
+
+  const time = new Date(fullDate).getTime();
+  return time >= Date.parse(start) && time <= Date.parse(end);
+}
+
+function isTimeOfDay(value: string): boolean {
+  return /^\d{2}:\d{2}:\d{2}$/.test(value);
+}
@@ -0,0 +1,73 @@
+import { LogEntry, QueryExecution } from '../../../shared/types/log.types';
+import { ExportLogCommand } from '../../../shared/types/ipc.types';
+import { compileFilter, EntryPredicate, selectEntries } from '../filters/FilterCompiler';
+import { BaseLogExporter } from './BaseLogExporter';
+import { createExportPredicate, ExportFilters } from './ExportFilters';
+import { CsvExporter } from './implementations/CsvExporter';
+import { JsonExporter } from './implementations/JsonExporter';
+import { LineFormatter, TxtExporter } from './implementations/TxtExporter';
+
+export type ExportFormat = ExportLogCommand['format'];
+
+/**
+ * Dados do log de origem usados na exportação
+ */
+export interface ExportSource {
+  /** Execuções do log, para a expressão avaliar sql.* e table por execução */
+  executions?: QueryExecution[];
+
+  /** Remonta as linhas de entradas sem rawLine (TXT); padrão: horário + mensagem */
+  formatLine?: LineFormatter;
+}
+
+/**
+ * Cria o exportador para um formato
+ * @throws Error se o formato não for suportado
+ */
+export function createExporter(format: ExportFormat, source: ExportSource = {}): BaseLogExporter {
+  switch (format) {
+    case 'json':
+      return new JsonExporter();
+    case 'csv':
+      return new CsvExporter();
+    case 'txt':
+      return new TxtExporter(source.formatLine);
+    default:
+      throw new Error(`Unsupported export format: ${format}`);
+  }
+}
+
+/**
+ * Filtra e exporta as entradas no formato pedido
+ */
+export async function exportEntries(
+  entries: Iterable<LogEntry> | AsyncIterable<LogEntry>,
+  destinationPath: string,
+  format: ExportFormat,
+  filters?: ExportFilters,
+  source: ExportSource = {}
+): Promise<{ exportedLines: number; filePath: string }> {
+  const exporter = createExporter(format, source);
+
+  // Com as entradas em memória, a expressão avalia sql.* e table por execução correlacionada
+  const expression = filters?.expression?.trim();
+  const selected = Array.isArray(entries) && expression
+    ? selectEntries(entries, compileFilter(expression), source.executions)
+    : entries;
+  const predicate = createExportPredicate(selected === entries ? filters : { ...filters, expression: undefined });
+
+  const exportedLines = await exporter.export(filterEntries(selected, predicate), destinationPath);
+
+  return { exportedLines, filePath: destinationPath };
+}
+
+async function* filterEntries(
+  entries: Iterable<LogEntry> | AsyncIterable<LogEntry>,
+  predicate: EntryPredicate
+): AsyncIterableIterator<LogEntry> {
+  for await (const entry of entries) {
+    if (predicate(entry)) {
+      yield entry;
+    }
+  }
+}
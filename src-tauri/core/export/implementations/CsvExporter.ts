@@ -0,0 +1,72 @@
+import { BaseLogExporter } from '../BaseLogExporter';
+import { LogEntry } from '../../../../shared/types/log.types';
+
+/**
+ * Colunas fixas do CSV: context e sqlInfo achatados
+ * A ordem é parte do formato - novas colunas devem ir no final
+ */
+const CSV_COLUMNS: Array<[string, (entry: LogEntry) => unknown]> = [
+  ['lineNumber', entry => entry.lineNumber],
+  ['endLineNumber', entry => entry.endLineNumber],
+  ['timestamp', entry => entry.context.timestamp],
+  ['fullDate', entry => entry.context.fullDate?.toISOString()],
+  ['serverInfo', entry => entry.context.serverInfo],
+  ['processId', entry => entry.context.processId],
+  ['memoryUsage', entry => entry.context.memoryUsage],
+  ['memoryMB', entry => entry.context.memoryMB],
+  ['connectionIndex', entry => entry.context.connectionIndex],
+  ['messageType', entry => entry.messageType],
+  ['severity', entry => entry.severity],
+  ['message', entry => entry.message],
+  ['tags', entry => entry.tags.join('|')],
+  ['sql_query', entry => entry.sqlInfo?.query],
+  ['sql_decodedQuery', entry => entry.sqlInfo?.decodedQuery],
+  ['sql_binds', entry => entry.sqlInfo?.binds ? JSON.stringify(entry.sqlInfo.binds) : undefined],
+  ['sql_executionTime', entry => entry.sqlInfo?.executionTime],
+  ['sql_recordsReturned', entry => entry.sqlInfo?.recordsReturned],
+  ['sql_queryType', entry => entry.sqlInfo?.queryType],
+  ['sql_tables', entry => entry.sqlInfo?.tables?.join('|')],
+  ['sql_isMultiLine', entry => entry.sqlInfo?.isMultiLine],
+  ['parsingIssues', entry => entry.parsingIssues?.join('|')]
+];
+
+/** BOM para o Excel reconhecer UTF-8 (acentos em português) */
+const UTF8_BOM = '\uFEFF';
+
+/**
+ * Escapa um valor conforme RFC 4180
+ */
+export function escapeCsvValue(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+
+  const text = value instanceof Date ? value.toISOString() : String(value);
+
+  if (/[",\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+
+  return text;
+}
+
+/**
+ * Exporta as entradas em CSV com colunas estáveis
+ */
+export class CsvExporter extends BaseLogExporter {
+  getFormat(): string {
+    return 'csv';
+  }
+
+  protected header(): string {
+    return UTF8_BOM + CSV_COLUMNS.map(([name]) => name).join(',') + '\r\n';
+  }
+
+  protected serialize(entry: LogEntry): string {
+    return CSV_COLUMNS.map(([, getValue]) => escapeCsvValue(getValue(entry))).join(',') + '\r\n';
+  }
+
+  protected footer(): string {
+    return '';
+  }
+}
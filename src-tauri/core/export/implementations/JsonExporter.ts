@@ -0,0 +1,23 @@
+import { BaseLogExporter } from '../BaseLogExporter';
+import { LogEntry } from '../../../../shared/types/log.types';
+
+/**
+ * Exporta as entradas como um array JSON (uma entrada por linha)
+ */
+export class JsonExporter extends BaseLogExporter {
+  getFormat(): string {
+    return 'json';
+  }
+
+  protected header(): string {
+    return '[\n';
+  }
+
+  protected serialize(entry: LogEntry, index: number): string {
+    return (index > 0 ? ',\n' : '') + JSON.stringify(entry);
+  }
+
+  protected footer(): string {
+    return '\n]\n';
+  }
+}
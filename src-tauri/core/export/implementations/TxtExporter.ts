@@ -0,0 +1,46 @@
+import { BaseLogExporter } from '../BaseLogExporter';
+import { LogEntry } from '../../../../shared/types/log.types';
+
+/**
+ * Remonta a linha original de uma entrada no layout do arquivo de origem
+ */
+export type LineFormatter = (entry: LogEntry) => string;
+
+/**
+ * Exporta as linhas originais do log (rawLine), como no arquivo de origem
+ */
+export class TxtExporter extends BaseLogExporter {
+  /**
+   * @param formatLine Remonta entradas sem rawLine (normalmente o formatLine do
+   * parser que leu o log); sem ele, a linha é o horário seguido da mensagem
+   */
+  constructor(private readonly formatLine?: LineFormatter) {
+    super();
+  }
+
+  getFormat(): string {
+    return 'txt';
+  }
+
+  protected header(): string {
+    return '';
+  }
+
+  protected serialize(entry: LogEntry): string {
+    return (entry.rawLine || this.reconstructLine(entry)) + '\n';
+  }
+
+  protected footer(): string {
+    return '';
+  }
+
+  /**
+   * Remonta a linha quando rawLine foi descartado para economizar memória
+   */
+  private reconstructLine(entry: LogEntry): string {
+    if (this.formatLine) {
+      return this.formatLine(entry);
+    }
+    return [entry.context.timestamp, entry.message].filter(Boolean).join(' ');
+  }
+}
@@ -0,0 +1,4 @@
+export { JsonExporter } from './JsonExporter';
+export { CsvExporter, escapeCsvValue } from './CsvExporter';
+export { TxtExporter } from './TxtExporter';
+export type { LineFormatter } from './TxtExporter';
\ No newline at end of file
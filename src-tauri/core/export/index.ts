@@ -0,0 +1,6 @@
+export { BaseLogExporter } from './BaseLogExporter';
+export { createExporter, exportEntries } from './ExporterFactory';
+export type { ExportFormat, ExportSource } from './ExporterFactory';
+export { createExportPredicate, matchesExportFilters } from './ExportFilters';
+export type { ExportFilters } from './ExportFilters';
+export * from './implementations';
\ No newline at end of file
@@ -0,0 +1,366 @@
+import { LogEntry, LogSeverity, QueryExecution, SQLInfo } from '../../../shared/types/log.types';
+import { ParserFilter, ParserOptions } from '../../../shared/types/parser.types';
+import { correlateQueryExecutions } from '../parsers/correlation/QueryCorrelator';
+import { FilterNode, FilterOperator, FilterSyntaxError, FilterValue, parseFilter } from './FilterParser';
+
+/**
+ * Predicado sobre uma entrada; com a execução correlacionada, os campos sql.* e
+ * table vêm dela (em uma query do .zlg, tabelas e tempo estão em linhas diferentes)
+ */
+export type EntryPredicate = (entry: LogEntry, execution?: QueryExecution) => boolean;
+
+type FieldKind = 'string' | 'number' | 'list' | 'severity' | 'time' | 'date';
+
+interface FieldDefinition {
+  kind: FieldKind;
+  get: (entry: LogEntry, execution?: QueryExecution) => unknown;
+}
+
+/**
+ * Cláusula sendo compilada: nome do campo e posição no texto (para os erros)
+ */
+interface Clause {
+  field: string;
+  position: number;
+}
+
+const SEVERITY_ORDER: LogSeverity[] = ['DEBUG', 'INFO', 'WARNING', 'ERROR', 'CRITICAL'];
+
+/**
+ * SQL consolidado da execução ou, fora de uma execução, o da própria entrada
+ */
+function sqlOf(entry: LogEntry, execution?: QueryExecution): SQLInfo | undefined {
+  return execution?.sqlInfo ?? entry.sqlInfo;
+}
+
+/**
+ * Campos disponíveis na linguagem de filtros (e seus apelidos)
+ */
+const FIELDS: Record<string, FieldDefinition> = {
+  severity: { kind: 'severity', get: entry => entry.severity },
+  type: { kind: 'string', get: entry => entry.messageType },
+  message: { kind: 'string', get: entry => entry.message },
+  pid: { kind: 'string', get: entry => entry.context.processId },
+  server: { kind: 'string', get: entry => entry.context.serverInfo },
+  connectionIndex: { kind: 'string', get: entry => entry.context.connectionIndex },
+  memory: { kind: 'number', get: entry => entry.context.memoryMB },
+  time: { kind: 'time', get: entry => entry.context.timestamp },
+  date: { kind: 'date', get: entry => entry.context.fullDate },
+  line: { kind: 'number', get: entry => entry.lineNumber },
+  tag: { kind: 'list', get: entry => entry.tags },
+  table: { kind: 'list', get: (entry, execution) => sqlOf(entry, execution)?.tables },
+  'sql.query': { kind: 'string', get: (entry, execution) => sqlOf(entry, execution)?.query },
+  'sql.decodedQuery': { kind: 'string', get: (entry, execution) => sqlOf(entry, execution)?.decodedQuery },
+  'sql.fingerprint': { kind: 'string', get: (entry, execution) => sqlOf(entry, execution)?.fingerprint },
+  'sql.queryType': { kind: 'string', get: (entry, execution) => sqlOf(entry, execution)?.queryType },
+  'sql.executionTime': { kind: 'number', get: (entry, execution) => sqlOf(entry, execution)?.executionTime },
+  'sql.recordsReturned': { kind: 'number', get: (entry, execution) => sqlOf(entry, execution)?.recordsReturned }
+};
+
+const FIELD_ALIASES: Record<string, string> = {
+  messageType: 'type',
+  processId: 'pid',
+  conn: 'connectionIndex',
+  memoryMB: 'memory',
+  timestamp: 'time',
+  lineNumber: 'line',
+  tags: 'tag',
+  tables: 'table',
+  'sql.rows': 'sql.recordsReturned',
+  'sql.time': 'sql.executionTime'
+};
+
+/**
+ * Compila uma expressão (ou AST) em um predicado sobre LogEntry
+ * Valores são validados na compilação, a avaliação não lança
+ * @throws FilterSyntaxError se a expressão ou um valor for inválido
+ */
+export function compileFilter(expression: string | FilterNode): EntryPredicate {
+  const node = typeof expression === 'string' ? parseFilter(expression) : expression;
+  return compileNode(node);
+}
+
+/**
+ * Entradas aceitas pelo filtro, cada uma avaliada com a execução correlacionada
+ * (por lineNumbers); campos de execução (sql.*, table) vêm dela, mas só voltam
+ * as entradas cujo próprio resultado é verdadeiro
+ * @param executions Execuções do log (padrão: correlacionadas a partir das entradas)
+ */
+export function selectEntries(
+  entries: LogEntry[],
+  predicate: EntryPredicate,
+  executions: QueryExecution[] = correlateQueryExecutions(entries)
+): LogEntry[] {
+  const executionByLine = new Map<number, QueryExecution>();
+  for (const execution of executions) {
+    for (const lineNumber of execution.lineNumbers) {
+      executionByLine.set(lineNumber, execution);
+    }
+  }
+
+  return entries.filter(entry => predicate(entry, executionByLine.get(entry.lineNumber)));
+}
+
+/**
+ * Converte os filtros legados (ParserFilter) para a mesma AST
+ */
+export function parserFiltersToNode(filters: ParserFilter[]): FilterNode | null {
+  let result: FilterNode | null = null;
+
+  for (const filter of filters) {
+    const field = filter.field === 'processId' ? 'pid' : filter.field === 'messageType' ? 'type' : filter.field;
+    // Comportamento original: substring sensível a maiúsculas ou RegExp informada
+    const comparison: FilterNode = {
+      kind: 'comparison',
+      field,
+      operator: '~',
+      value: filter.pattern instanceof RegExp
+        ? { type: 'regex', source: filter.pattern.source, flags: filter.pattern.flags }
+        : { type: 'regex', source: escapeRegExp(filter.pattern), flags: '' }
+    };
+
+    const node: FilterNode = filter.type === 'exclude' ? { kind: 'not', operand: comparison } : comparison;
+    result = result ? { kind: 'and', left: result, right: node } : node;
+  }
+
+  return result;
+}
+
+/**
+ * Predicado combinado de ParserOptions.filter e ParserOptions.filters (legado)
+ * Retorna null quando não há filtro
+ */
+export function createOptionsPredicate(options: Pick<ParserOptions, 'filter' | 'filters'>): EntryPredicate | null {
+  const nodes: FilterNode[] = [];
+
+  if (options.filter && options.filter.trim()) {
+    nodes.push(parseFilter(options.filter));
+  }
+
+  const legacy = options.filters && options.filters.length > 0 ? parserFiltersToNode(options.filters) : null;
+  if (legacy) {
+    nodes.push(legacy);
+  }
+
+  if (nodes.length === 0) {
+    return null;
+  }
+
+  return compileFilter(nodes.reduce((left, right) => ({ kind: 'and', left, right })));
+}
+
+function compileNode(node: FilterNode): EntryPredicate {
+  switch (node.kind) {
+    case 'and': {
+      const left = compileNode(node.left);
+      const right = compileNode(node.right);
+      return (entry, execution) => left(entry, execution) && right(entry, execution);
+    }
+    case 'or': {
+      const left = compileNode(node.left);
+      const right = compileNode(node.right);
+      return (entry, execution) => left(entry, execution) || right(entry, execution);
+    }
+    case 'not': {
+      const operand = compileNode(node.operand);
+      return (entry, execution) => !operand(entry, execution);
+    }
+    case 'term': {
+      const needle = node.value.toLowerCase();
+      return entry => entry.message.toLowerCase().includes(needle) ||
+        (entry.sqlInfo?.query?.toLowerCase().includes(needle) ?? false);
+    }
+    case 'comparison':
+      return compileComparison({ field: node.field, position: node.position ?? 0 }, node.operator, node.value);
+  }
+}
+
+function compileComparison(clause: Clause, operator: FilterOperator, value: FilterValue): EntryPredicate {
+  const definition = FIELDS[FIELD_ALIASES[clause.field] ?? clause.field];
+  if (!definition) {
+    throw new FilterSyntaxError(`Unknown field "${clause.field}"`, clause.position);
+  }
+
+  if (value.type === 'regex' || operator === '~') {
+    const pattern = toRegExp(value, clause);
+    return (entry, execution) => asStrings(definition.get(entry, execution)).some(text => pattern.test(text));
+  }
+
+  const test = createValueTest(definition.kind, clause, operator, value);
+  return (entry, execution) => {
+    const actual = definition.get(entry, execution);
+    return actual !== undefined && actual !== null && actual !== '' && test(actual);
+  };
+}
+
+/**
+ * Cria o teste de um valor do campo conforme seu tipo
+ */
+function createValueTest(
+  kind: FieldKind,
+  clause: Clause,
+  operator: FilterOperator,
+  value: FilterValue
+): (actual: unknown) => boolean {
+  switch (kind) {
+    case 'number':
+      return createOrderedTest(
+        clause,
+        operator,
+        value,
+        text => parseNumber(clause, text),
+        actual => typeof actual === 'number' ? actual : undefined
+      );
+
+    case 'severity':
+      return createOrderedTest(
+        clause,
+        operator,
+        value,
+        text => parseSeverity(clause, text),
+        actual => typeof actual === 'string' ? SEVERITY_ORDER.indexOf(actual as LogSeverity) : undefined
+      );
+
+    case 'time':
+      return createOrderedTest(
+        clause,
+        operator,
+        value,
+        text => parseTime(clause, text),
+        actual => typeof actual === 'string' ? actual : undefined
+      );
+
+    case 'date':
+      return createOrderedTest(
+        clause,
+        operator,
+        value,
+        text => parseDate(clause, text),
+        actual => actual instanceof Date || typeof actual === 'string' || typeof actual === 'number'
+          ? new Date(actual).getTime()
+          : undefined
+      );
+
+    case 'list': {
+      assertOperator(clause, operator, [':', '=', '!=']);
+      const expected = textOf(clause, value).toLowerCase();
+      const items = (actual: unknown) => Array.isArray(actual) ? actual.map(item => String(item).toLowerCase()) : [];
+      // ':' casa parte do item ("produto" em "vendas.produto"), '=' o item inteiro
+      if (operator === ':') return actual => items(actual).some(item => item.includes(expected));
+      if (operator === '=') return actual => items(actual).includes(expected);
+      return actual => !items(actual).includes(expected);
+    }
+
+    case 'string': {
+      assertOperator(clause, operator, [':', '=', '!=']);
+      const expected = textOf(clause, value).toLowerCase();
+      if (operator === ':') return actual => String(actual).toLowerCase().includes(expected);
+      if (operator === '=') return actual => String(actual).toLowerCase() === expected;
+      return actual => String(actual).toLowerCase() !== expected;
+    }
+  }
+}
+
+/**
+ * Teste para campos ordenáveis (números, severidade, horário, data)
+ * ':' aceita um valor exato ou um intervalo a..b
+ * Valores que não são do tipo do campo (project devolve undefined) não passam
+ */
+function createOrderedTest<T extends number | string>(
+  clause: Clause,
+  operator: FilterOperator,
+  value: FilterValue,
+  parse: (text: string) => T,
+  project: (actual: unknown) => T | undefined
+): (actual: unknown) => boolean {
+  const compare = (predicate: (projected: T) => boolean) => (actual: unknown) => {
+    const projected = project(actual);
+    return projected !== undefined && predicate(projected);
+  };
+
+  if (value.type === 'range') {
+    if (operator !== ':') {
+      throw new FilterSyntaxError(`Ranges require ":" (got "${operator}")`, clause.position);
+    }
+    const from = parse(value.from);
+    const to = parse(value.to);
+    return compare(projected => projected >= from && projected <= to);
+  }
+
+  const expected = parse(textOf(clause, value));
+
+  switch (operator) {
+    case '>': return compare(projected => projected > expected);
+    case '>=': return compare(projected => projected >= expected);
+    case '<': return compare(projected => projected < expected);
+    case '<=': return compare(projected => projected <= expected);
+    case '!=': return compare(projected => projected !== expected);
+    default: return compare(projected => projected === expected);
+  }
+}
+
+function assertOperator(clause: Clause, operator: FilterOperator, allowed: FilterOperator[]): void {
+  if (!allowed.includes(operator)) {
+    throw new FilterSyntaxError(`Operator "${operator}" is not supported for "${clause.field}"`, clause.position);
+  }
+}
+
+function textOf(clause: Clause, value: FilterValue): string {
+  if (value.type !== 'text') {
+    throw new FilterSyntaxError(`Field "${clause.field}" does not support ranges`, clause.position);
+  }
+  return value.text;
+}
+
+function parseNumber(clause: Clause, text: string): number {
+  const number = Number(text);
+  if (Number.isNaN(number)) {
+    throw new FilterSyntaxError(`"${text}" is not a number for "${clause.field}"`, clause.position);
+  }
+  return number;
+}
+
+function parseSeverity(clause: Clause, text: string): number {
+  const index = SEVERITY_ORDER.indexOf(text.toUpperCase() as LogSeverity);
+  if (index === -1) {
+    throw new FilterSyntaxError(`Unknown severity "${text}"`, clause.position);
+  }
+  return index;
+}
+
+function parseTime(clause: Clause, text: string): string {
+  const match = /^(\d{1,2}):(\d{2})(?::(\d{2}))?$/.exec(text);
+  if (!match) {
+    throw new FilterSyntaxError(`"${text}" is not a time (HH:MM[:SS]) for "${clause.field}"`, clause.position);
+  }
+  return `${match[1].padStart(2, '0')}:${match[2]}:${match[3] ?? '00'}`;
+}
+
+function parseDate(clause: Clause, text: string): number {
+  const time = Date.parse(text);
+  if (Number.isNaN(time)) {
+    throw new FilterSyntaxError(`"${text}" is not a date for "${clause.field}"`, clause.position);
+  }
+  return time;
+}
+
+function toRegExp(value: FilterValue, clause: Clause): RegExp {
+  const source = value.type === 'regex' ? value.source : value.type === 'text' ? value.text : '';
+  const flags = value.type === 'regex' ? value.flags.replace('g', '') : 'i';
+
+  try {
+    return new RegExp(source, flags);
+  } catch {
+    throw new FilterSyntaxError(`Invalid regular expression /${source}/`, clause.position);
+  }
+}
+function asStrings(actual: unknown): string[] {
+  if (actual === undefined || actual === null) return [];
+  if (Array.isArray(actual)) return actual.map(String);
+  if (actual instanceof Date) return [actual.toISOString()];
+  return [String(actual)];
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,220 @@
+/**
+ * Parser da linguagem de filtros
+ *
+ * Gramática:
+ *   expr       := or
+ *   or         := and (OR and)*
+ *   and        := unary (AND unary)*
+ *   unary      := NOT unary | primary
+ *   primary    := '(' expr ')' | comparison | term
+ *   comparison := field operator value
+ *   operator   := '=' | '!=' | '>' | '>=' | '<' | '<=' | ':' | '~'
+ *   value      := "texto" | 'texto' | /regex/ | palavra | valor..valor
+ *
+ * Exemplo: severity>=WARNING AND sql.executionTime>0.5 AND table:produto AND NOT tag:has-binds
+ */
+
+export type FilterOperator = '=' | '!=' | '>' | '>=' | '<' | '<=' | ':' | '~';
+
+export type FilterNode =
+  | { kind: 'and'; left: FilterNode; right: FilterNode }
+  | { kind: 'or'; left: FilterNode; right: FilterNode }
+  | { kind: 'not'; operand: FilterNode }
+  | {
+      kind: 'comparison';
+      field: string;
+      operator: FilterOperator;
+      value: FilterValue;
+      /** Posição (0-based) do campo no texto do filtro, usada nos erros de compilação */
+      position?: number;
+    }
+  | { kind: 'term'; value: string };
+
+export type FilterValue =
+  | { type: 'text'; text: string }
+  | { type: 'regex'; source: string; flags: string }
+  | { type: 'range'; from: string; to: string };
+
+/**
+ * Erro de sintaxe com a posição (0-based) no texto do filtro
+ */
+export class FilterSyntaxError extends Error {
+  constructor(message: string, public readonly position: number) {
+    super(`${message} (position ${position})`);
+    this.name = 'FilterSyntaxError';
+  }
+}
+
+const OPERATORS: FilterOperator[] = ['>=', '<=', '!=', '=', '>', '<', ':', '~'];
+const FIELD_PATTERN = /^[A-Za-z_][\w.]*/;
+const WORD_PATTERN = /^[^\s()]+/;
+
+/**
+ * Converte uma expressão de filtro em AST
+ * @throws FilterSyntaxError se a expressão for inválida
+ */
+export function parseFilter(expression: string): FilterNode {
+  const parser = new Parser(expression);
+  const node = parser.parseExpression();
+  parser.expectEnd();
+  return node;
+}
+
+class Parser {
+  private position = 0;
+
+  constructor(private readonly input: string) {}
+
+  parseExpression(): FilterNode {
+    return this.parseOr();
+  }
+
+  expectEnd(): void {
+    this.skipWhitespace();
+    if (this.position < this.input.length) {
+      throw new FilterSyntaxError(`Unexpected "${this.input.slice(this.position, this.position + 10)}"`, this.position);
+    }
+  }
+
+  private parseOr(): FilterNode {
+    let left = this.parseAnd();
+    while (this.acceptKeyword('OR')) {
+      left = { kind: 'or', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): FilterNode {
+    let left = this.parseUnary();
+    while (this.acceptKeyword('AND')) {
+      left = { kind: 'and', left, right: this.parseUnary() };
+    }
+    return left;
+  }
+
+  private parseUnary(): FilterNode {
+    if (this.acceptKeyword('NOT')) {
+      return { kind: 'not', operand: this.parseUnary() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): FilterNode {
+    this.skipWhitespace();
+
+    if (this.position >= this.input.length) {
+      throw new FilterSyntaxError('Unexpected end of filter', this.position);
+    }
+
+    if (this.input[this.position] === '(') {
+      this.position++;
+      const node = this.parseExpression();
+      this.skipWhitespace();
+      if (this.input[this.position] !== ')') {
+        throw new FilterSyntaxError('Expected ")"', this.position);
+      }
+      this.position++;
+      return node;
+    }
+
+    const fieldMatch = FIELD_PATTERN.exec(this.rest());
+    if (fieldMatch) {
+      const afterField = this.position + fieldMatch[0].length;
+      const operator = OPERATORS.find(op => this.input.startsWith(op, afterField));
+
+      if (operator) {
+        const position = this.position;
+        this.position = afterField + operator.length;
+        return {
+          kind: 'comparison',
+          field: fieldMatch[0],
+          operator,
+          value: this.parseValue(),
+          position
+        };
+      }
+    }
+
+    // Termo solto: busca no texto da mensagem
+    const value = this.parseValue();
+    if (value.type !== 'text') {
+      throw new FilterSyntaxError('Free-text terms must be plain text', this.position);
+    }
+    return { kind: 'term', value: value.text };
+  }
+
+  private parseValue(): FilterValue {
+    const start = this.position;
+    const char = this.input[this.position];
+
+    if (char === '"' || char === "'") {
+      return { type: 'text', text: this.readQuoted(char) };
+    }
+
+    if (char === '/') {
+      const end = this.findClosing('/', this.position + 1);
+      const source = this.input.slice(this.position + 1, end);
+      this.position = end + 1;
+      const flags = (/^[gimsuy]*/.exec(this.rest()) || [''])[0];
+      this.position += flags.length;
+      return { type: 'regex', source, flags };
+    }
+
+    const word = WORD_PATTERN.exec(this.rest());
+    if (!word) {
+      throw new FilterSyntaxError('Expected a value', start);
+    }
+    this.position += word[0].length;
+
+    const rangeIndex = word[0].indexOf('..');
+    if (rangeIndex > 0 && rangeIndex < word[0].length - 2) {
+      return { type: 'range', from: word[0].slice(0, rangeIndex), to: word[0].slice(rangeIndex + 2) };
+    }
+
+    return { type: 'text', text: word[0] };
+  }
+
+  private readQuoted(quote: string): string {
+    const end = this.findClosing(quote, this.position + 1);
+    const text = this.input.slice(this.position + 1, end).replace(new RegExp(`\\\\${quote}`, 'g'), quote);
+    this.position = end + 1;
+    return text;
+  }
+
+  /**
+   * Posição do delimitador de fechamento, ignorando os escapados com \
+   */
+  private findClosing(delimiter: string, from: number): number {
+    for (let i = from; i < this.input.length; i++) {
+      if (this.input[i] === '\\') {
+        i++;
+      } else if (this.input[i] === delimiter) {
+        return i;
+      }
+    }
+    throw new FilterSyntaxError(`Unterminated ${delimiter}`, from - 1);
+  }
+
+  private acceptKeyword(keyword: string): boolean {
+    this.skipWhitespace();
+    const candidate = this.input.slice(this.position, this.position + keyword.length);
+    const next = this.input[this.position + keyword.length];
+
+    if (candidate.toUpperCase() === keyword && (next === undefined || /[\s(]/.test(next))) {
+      this.position += keyword.length;
+      return true;
+    }
+    return false;
+  }
+
+  private skipWhitespace(): void {
+    while (this.position < this.input.length && /\s/.test(this.input[this.position])) {
+      this.position++;
+    }
+  }
+
+  private rest(): string {
+    return this.input.slice(this.position);
+  }
+}
+
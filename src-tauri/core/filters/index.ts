@@ -0,0 +1,4 @@
+export { parseFilter, FilterSyntaxError } from './FilterParser';
+export type { FilterNode, FilterOperator, FilterValue } from './FilterParser';
+export { compileFilter, createOptionsPredicate, parserFiltersToNode, selectEntries } from './FilterCompiler';
+export type { EntryPredicate } from './FilterCompiler';
\ No newline at end of file
@@ -0,0 +1,185 @@
+import { LogEntry, ParsedLog, QueryExecution } from '../../../shared/types/log.types';
+import { TimelineEvent } from '../../../shared/types/analysis.types';
+import { ParserOptions } from '../../../shared/types/parser.types';
+import { QueryCorrelator } from '../parsers/correlation/QueryCorrelator';
+import { LogAnalyzer, logAnalyzer } from '../analyzers/LogAnalyzer';
+import { thresholdProfiles } from '../thresholds/ThresholdProfiles';
+import { FollowBatch, FollowReset, LogFollower } from './LogFollower';
+import * as path from 'path';
+
+/**
+ * O que um lote do arquivo acrescentou ao log acompanhado
+ */
+export interface LiveLogUpdate {
+  entries: LogEntry[];
+
+  /** Execuções concluídas neste lote (podem incluir linhas de lotes anteriores) */
+  executions: QueryExecution[];
+
+  /** Eventos de timeline das entradas e execuções deste lote */
+  timeline: TimelineEvent[];
+
+  reset?: FollowReset;
+}
+
+/**
+ * Log em acompanhamento: correlaciona as queries, atualiza os metadados e
+ * monta os eventos de timeline a cada lote lido pelo LogFollower, sem
+ * reprocessar o que já foi lido
+ *
+ * As entradas e execuções de cada update devem ser acrescentadas ao log
+ * registrado (ver LogStore.append); aqui só são mantidas as entradas SQL
+ * das execuções ainda abertas
+ */
+export class LiveLog {
+  private correlator = new QueryCorrelator();
+  private openQueryEntries = new Map<number, LogEntry>();
+  private processIds = new Set<string>();
+  private log: ParsedLog | null = null;
+  private readonly slowQuerySeconds: number;
+
+  /**
+   * @throws ThresholdProfileError para perfil inexistente ou ajuste inválido
+   */
+  constructor(
+    private readonly follower: LogFollower,
+    private readonly parserName: string,
+    private readonly filePath: string,
+    private readonly options: ParserOptions = {},
+    private readonly analyzer: LogAnalyzer = logAnalyzer
+  ) {
+    this.slowQuerySeconds = thresholdProfiles.resolve(options).slowQuerySeconds;
+  }
+
+  /**
+   * Abre o arquivo e lê o conteúdo existente
+   * @returns Log com o que já estava no arquivo (a ser registrado no store)
+   */
+  async start(): Promise<ParsedLog> {
+    const startTime = Date.now();
+
+    await this.follower.open();
+    const batch = await this.follower.poll();
+    this.follower.settleInitialDates(batch.entries);
+
+    this.log = {
+      metadata: {
+        fileName: path.basename(this.filePath),
+        filePath: this.filePath,
+        fileSizeBytes: 0,
+        totalLines: 0,
+        parsedLines: 0,
+        failedLines: 0,
+        uniqueSessions: 0,
+        detectedFormat: this.parserName,
+        encoding: this.options.encoding || 'utf8'
+      },
+      entries: [],
+      queryExecutions: [],
+      parsedAt: new Date(),
+      parsingDurationMs: 0
+    };
+
+    const update = this.apply(batch);
+    this.log.entries = update.entries;
+    this.log.queryExecutions = update.executions;
+    this.log.parsingDurationMs = Date.now() - startTime;
+
+    return this.log;
+  }
+
+  /**
+   * Atualizações do log até stop()
+   * A última traz as execuções que ainda estavam abertas
+   */
+  async* updates(): AsyncIterableIterator<LiveLogUpdate> {
+    for await (const batch of this.follower.follow()) {
+      yield this.apply(batch);
+    }
+
+    const executions = this.correlator.flush();
+    if (executions.length > 0) {
+      yield this.buildUpdate([], executions);
+    }
+  }
+
+  /**
+   * Para de acompanhar o arquivo (updates() termina após a última atualização)
+   */
+  stop(): void {
+    this.follower.stop();
+  }
+
+  private apply(batch: FollowBatch): LiveLogUpdate {
+    const executions: QueryExecution[] = [];
+
+    for (const entry of batch.entries) {
+      if (entry.sqlInfo && entry.context.processId) {
+        this.openQueryEntries.set(entry.lineNumber, entry);
+      }
+      executions.push(...this.correlator.add(entry));
+    }
+
+    // Execuções do arquivo anterior não recebem linhas do novo
+    if (batch.reset) {
+      executions.push(...this.correlator.flush());
+    }
+
+    const update = this.buildUpdate(batch.entries, executions);
+    update.reset = batch.reset;
+
+    return update;
+  }
+
+  private buildUpdate(entries: LogEntry[], executions: QueryExecution[]): LiveLogUpdate {
+    const timeline = this.analyzer.buildTimeline(
+      entries,
+      executions,
+      this.openQueryEntries,
+      this.slowQuerySeconds
+    );
+
+    for (const execution of executions) {
+      for (const lineNumber of execution.lineNumbers) {
+        this.openQueryEntries.delete(lineNumber);
+      }
+    }
+
+    this.updateMetadata(entries);
+
+    return { entries, executions, timeline };
+  }
+
+  private updateMetadata(entries: LogEntry[]): void {
+    if (!this.log) {
+      return;
+    }
+
+    const metadata = this.log.metadata;
+    const failed = entries.filter(entry => entry.parsingIssues && entry.parsingIssues.length > 0).length;
+
+    metadata.totalLines += entries.length;
+    metadata.failedLines += failed;
+    metadata.parsedLines = metadata.totalLines - metadata.failedLines;
+    metadata.fileSizeBytes = this.follower.bytesRead;
+
+    for (const entry of entries) {
+      this.processIds.add(entry.context.processId);
+
+      const date = entry.context.fullDate;
+      if (!date) {
+        continue;
+      }
+
+      if (!metadata.dateRange) {
+        metadata.dateRange = { start: date, end: date };
+      } else if (date < metadata.dateRange.start) {
+        metadata.dateRange.start = date;
+      } else if (date > metadata.dateRange.end) {
+        metadata.dateRange.end = date;
+      }
+    }
+
+    metadata.uniqueSessions = this.processIds.size;
+  }
+}
@@ -0,0 +1,312 @@
+import { LogEntry } from '../../../shared/types/log.types';
+import { FollowOptions, ParserOptions } from '../../../shared/types/parser.types';
+import { BaseLogParser } from '../parsers/base/BaseLogParser';
+import { createOptionsPredicate, EntryPredicate, selectEntries } from '../filters/FilterCompiler';
+import { createTextDecoder, LogTextDecoder } from '../parsers/utils/TextEncoding';
+import * as fs from 'fs';
+
+const DEFAULT_POLL_INTERVAL_MS = 500;
+const DEFAULT_PENDING_FLUSH_MS = 1000;
+
+/** Bytes lidos por vez do arquivo */
+const READ_CHUNK_BYTES = 64 * 1024;
+
+/**
+ * Motivo de o arquivo ter recomeçado do início
+ * - 'truncated': o arquivo encolheu (ex: truncado pelo servidor)
+ * - 'rotated': outro arquivo passou a ocupar o caminho (ex: rename + novo arquivo)
+ */
+export type FollowReset = 'truncated' | 'rotated';
+
+/**
+ * Entradas lidas em uma verificação do arquivo
+ */
+export interface FollowBatch {
+  entries: LogEntry[];
+
+  /**
+   * Presente quando o arquivo recomeçou nesta verificação
+   * (as entradas do lote são as que restavam do arquivo anterior)
+   */
+  reset?: FollowReset;
+}
+
+/**
+ * Acompanha um arquivo de log que continua sendo escrito (tail -f)
+ *
+ * Mantém o arquivo aberto e lê apenas os bytes novos a cada verificação,
+ * passando as linhas completas pelo mesmo parser (o estado de SQL multi-linha
+ * é preservado entre leituras). Sobrevive a truncamento e rotação: o parser
+ * recomeça no arquivo novo e a numeração de linhas continua, para que as
+ * entradas sigam únicas dentro do log acompanhado
+ */
+export class LogFollower {
+  private handle: fs.promises.FileHandle | null = null;
+  private identity: { dev: number; ino: number } | null = null;
+  private position = 0;
+  private lineNumber = 0;
+  private partialLine = '';
+  private decoder: LogTextDecoder;
+  /** Nada decodificado desde o início do arquivo (o BOM, se houver, vem no primeiro texto) */
+  private atFileStart = true;
+  private lastDataAt = Date.now();
+  private stopped = false;
+  private wakeUp: (() => void) | null = null;
+  private readonly predicate: EntryPredicate | null;
+  private readonly pollIntervalMs: number;
+  private readonly pendingFlushMs: number;
+
+  /**
+   * @param parser Instância exclusiva deste follower (ParserFactory.createParser):
+   * guarda a entrada pendente e a data do arquivo entre as leituras
+   * @throws FilterSyntaxError se o filtro das opções for inválido
+   */
+  constructor(
+    private readonly parser: BaseLogParser,
+    private readonly filePath: string,
+    private readonly options: ParserOptions = {},
+    private readonly followOptions: FollowOptions = {}
+  ) {
+    this.predicate = createOptionsPredicate(options);
+    this.decoder = createTextDecoder(options.encoding || 'utf8');
+    this.pollIntervalMs = followOptions.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+    this.pendingFlushMs = followOptions.pendingFlushMs ?? DEFAULT_PENDING_FLUSH_MS;
+  }
+
+  /**
+   * Tamanho lido do arquivo atual (bytes)
+   */
+  get bytesRead(): number {
+    return this.position;
+  }
+
+  /**
+   * Última linha física lida (contando as dos arquivos anteriores à rotação)
+   */
+  get linesRead(): number {
+    return this.lineNumber;
+  }
+
+  /**
+   * Abre o arquivo; com fromEnd, o conteúdo existente é ignorado
+   * @throws ThresholdProfileError para perfil inexistente ou ajuste inválido
+   */
+  async open(): Promise<void> {
+    await this.openFile();
+
+    if (this.followOptions.fromEnd) {
+      this.position = (await this.handle!.stat()).size;
+      this.atFileStart = false;
+    }
+  }
+
+  /**
+   * Corrige as datas (inferidas do mtime) das entradas do conteúdo que já
+   * existia, depois da primeira leitura (ver BaseLogParser.settleInferredDates)
+   */
+  settleInitialDates(entries: LogEntry[]): void {
+    this.parser.settleInferredDates(entries);
+  }
+
+  /**
+   * Lê o que foi escrito desde a última verificação
+   */
+  async poll(): Promise<FollowBatch> {
+    if (!this.handle) {
+      await this.open();
+    }
+
+    const current = await statOrNull(this.filePath);
+
+    // Outro arquivo no caminho: termina de ler o antigo e recomeça no novo
+    if (current && !this.isSameFile(current)) {
+      const entries = await this.readAppended();
+      entries.push(...this.processLastLine(), ...this.flushPending());
+      await this.closeFile();
+      await this.openFile();
+      return { entries: this.applyFilter(entries), reset: 'rotated' };
+    }
+
+    // Arquivo encolheu: o conteúdo lido foi descartado, recomeça do início
+    if (current && current.size < this.position) {
+      const entries = this.flushPending();
+      this.restart();
+      return { entries: this.applyFilter(entries), reset: 'truncated' };
+    }
+
+    // Caminho sem arquivo (rotação em andamento): continua lendo o antigo
+    const entries = await this.readAppended();
+
+    if (entries.length === 0 && Date.now() - this.lastDataAt >= this.pendingFlushMs) {
+      entries.push(...this.flushPending());
+    }
+
+    return { entries: this.applyFilter(entries) };
+  }
+
+  /**
+   * Verifica o arquivo a cada pollIntervalMs até stop()
+   * Só emite lotes com entradas ou com reinício do arquivo; o último lote
+   * traz as entradas que estavam pendentes no parser
+   */
+  async* follow(): AsyncIterableIterator<FollowBatch> {
+    try {
+      if (!this.handle) {
+        await this.open();
+      }
+
+      while (!this.stopped) {
+        const batch = await this.poll();
+        if (batch.entries.length > 0 || batch.reset) {
+          yield batch;
+        }
+
+        if (!this.stopped) {
+          await this.sleep();
+        }
+      }
+
+      const remaining = this.applyFilter(this.flushPending());
+      if (remaining.length > 0) {
+        yield { entries: remaining };
+      }
+    } finally {
+      await this.closeFile();
+    }
+  }
+
+  /**
+   * Interrompe follow() (a verificação em andamento termina antes)
+   */
+  stop(): void {
+    this.stopped = true;
+    this.wakeUp?.();
+  }
+
+  private async openFile(): Promise<void> {
+    this.handle = await fs.promises.open(this.filePath, 'r');
+    const stats = await this.handle.stat();
+
+    this.identity = { dev: stats.dev, ino: stats.ino };
+    this.restart();
+  }
+
+  private async closeFile(): Promise<void> {
+    const handle = this.handle;
+    this.handle = null;
+    await handle?.close();
+  }
+
+  /**
+   * Volta ao início do arquivo com o parser zerado
+   */
+  private restart(): void {
+    this.position = 0;
+    this.atFileStart = true;
+    this.partialLine = '';
+    this.decoder = createTextDecoder(this.options.encoding || 'utf8');
+    this.parser.beginFile(this.filePath, this.options);
+  }
+
+  /**
+   * Sem inode (alguns sistemas de arquivos no Windows), a rotação aparece como truncamento
+   */
+  private isSameFile(stats: fs.Stats): boolean {
+    if (!this.identity || stats.ino === 0) {
+      return true;
+    }
+    return stats.dev === this.identity.dev && stats.ino === this.identity.ino;
+  }
+
+  /**
+   * Lê os bytes novos e processa as linhas completas
+   * A última linha sem quebra fica guardada até a escrita terminar
+   */
+  private async readAppended(): Promise<LogEntry[]> {
+    const entries: LogEntry[] = [];
+    const buffer = Buffer.alloc(READ_CHUNK_BYTES);
+
+    while (this.handle) {
+      const { bytesRead } = await this.handle.read(buffer, 0, buffer.length, this.position);
+      if (bytesRead === 0) {
+        break;
+      }
+
+      this.position += bytesRead;
+      this.lastDataAt = Date.now();
+
+      let text = this.decoder.write(buffer.subarray(0, bytesRead));
+      if (this.atFileStart && text) {
+        // O BOM não faz parte da primeira linha (como em LineReader)
+        text = text.startsWith('\uFEFF') ? text.slice(1) : text;
+        this.atFileStart = false;
+      }
+
+      const lines = (this.partialLine + text).split(/\r?\n/);
+      this.partialLine = lines.pop() ?? '';
+
+      for (const line of lines) {
+        this.lineNumber++;
+
+        if (line.trim() || this.parser.acceptsBlankLine()) {
+          entries.push(...this.parser.processLine(line, this.lineNumber, this.options));
+        }
+      }
+    }
+
+    return entries;
+  }
+
+  /**
+   * Última linha de um arquivo que não será mais escrito (sem quebra no final)
+   */
+  private processLastLine(): LogEntry[] {
+    const line = this.partialLine + this.decoder.end();
+    this.partialLine = '';
+
+    if (!line.trim()) {
+      return [];
+    }
+
+    this.lineNumber++;
+    return this.parser.processLine(line, this.lineNumber, this.options);
+  }
+
+  /**
+   * Entradas que o parser segurava aguardando linhas de continuação
+   */
+  private flushPending(): LogEntry[] {
+    return this.parser.flushPendingEntries(this.options);
+  }
+
+  /**
+   * Execuções são correlacionadas dentro do lote (as que começaram em lotes
+   * anteriores são avaliadas só pelas linhas deste)
+   */
+  private applyFilter(entries: LogEntry[]): LogEntry[] {
+    return this.predicate ? selectEntries(entries, this.predicate) : entries;
+  }
+
+  private sleep(): Promise<void> {
+    return new Promise(resolve => {
+      const timer = setTimeout(() => {
+        this.wakeUp = null;
+        resolve();
+      }, this.pollIntervalMs);
+
+      this.wakeUp = () => {
+        clearTimeout(timer);
+        this.wakeUp = null;
+        resolve();
+      };
+    });
+  }
+}
+
+async function statOrNull(filePath: string): Promise<fs.Stats | null> {
+  try {
+    return await fs.promises.stat(filePath);
+  } catch {
+    return null;
+  }
+}
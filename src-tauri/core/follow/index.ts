@@ -0,0 +1,4 @@
+export { LogFollower } from './LogFollower';
+export type { FollowBatch, FollowReset } from './LogFollower';
+export { LiveLog } from './LiveLog';
+export type { LiveLogUpdate } from './LiveLog';
\ No newline at end of file
@@ -0,0 +1,364 @@
+import { LineIndex, LineIndexCheckpoint, LogEntry } from '../../../shared/types/log.types';
+import { ParserOptions, ParsingProgress } from '../../../shared/types/parser.types';
+import { BaseLogParser } from '../parsers/base/BaseLogParser';
+import * as fs from 'fs';
+
+/** Versão do formato gravado; índices de outra versão são refeitos */
+const LINE_INDEX_VERSION = 1;
+
+/** Linhas entre checkpoints (um arquivo de 1 milhão de linhas gera ~1000) */
+const DEFAULT_CHECKPOINT_INTERVAL = 1000;
+
+/** Entradas devolvidas por leitura quando count não é informado */
+const DEFAULT_READ_COUNT = 200;
+
+/** Entradas entre avisos de progresso durante a indexação */
+const PROGRESS_INTERVAL = 1000;
+
+/**
+ * Como o índice foi obtido
+ * - 'restored': índice gravado ainda corresponde ao arquivo
+ * - 'extended': arquivo cresceu; só o trecho novo foi indexado
+ * - 'built': índice inexistente, de outro parser ou de um arquivo alterado
+ */
+export type LineIndexStatus = 'restored' | 'extended' | 'built';
+
+export interface LineIndexerOptions {
+  /** Linhas entre checkpoints */
+  interval?: number;
+}
+
+/**
+ * Destino de uma leitura: a partir de uma linha ou de um horário
+ */
+export interface LineIndexTarget {
+  fromLine?: number;
+  at?: Date;
+}
+
+/**
+ * Monta o índice a partir das entradas, na ordem do arquivo
+ * Com um índice anterior, continua dele (as entradas começam em resumeFrom)
+ */
+export class LineIndexBuilder {
+  private checkpoints: LineIndexCheckpoint[];
+  private lastEntry?: LineIndexCheckpoint;
+  private totalEntries: number;
+  private dateRange?: { start: number; end: number };
+
+  constructor(private readonly interval: number = DEFAULT_CHECKPOINT_INTERVAL, base?: LineIndex) {
+    const resumeLine = base?.resumeFrom?.lineNumber ?? Infinity;
+
+    // A entrada de retomada é lida de novo e pode ter ganhado linhas de continuação
+    this.checkpoints = (base?.checkpoints ?? []).filter(checkpoint => checkpoint.lineNumber < resumeLine);
+    this.totalEntries = base ? Math.max(base.totalEntries - (base.resumeFrom ? 1 : 0), 0) : 0;
+    this.dateRange = base?.dateRange ? { ...base.dateRange } : undefined;
+    this.lastEntry = base?.resumeFrom;
+  }
+
+  add(entry: LogEntry): void {
+    if (entry.byteOffset === undefined) {
+      return;
+    }
+
+    const time = entry.context.fullDate ? new Date(entry.context.fullDate).getTime() : undefined;
+    const checkpoint: LineIndexCheckpoint = { lineNumber: entry.lineNumber, byteOffset: entry.byteOffset, time };
+    const previous = this.checkpoints[this.checkpoints.length - 1];
+
+    if (!previous || entry.lineNumber - previous.lineNumber >= this.interval) {
+      this.checkpoints.push(checkpoint);
+    }
+
+    if (time !== undefined) {
+      this.dateRange = this.dateRange
+        ? { start: Math.min(this.dateRange.start, time), end: Math.max(this.dateRange.end, time) }
+        : { start: time, end: time };
+    }
+
+    this.lastEntry = checkpoint;
+    this.totalEntries++;
+  }
+
+  /**
+   * Move os horários registrados (ex: -1 recua um dia), mantendo a hora
+   * Usado pela segunda passada das datas inferidas do mtime
+   */
+  shiftDays(days: number): void {
+    if (days === 0) {
+      return;
+    }
+
+    const shift = (time: number) => {
+      const date = new Date(time);
+      date.setDate(date.getDate() + days);
+      return date.getTime();
+    };
+
+    this.checkpoints = this.checkpoints.map(checkpoint =>
+      checkpoint.time !== undefined ? { ...checkpoint, time: shift(checkpoint.time) } : checkpoint
+    );
+    if (this.lastEntry?.time !== undefined) {
+      this.lastEntry = { ...this.lastEntry, time: shift(this.lastEntry.time) };
+    }
+    if (this.dateRange) {
+      this.dateRange = { start: shift(this.dateRange.start), end: shift(this.dateRange.end) };
+    }
+  }
+
+  build(
+    filePath: string,
+    parserName: string,
+    stats: fs.Stats,
+    totalLines: number,
+    indexedBytes: number
+  ): LineIndex {
+    return {
+      version: LINE_INDEX_VERSION,
+      filePath,
+      parserName,
+      fileSizeBytes: stats.size,
+      fileModifiedMs: stats.mtimeMs,
+      interval: this.interval,
+      checkpoints: this.checkpoints,
+      totalLines,
+      totalEntries: this.totalEntries,
+      indexedBytes,
+      resumeFrom: this.lastEntry,
+      dateRange: this.dateRange
+    };
+  }
+}
+
+/**
+ * Caminho do índice gravado ao lado do log
+ */
+export function getLineIndexPath(filePath: string): string {
+  return `${filePath}.lidx`;
+}
+
+/**
+ * Lê o índice gravado (null se não existir ou estiver corrompido)
+ */
+export async function loadLineIndex(filePath: string): Promise<LineIndex | null> {
+  try {
+    const index: LineIndex = JSON.parse(await fs.promises.readFile(getLineIndexPath(filePath), 'utf8'));
+    return index.version === LINE_INDEX_VERSION && Array.isArray(index.checkpoints) ? index : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Grava o índice ao lado do log
+ * O índice é só um cache: sem permissão de escrita, a leitura segue sem ele
+ * @returns Se o índice foi gravado
+ */
+export async function saveLineIndex(index: LineIndex): Promise<boolean> {
+  try {
+    await fs.promises.writeFile(getLineIndexPath(index.filePath), JSON.stringify(index), 'utf8');
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Compara o índice com o arquivo atual
+ * Arquivo maior e modificado é tratado como crescimento (logs só recebem linhas no fim)
+ */
+export function getLineIndexState(
+  index: LineIndex,
+  stats: fs.Stats,
+  parserName: string
+): 'current' | 'grown' | 'stale' {
+  if (index.parserName !== parserName) {
+    return 'stale';
+  }
+  if (stats.size === index.fileSizeBytes && stats.mtimeMs === index.fileModifiedMs) {
+    return 'current';
+  }
+  return stats.size > index.fileSizeBytes && index.resumeFrom ? 'grown' : 'stale';
+}
+
+/**
+ * Último checkpoint até a linha (a leitura começa nele)
+ */
+export function findCheckpointByLine(index: LineIndex, lineNumber: number): LineIndexCheckpoint | undefined {
+  return findLastCheckpoint(index.checkpoints, checkpoint => checkpoint.lineNumber <= lineNumber);
+}
+
+/**
+ * Último checkpoint com horário até o momento (epoch ms)
+ */
+export function findCheckpointByTime(index: LineIndex, time: number): LineIndexCheckpoint | undefined {
+  const timed = index.checkpoints.filter(checkpoint => checkpoint.time !== undefined);
+  return findLastCheckpoint(timed, checkpoint => checkpoint.time! <= time);
+}
+
+/**
+ * Busca binária do último checkpoint que satisfaz o predicado (monótono)
+ */
+function findLastCheckpoint(
+  checkpoints: LineIndexCheckpoint[],
+  isBefore: (checkpoint: LineIndexCheckpoint) => boolean
+): LineIndexCheckpoint | undefined {
+  let low = 0;
+  let high = checkpoints.length - 1;
+  let found: LineIndexCheckpoint | undefined;
+
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    if (isBefore(checkpoints[middle])) {
+      found = checkpoints[middle];
+      low = middle + 1;
+    } else {
+      high = middle - 1;
+    }
+  }
+
+  return found;
+}
+
+/**
+ * Índice de linhas de arquivos grandes: monta, grava, reaproveita e lê
+ * trechos a partir dele sem percorrer o arquivo desde o início
+ */
+export class LineIndexer {
+  private readonly interval: number;
+
+  constructor(options: LineIndexerOptions = {}) {
+    this.interval = options.interval ?? DEFAULT_CHECKPOINT_INTERVAL;
+  }
+
+  /**
+   * Obtém o índice do arquivo: reaproveita o gravado, estende-o se o arquivo
+   * cresceu ou indexa o arquivo inteiro
+   * @param rebuild Ignora o índice gravado
+   */
+  async open(
+    parser: BaseLogParser,
+    filePath: string,
+    options: ParserOptions = {},
+    onProgress?: (progress: ParsingProgress) => void,
+    rebuild: boolean = false
+  ): Promise<{ index: LineIndex; status: LineIndexStatus }> {
+    const stats = await fs.promises.stat(filePath);
+    const saved = rebuild ? null : await loadLineIndex(filePath);
+    const state = saved ? getLineIndexState(saved, stats, parser.getName()) : 'stale';
+
+    if (saved && state === 'current') {
+      // O par log + índice pode ter sido movido junto
+      return { index: { ...saved, filePath }, status: 'restored' };
+    }
+
+    const base = saved && state === 'grown' ? saved : undefined;
+    const index = await this.build(parser, filePath, options, base, onProgress);
+    await saveLineIndex(index);
+
+    return { index, status: base ? 'extended' : 'built' };
+  }
+
+  /**
+   * Lê entradas a partir de uma linha ou horário, começando no checkpoint mais próximo
+   * A entrada que contém a linha pedida (SQL multi-linha) é incluída
+   */
+  async read(
+    parser: BaseLogParser,
+    index: LineIndex,
+    target: LineIndexTarget,
+    count: number = DEFAULT_READ_COUNT,
+    options: ParserOptions = {}
+  ): Promise<LogEntry[]> {
+    const time = target.at?.getTime();
+    const checkpoint = time !== undefined
+      ? findCheckpointByTime(index, time)
+      : findCheckpointByLine(index, target.fromLine ?? 1);
+
+    const entries: LogEntry[] = [];
+    if (count <= 0) {
+      return entries;
+    }
+
+    const stream = parser.parseStream(index.filePath, {
+      ...options,
+      maxLines: undefined,
+      startOffset: checkpoint?.byteOffset,
+      startLine: checkpoint?.lineNumber,
+      startDate: checkpoint?.time !== undefined ? new Date(checkpoint.time) : undefined
+    });
+
+    for await (const entry of stream) {
+      if (time !== undefined) {
+        const entryTime = entry.context.fullDate?.getTime();
+        if (entryTime === undefined || entryTime < time) {
+          continue;
+        }
+      } else if ((entry.endLineNumber ?? entry.lineNumber) < (target.fromLine ?? 1)) {
+        continue;
+      }
+
+      entries.push(entry);
+      if (entries.length >= count) {
+        break;
+      }
+    }
+
+    return entries;
+  }
+
+  private async build(
+    parser: BaseLogParser,
+    filePath: string,
+    options: ParserOptions,
+    base: LineIndex | undefined,
+    onProgress?: (progress: ParsingProgress) => void
+  ): Promise<LineIndex> {
+    const startTime = Date.now();
+    const stats = await fs.promises.stat(filePath);
+    const resumeFrom = base?.resumeFrom;
+    const builder = new LineIndexBuilder(this.interval, base);
+
+    // O índice cobre o arquivo inteiro: filtros e limite de linhas não se aplicam
+    const stream = parser.parseStream(filePath, {
+      ...options,
+      filter: undefined,
+      filters: undefined,
+      maxLines: undefined,
+      startOffset: resumeFrom?.byteOffset,
+      startLine: resumeFrom?.lineNumber,
+      startDate: resumeFrom?.time !== undefined ? new Date(resumeFrom.time) : undefined
+    });
+
+    let processedLines = 0;
+    let lastLine = base?.totalLines ?? 0;
+
+    for await (const entry of stream) {
+      builder.add(entry);
+      processedLines++;
+      lastLine = Math.max(lastLine, entry.endLineNumber ?? entry.lineNumber);
+
+      if (onProgress && processedLines % PROGRESS_INTERVAL === 0) {
+        const processedBytes = (entry.byteOffset ?? 0) - (resumeFrom?.byteOffset ?? 0);
+        const totalBytes = stats.size - (resumeFrom?.byteOffset ?? 0);
+
+        onProgress({
+          processedLines,
+          percentage: Math.min((processedBytes / Math.max(totalBytes, 1)) * 100, 100),
+          processesBytes: processedBytes,
+          totalBytes,
+          elapsedMs: Date.now() - startTime
+        });
+      }
+    }
+
+    // Indexação do início (sem retomada): datas do mtime só se acertam no fim do arquivo
+    builder.shiftDays(-parser.settleInferredDates([]));
+
+    return builder.build(filePath, parser.getName(), stats, lastLine, stats.size);
+  }
+}
+
+/**
+ * Instância singleton global do indexador
+ */
+export const lineIndexer = new LineIndexer();
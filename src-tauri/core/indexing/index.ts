@@ -0,0 +1,12 @@
+export {
+  LineIndexBuilder,
+  LineIndexer,
+  lineIndexer,
+  getLineIndexPath,
+  loadLineIndex,
+  saveLineIndex,
+  getLineIndexState,
+  findCheckpointByLine,
+  findCheckpointByTime
+} from './LineIndexer';
+export type { LineIndexStatus, LineIndexerOptions, LineIndexTarget } from './LineIndexer';
\ No newline at end of file
@@ -0,0 +1,299 @@
+import { LogEntry, QueryExecution } from '../../../shared/types/log.types';
+import { InsightFinding, InsightSeverity } from '../../../shared/types/analysis.types';
+import { hasBindPlaceholders, getSQLFingerprint } from '../parsers/utils/SQLFingerprint';
+import { InsightContext, InsightRule } from './InsightEngine';
+
+/** Execuções seguidas do mesmo padrão, no mesmo PID, que caracterizam um loop */
+const MIN_LOOP_REPETITIONS = 10;
+
+/** Variações de literal do mesmo padrão que caracterizam falta de binds */
+const MIN_LITERAL_VARIATIONS = 2;
+
+/** Vezes que um PID liga o acelerador a partir das quais o achado vira aviso */
+const ACCELERATOR_TOGGLE_WARNING = 5;
+
+/**
+ * Execuções agrupadas pelo padrão (fingerprint) da query
+ */
+function groupByFingerprint(executions: QueryExecution[]): Map<string, QueryExecution[]> {
+  const groups = new Map<string, QueryExecution[]>();
+
+  for (const execution of executions) {
+    const fingerprint = execution.sqlInfo.fingerprint ?? getSQLFingerprint(execution.sqlInfo);
+    if (!fingerprint) {
+      continue;
+    }
+
+    const group = groups.get(fingerprint);
+    if (group) {
+      group.push(execution);
+    } else {
+      groups.set(fingerprint, [execution]);
+    }
+  }
+
+  return groups;
+}
+
+function evidenceOf(context: InsightContext, executions: QueryExecution[]): LogEntry[] {
+  const evidence: LogEntry[] = [];
+
+  for (const execution of executions) {
+    const entry = context.entryByLine.get(execution.lineNumbers[0]);
+    if (entry) {
+      evidence.push(entry);
+    }
+  }
+
+  return evidence;
+}
+
+function describeTables(execution: QueryExecution): string {
+  const tables = execution.sqlInfo.tables ?? [];
+  return tables.length > 0 ? tables.join(', ') : 'unknown table';
+}
+
+function createFinding(
+  ruleId: string,
+  severity: InsightSeverity,
+  message: string,
+  suggestion: string,
+  evidence: LogEntry[],
+  occurrences: number = evidence.length
+): InsightFinding {
+  return { ruleId, severity, message, suggestion, occurrences, evidence };
+}
+
+/**
+ * SELECT * (lê colunas que a tela não usa e quebra com mudanças de schema)
+ */
+export const selectAllRule: InsightRule = {
+  id: 'select-all',
+  evaluate(context) {
+    const findings: InsightFinding[] = [];
+
+    for (const group of groupByFingerprint(context.executions).values()) {
+      const statement = group[0].sqlInfo.statement;
+      if (!statement?.selectsAll) {
+        continue;
+      }
+
+      findings.push(createFinding(
+        this.id,
+        'warning',
+        `SELECT * on ${describeTables(group[0])} executed ${group.length} time(s)`,
+        'List only the columns that are used; SELECT * reads unused columns and prevents index-only access',
+        evidenceOf(context, group)
+      ));
+    }
+
+    return findings;
+  }
+};
+
+/**
+ * SELECT/UPDATE/DELETE sem WHERE (varredura completa ou alteração da tabela inteira)
+ */
+export const missingWhereRule: InsightRule = {
+  id: 'missing-where',
+  evaluate(context) {
+    const findings: InsightFinding[] = [];
+
+    for (const group of groupByFingerprint(context.executions).values()) {
+      const statement = group[0].sqlInfo.statement;
+      if (!statement || statement.hasWhere || statement.tables.length === 0 ||
+          !['select', 'update', 'delete'].includes(statement.kind)) {
+        continue;
+      }
+
+      const modifies = statement.kind !== 'select';
+
+      findings.push(createFinding(
+        this.id,
+        modifies ? 'critical' : 'warning',
+        `${statement.kind.toUpperCase()} without WHERE on ${describeTables(group[0])} executed ${group.length} time(s)`,
+        modifies
+          ? 'Check that changing every row is intended; restrict the statement with a WHERE clause'
+          : 'Add a WHERE clause (or a LIMIT) so the query does not scan the whole table',
+        evidenceOf(context, group)
+      ));
+    }
+
+    return findings;
+  }
+};
+
+/**
+ * Queries que retornam muitos registros (limites largeResultSetRows/hugeResultSetRows do perfil)
+ */
+export const largeResultSetRule: InsightRule = {
+  id: 'large-result-set',
+  evaluate(context) {
+    const findings: InsightFinding[] = [];
+    const { largeResultSetRows, hugeResultSetRows } = context.thresholds;
+
+    for (const group of groupByFingerprint(context.executions).values()) {
+      const large = group.filter(execution => (execution.sqlInfo.recordsReturned ?? 0) > largeResultSetRows);
+      if (large.length === 0) {
+        continue;
+      }
+
+      // reduce em vez de Math.max(...): o grupo pode ter mais itens que o limite de argumentos
+      const maxRows = large.reduce((max, execution) => Math.max(max, execution.sqlInfo.recordsReturned ?? 0), 0);
+
+      findings.push(createFinding(
+        this.id,
+        maxRows > hugeResultSetRows ? 'critical' : 'warning',
+        `Query on ${describeTables(large[0])} returned up to ${maxRows} rows (${large.length} time(s))`,
+        'Paginate the result or filter it in the database instead of loading every row into the application',
+        evidenceOf(context, large)
+      ));
+    }
+
+    return findings;
+  }
+};
+
+/**
+ * Mesma query executada em sequência pelo mesmo PID (N+1 / query dentro de loop)
+ */
+export const repeatedQueryRule: InsightRule = {
+  id: 'repeated-query',
+  evaluate(context) {
+    const runs = new Map<string, { executions: QueryExecution[]; loops: QueryExecution[][] }>();
+    const current = new Map<string, { fingerprint: string; executions: QueryExecution[] }>();
+
+    const closeRun = (run: { fingerprint: string; executions: QueryExecution[] }) => {
+      if (run.executions.length < MIN_LOOP_REPETITIONS) {
+        return;
+      }
+
+      const loops = runs.get(run.fingerprint) ?? { executions: [], loops: [] };
+      for (const execution of run.executions) {
+        loops.executions.push(execution);
+      }
+      loops.loops.push(run.executions);
+      runs.set(run.fingerprint, loops);
+    };
+
+    for (const execution of context.executions) {
+      const fingerprint = execution.sqlInfo.fingerprint ?? getSQLFingerprint(execution.sqlInfo);
+      if (!fingerprint) {
+        continue;
+      }
+
+      const run = current.get(execution.processId);
+      if (run && run.fingerprint === fingerprint) {
+        run.executions.push(execution);
+        continue;
+      }
+
+      if (run) {
+        closeRun(run);
+      }
+      current.set(execution.processId, { fingerprint, executions: [execution] });
+    }
+
+    for (const run of current.values()) {
+      closeRun(run);
+    }
+
+    return Array.from(runs.values()).map(({ executions, loops }) => {
+      const longest = loops.reduce((max, loop) => Math.max(max, loop.length), 0);
+
+      return createFinding(
+        this.id,
+        'warning',
+        `Same query on ${describeTables(executions[0])} executed up to ${longest} times in a row (${loops.length} loop(s))`,
+        'Fetch the rows in a single query (IN list or JOIN) or cache the result instead of querying inside a loop',
+        evidenceOf(context, loops.map(loop => loop[0])),
+        executions.length
+      );
+    });
+  }
+};
+
+/**
+ * Mesmo padrão executado com literais diferentes e sem binds (um parse por valor)
+ */
+export const bindlessLiteralsRule: InsightRule = {
+  id: 'bindless-literals',
+  evaluate(context) {
+    const findings: InsightFinding[] = [];
+
+    for (const group of groupByFingerprint(context.executions).values()) {
+      const withoutBinds = group.filter(execution =>
+        !execution.sqlInfo.binds && !hasBindPlaceholders(execution.sqlInfo.query));
+
+      const variations = new Set(withoutBinds.map(execution =>
+        execution.sqlInfo.query.replace(/\s+/g, ' ').trim().toLowerCase()));
+
+      if (variations.size < MIN_LITERAL_VARIATIONS) {
+        continue;
+      }
+
+      findings.push(createFinding(
+        this.id,
+        'warning',
+        `Query on ${describeTables(withoutBinds[0])} executed with ${variations.size} different literal values and no binds`,
+        'Use bind parameters so the database can reuse the execution plan instead of parsing each variation',
+        evidenceOf(context, withoutBinds)
+      ));
+    }
+
+    return findings;
+  }
+};
+
+/**
+ * Acelerador ligado durante o processamento (tag accelerator-enabled)
+ */
+export const acceleratorToggleRule: InsightRule = {
+  id: 'accelerator-toggle',
+  evaluate(context) {
+    const byProcess = new Map<string, LogEntry[]>();
+
+    for (const entry of context.entries) {
+      if (!entry.tags.includes('accelerator-enabled')) {
+        continue;
+      }
+
+      const toggles = byProcess.get(entry.context.processId);
+      if (toggles) {
+        toggles.push(entry);
+      } else {
+        byProcess.set(entry.context.processId, [entry]);
+      }
+    }
+
+    if (byProcess.size === 0) {
+      return [];
+    }
+
+    const evidence = Array.from(byProcess.values()).flat()
+      .sort((a, b) => a.lineNumber - b.lineNumber);
+    const maxPerProcess = Array.from(byProcess.values()).reduce((max, toggles) => Math.max(max, toggles.length), 0);
+
+    return [createFinding(
+      this.id,
+      maxPerProcess >= ACCELERATOR_TOGGLE_WARNING ? 'warning' : 'info',
+      `Accelerator enabled ${evidence.length} time(s) in ${byProcess.size} process(es)`,
+      maxPerProcess >= ACCELERATOR_TOGGLE_WARNING
+        ? 'The accelerator is being toggled repeatedly by the same process; enable it once for the whole routine'
+        : 'Compare the statements before and after the accelerator was enabled to confirm it is effective',
+      evidence
+    )];
+  }
+};
+
+/**
+ * Regras embutidas, na ordem em que são registradas
+ */
+export const BUILTIN_RULES: InsightRule[] = [
+  selectAllRule,
+  missingWhereRule,
+  largeResultSetRule,
+  repeatedQueryRule,
+  bindlessLiteralsRule,
+  acceleratorToggleRule
+];
@@ -0,0 +1,104 @@
+import { LogEntry, QueryExecution } from '../../../shared/types/log.types';
+import { InsightFinding, InsightSeverity } from '../../../shared/types/analysis.types';
+import { ThresholdProfile } from '../../../shared/types/threshold.types';
+
+/**
+ * Dados do log disponíveis para as regras
+ */
+export interface InsightContext {
+  entries: LogEntry[];
+  executions: QueryExecution[];
+  entryByLine: Map<number, LogEntry>;
+  thresholds: ThresholdProfile;
+}
+
+/**
+ * Regra do motor de insights: inspeciona o log e emite zero ou mais achados
+ */
+export interface InsightRule {
+  /** Identificador único (usado para desativar ou substituir a regra) */
+  readonly id: string;
+
+  evaluate(context: InsightContext): InsightFinding[];
+}
+
+const SEVERITY_RANK: Record<InsightSeverity, number> = {
+  info: 0,
+  warning: 1,
+  critical: 2
+};
+
+/**
+ * Motor de regras de insights
+ * Executa as regras registradas e ordena os achados por severidade e ocorrências
+ */
+export class InsightEngine {
+  private rules = new Map<string, InsightRule>();
+
+  /**
+   * Registra uma regra (substitui a existente com o mesmo id)
+   */
+  register(rule: InsightRule): void {
+    this.rules.set(rule.id, rule);
+  }
+
+  /**
+   * Remove uma regra registrada
+   * @param ruleId Id da regra a remover
+   */
+  unregister(ruleId: string): boolean {
+    return this.rules.delete(ruleId);
+  }
+
+  /**
+   * Lista os ids das regras registradas
+   */
+  listRules(): string[] {
+    return Array.from(this.rules.keys());
+  }
+
+  /**
+   * Obtém uma regra pelo id
+   */
+  getRule(ruleId: string): InsightRule | null {
+    return this.rules.get(ruleId) ?? null;
+  }
+
+  /**
+   * Novo motor com as mesmas regras (para somar regras de um arquivo sem alterar este)
+   */
+  clone(): InsightEngine {
+    const engine = new InsightEngine();
+    for (const rule of this.rules.values()) {
+      engine.register(rule);
+    }
+    return engine;
+  }
+
+  /**
+   * Executa todas as regras, dos achados mais graves para os menos graves
+   */
+  run(context: InsightContext): InsightFinding[] {
+    const findings: InsightFinding[] = [];
+
+    for (const rule of this.rules.values()) {
+      findings.push(...rule.evaluate(context));
+    }
+
+    return findings.sort((a, b) =>
+      SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity] ||
+      b.occurrences - a.occurrences);
+  }
+
+  /**
+   * Limpa todas as regras registradas
+   */
+  clear(): void {
+    this.rules.clear();
+  }
+}
+
+/**
+ * Instância singleton global do motor de insights
+ */
+export const insightEngine = new InsightEngine();
@@ -0,0 +1,180 @@
+import { InsightSeverity } from '../../../shared/types/analysis.types';
+import { compileFilter, EntryPredicate, selectEntries } from '../filters/FilterCompiler';
+import { FilterSyntaxError } from '../filters/FilterParser';
+import { InsightEngine, InsightRule } from './InsightEngine';
+import * as fs from 'fs';
+
+/**
+ * Regra declarada no arquivo de configuração: as entradas que casam com o filtro
+ * (mesma linguagem de ParserOptions.filter) viram evidência de um achado
+ */
+export interface InsightRuleDefinition {
+  id: string;
+  filter: string;
+  severity?: InsightSeverity;
+  message: string;
+  suggestion?: string;
+
+  /** Ocorrências mínimas para emitir o achado (padrão: 1) */
+  minOccurrences?: number;
+}
+
+/**
+ * Arquivo de regras da equipe
+ *
+ * {
+ *   "disable": ["accelerator-toggle"],
+ *   "rules": [
+ *     {
+ *       "id": "nota-fiscal-deadlock",
+ *       "filter": "severity>=ERROR AND message~/ORA-00060/",
+ *       "severity": "critical",
+ *       "message": "Deadlock while issuing invoices",
+ *       "suggestion": "Lock the rows in the same order in every routine"
+ *     }
+ *   ]
+ * }
+ */
+export interface InsightRulesConfig {
+  /** Ids de regras (embutidas ou não) que não devem rodar */
+  disable?: string[];
+  rules?: InsightRuleDefinition[];
+}
+
+/**
+ * Arquivo de regras ilegível ou inválido
+ */
+export class InsightConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InsightConfigError';
+  }
+}
+
+const SEVERITIES: InsightSeverity[] = ['info', 'warning', 'critical'];
+
+/**
+ * Lê e valida um arquivo de regras
+ * @throws InsightConfigError se o arquivo não puder ser lido ou for inválido
+ */
+export function loadInsightRulesConfig(filePath: string): InsightRulesConfig {
+  let content: string;
+  try {
+    content = fs.readFileSync(filePath, 'utf8');
+  } catch (error) {
+    throw new InsightConfigError(`Cannot read rules file ${filePath}: ${(error as Error).message}`);
+  }
+
+  let config: unknown;
+  try {
+    config = JSON.parse(content);
+  } catch (error) {
+    throw new InsightConfigError(`Rules file ${filePath} is not valid JSON: ${(error as Error).message}`);
+  }
+
+  return validateConfig(config);
+}
+
+/**
+ * Cria a regra de uma definição do arquivo (o filtro é compilado uma vez)
+ * @throws InsightConfigError se o filtro tiver erro de sintaxe
+ */
+export function createFilterRule(definition: InsightRuleDefinition): InsightRule {
+  let predicate: EntryPredicate;
+  try {
+    predicate = compileFilter(definition.filter);
+  } catch (error) {
+    if (error instanceof FilterSyntaxError) {
+      throw new InsightConfigError(`Rule ${definition.id}: invalid filter: ${error.message}`);
+    }
+    throw error;
+  }
+
+  const minOccurrences = definition.minOccurrences ?? 1;
+
+  return {
+    id: definition.id,
+    evaluate(context) {
+      const evidence = selectEntries(context.entries, predicate, context.executions);
+      if (evidence.length === 0 || evidence.length < minOccurrences) {
+        return [];
+      }
+
+      return [{
+        ruleId: definition.id,
+        severity: definition.severity ?? 'warning',
+        message: `${definition.message} (${evidence.length} occurrence(s))`,
+        suggestion: definition.suggestion ?? '',
+        occurrences: evidence.length,
+        evidence
+      }];
+    }
+  };
+}
+
+/**
+ * Motor com as regras do motor base, sem as desativadas e com as do arquivo
+ * (regras do arquivo substituem as de mesmo id)
+ */
+export function applyInsightRulesConfig(base: InsightEngine, config: InsightRulesConfig): InsightEngine {
+  const engine = base.clone();
+
+  for (const ruleId of config.disable ?? []) {
+    engine.unregister(ruleId);
+  }
+
+  for (const definition of config.rules ?? []) {
+    engine.register(createFilterRule(definition));
+  }
+
+  return engine;
+}
+
+function validateConfig(config: unknown): InsightRulesConfig {
+  if (!config || typeof config !== 'object' || Array.isArray(config)) {
+    throw new InsightConfigError('Rules file must contain a JSON object');
+  }
+
+  const { disable, rules } = config as Record<string, unknown>;
+
+  if (disable !== undefined &&
+      (!Array.isArray(disable) || disable.some(ruleId => typeof ruleId !== 'string'))) {
+    throw new InsightConfigError('"disable" must be an array of rule ids');
+  }
+
+  if (rules !== undefined && !Array.isArray(rules)) {
+    throw new InsightConfigError('"rules" must be an array');
+  }
+
+  (rules ?? []).forEach((rule: unknown, index: number) => validateRule(rule, index));
+
+  return config as InsightRulesConfig;
+}
+
+function validateRule(rule: unknown, index: number): void {
+  if (!rule || typeof rule !== 'object') {
+    throw new InsightConfigError(`Rule #${index + 1} must be an object`);
+  }
+
+  const { id, filter, message, suggestion, severity, minOccurrences } = rule as Record<string, unknown>;
+  const name = typeof id === 'string' && id ? id : `#${index + 1}`;
+
+  if (typeof id !== 'string' || !id) {
+    throw new InsightConfigError(`Rule ${name}: "id" is required`);
+  }
+  if (typeof filter !== 'string' || !filter.trim()) {
+    throw new InsightConfigError(`Rule ${name}: "filter" is required`);
+  }
+  if (typeof message !== 'string' || !message) {
+    throw new InsightConfigError(`Rule ${name}: "message" is required`);
+  }
+  if (suggestion !== undefined && typeof suggestion !== 'string') {
+    throw new InsightConfigError(`Rule ${name}: "suggestion" must be a string`);
+  }
+  if (severity !== undefined && !SEVERITIES.includes(severity as InsightSeverity)) {
+    throw new InsightConfigError(`Rule ${name}: "severity" must be one of ${SEVERITIES.join(', ')}`);
+  }
+  if (minOccurrences !== undefined && (typeof minOccurrences !== 'number' || minOccurrences < 1)) {
+    throw new InsightConfigError(`Rule ${name}: "minOccurrences" must be a number >= 1`);
+  }
+}
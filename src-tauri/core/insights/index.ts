@@ -0,0 +1,11 @@
+export { InsightEngine, insightEngine } from './InsightEngine';
+export type { InsightContext, InsightRule } from './InsightEngine';
+export * from './BuiltinRules';
+export {
+  InsightConfigError,
+  applyInsightRulesConfig,
+  createFilterRule,
+  loadInsightRulesConfig
+} from './InsightRuleConfig';
+export type { InsightRuleDefinition, InsightRulesConfig } from './InsightRuleConfig';
+export { registerDefaultRules } from './registry';
\ No newline at end of file
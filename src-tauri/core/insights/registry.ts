@@ -0,0 +1,18 @@
+import { InsightEngine, insightEngine } from './InsightEngine';
+import { BUILTIN_RULES } from './BuiltinRules';
+
+/**
+ * Registra as regras embutidas no motor (idempotente)
+ * @param engine Motor alvo (padrão: singleton global)
+ */
+export function registerDefaultRules(engine: InsightEngine = insightEngine): InsightEngine {
+  const registered = new Set(engine.listRules());
+
+  for (const rule of BUILTIN_RULES) {
+    if (!registered.has(rule.id)) {
+      engine.register(rule);
+    }
+  }
+
+  return engine;
+}
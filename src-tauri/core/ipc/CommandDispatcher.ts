@@ -0,0 +1,569 @@
+import {
+  IPCCommands,
+  IPCErrorCode,
+  IPCResponse,
+  LogAppendedEvent,
+  LOG_APPENDED_EVENT,
+  ParsingProgressEvent,
+  PARSING_PROGRESS_EVENT
+} from '../../../shared/types/ipc.types';
+import { LogEntry, ParsedLog, QueryExecution } from '../../../shared/types/log.types';
+import { ILogParser, ParserOptions, ParsingProgress } from '../../../shared/types/parser.types';
+import { ParserFactory, parserFactory } from '../parsers/base/ParserFactory';
+import { BaseLogParser } from '../parsers/base/BaseLogParser';
+import { registerDefaultParsers } from '../parsers/registry';
+import { LogAnalyzer, logAnalyzer } from '../analyzers/LogAnalyzer';
+import { LogStore, logStore } from '../store/LogStore';
+import { LogSearchEngine, logSearchEngine, SearchResult } from '../search/LogSearchEngine';
+import { exportEntries } from '../export/ExporterFactory';
+import { compileFilter } from '../filters/FilterCompiler';
+import { FilterSyntaxError } from '../filters/FilterParser';
+import { InsightConfigError, loadInsightRulesConfig, applyInsightRulesConfig } from '../insights/InsightRuleConfig';
+import { InsightEngine } from '../insights/InsightEngine';
+import { ThresholdProfileError, thresholdProfiles } from '../thresholds/ThresholdProfiles';
+import { ThresholdSelection } from '../../../shared/types/threshold.types';
+import { LogFollower } from '../follow/LogFollower';
+import { LiveLog } from '../follow/LiveLog';
+import { LineIndexer, lineIndexer } from '../indexing/LineIndexer';
+import { ParallelParser, parallelParser } from '../parallel/ParallelParser';
+import { correlateQueryExecutions } from '../parsers/correlation/QueryCorrelator';
+import { correlateLogs } from '../crosslog/CrossLogCorrelator';
+import { ArchiveError } from '../archive/ArchiveReader';
+import { detectCompression, readArchiveSamples } from '../archive/LogInput';
+import { detectFileEncoding } from '../parsers/utils/LineReader';
+import { decodeText, detectEncoding } from '../parsers/utils/TextEncoding';
+import * as fs from 'fs';
+
+/** Bytes lidos de cada membro para detectar o formato (list_archive) */
+const ARCHIVE_SAMPLE_BYTES = 64 * 1024;
+
+/** Linhas da amostra usadas na detecção (as mesmas 50 de detect_format) */
+const ARCHIVE_SAMPLE_LINES = 50;
+
+/**
+ * Erro com código que vai para IPCResponse.errorCode
+ */
+export class IPCError extends Error {
+  constructor(message: string, public readonly code: IPCErrorCode) {
+    super(message);
+    this.name = 'IPCError';
+  }
+}
+
+export type CommandName = keyof IPCCommands;
+
+/**
+ * Emissor de eventos para o frontend (ex: progresso de parsing)
+ */
+export type EventEmitter = (event: string, payload: unknown) => void;
+
+type CommandHandler<K extends CommandName> = (
+  request: IPCCommands[K]['request'],
+  emit: EventEmitter
+) => Promise<IPCCommands[K]['response']>;
+
+type CommandHandlers = { [K in CommandName]: CommandHandler<K> };
+
+/**
+ * Monta um IPCResponse de sucesso
+ */
+export function createSuccessResponse<T>(data: T): IPCResponse<T> {
+  return { success: true, data, timestamp: Date.now() };
+}
+
+/**
+ * Monta um IPCResponse de erro a partir de qualquer exceção
+ */
+export function createErrorResponse(error: unknown): IPCResponse<never> {
+  const message = error instanceof Error ? error.message : String(error);
+  const errorCode = error instanceof IPCError ? error.code : IPCErrorCode.UNKNOWN;
+
+  return { success: false, error: message, errorCode, timestamp: Date.now() };
+}
+
+/**
+ * Executa os comandos declarados em IPCCommands sobre os parsers e analisadores TypeScript
+ * É o núcleo do processo sidecar chamado pelo backend Tauri
+ */
+export class CommandDispatcher {
+  private operationCounter = 0;
+  private followed = new Map<string, LiveLog>();
+
+  private readonly handlers: CommandHandlers = {
+    parse_log: (request, emit) => this.parseLog(request, emit),
+    analyze_log: async request => {
+      this.assertValidRulesFile(request.config?.rulesFile);
+      this.assertValidThresholds(request.config);
+      return createSuccessResponse(this.analyzer.analyze(await this.getLog(request.logId), request.config));
+    },
+    correlate_logs: async request => createSuccessResponse(correlateLogs(
+      await this.getExecutions(request.appLogId),
+      await this.getExecutions(request.dbLogId),
+      request.options
+    )),
+    detect_format: request => this.detectFormat(request),
+    search_logs: async request => createSuccessResponse(await this.searchLogs(request)),
+    export_log: request => this.exportLog(request),
+    list_logs: async () => createSuccessResponse(this.store.list()),
+    close_log: async request => {
+      this.followed.get(request.logId)?.stop();
+      return createSuccessResponse({ closed: await this.store.close(request.logId) });
+    },
+    follow_log: (request, emit) => this.followLog(request, emit),
+    unfollow_log: async request => createSuccessResponse({ stopped: this.unfollow(request.logId) }),
+    index_log: (request, emit) => this.indexLog(request, emit),
+    read_lines: request => this.readLines(request),
+    list_archive: request => this.listArchive(request)
+  };
+
+  constructor(
+    private readonly factory: ParserFactory = registerDefaultParsers(parserFactory),
+    private readonly analyzer: LogAnalyzer = logAnalyzer,
+    private readonly store: LogStore = logStore,
+    private readonly searchEngine: LogSearchEngine = logSearchEngine,
+    private readonly indexer: LineIndexer = lineIndexer,
+    private readonly parallel: ParallelParser = parallelParser
+  ) {}
+
+  /**
+   * Executa um comando e sempre devolve um IPCResponse (nunca lança)
+   */
+  async dispatch(command: string, request: unknown, emit: EventEmitter): Promise<IPCResponse> {
+    try {
+      if (!this.isCommand(command)) {
+        throw new IPCError(`Unknown command: ${command}`, IPCErrorCode.UNKNOWN_COMMAND);
+      }
+      if (!request || typeof request !== 'object') {
+        throw new IPCError(`Invalid request for ${command}`, IPCErrorCode.INVALID_REQUEST);
+      }
+
+      const handler = this.handlers[command] as CommandHandler<CommandName>;
+      return await handler(request as IPCCommands[CommandName]['request'], emit);
+    } catch (error) {
+      // Pacote inválido, membro inexistente ou não escolhido: erro de quem pediu
+      return createErrorResponse(error instanceof ArchiveError
+        ? new IPCError(error.message, IPCErrorCode.INVALID_REQUEST)
+        : error);
+    }
+  }
+
+  private isCommand(command: string): command is CommandName {
+    return Object.prototype.hasOwnProperty.call(this.handlers, command);
+  }
+
+  private async parseLog(
+    request: IPCCommands['parse_log']['request'],
+    emit: EventEmitter
+  ): Promise<IPCCommands['parse_log']['response']> {
+    this.assertFileExists(request.filePath);
+    this.assertValidFilter(request.options?.filter);
+    this.assertValidThresholds(request.options);
+
+    const parser = await this.detectParser(request.filePath, request.options?.archiveMember);
+
+    const operationId = `parse-${++this.operationCounter}`;
+    const options = normalizeOptions(request.options);
+
+    const onProgress = (progress: ParsingProgress) => {
+      const event: ParsingProgressEvent = {
+        operationId,
+        progress: progress.percentage,
+        processdLines: progress.processedLines,
+        totalLines: progress.totalLines ?? 0,
+        message: `Parsing ${getFileName(request.filePath)}`
+      };
+      emit(PARSING_PROGRESS_EVENT, event);
+    };
+
+    const parsed = options?.parallel && parser instanceof BaseLogParser
+      ? await this.parallel.parse(parser, request.filePath, options, onProgress)
+      : await parser.parse(request.filePath, options, onProgress);
+
+    const logId = await this.store.register(parsed);
+
+    const warnings: string[] = [];
+    if (parsed.metadata.failedLines > 0) {
+      warnings.push(`${parsed.metadata.failedLines} line(s) could not be fully parsed`);
+    }
+
+    return { ...createSuccessResponse(parsed), logId, warnings };
+  }
+
+  /**
+   * Lê o conteúdo atual do arquivo e continua acompanhando-o em segundo plano,
+   * emitindo log-appended a cada lote de linhas novas
+   */
+  private async followLog(
+    request: IPCCommands['follow_log']['request'],
+    emit: EventEmitter
+  ): Promise<IPCCommands['follow_log']['response']> {
+    this.assertFileExists(request.filePath);
+    this.assertValidFilter(request.options?.filter);
+    this.assertValidThresholds(request.options);
+    await this.assertUncompressed(request.filePath, 'follow mode');
+
+    // O follower lê em segundo plano com a instância criada para ele
+    const parser = await this.detectParser(request.filePath);
+    if (!(parser instanceof BaseLogParser)) {
+      throw new IPCError(`Parser ${parser.getName()} does not support follow mode`, IPCErrorCode.UNSUPPORTED_FORMAT);
+    }
+
+    const options = await this.withEncoding(request.filePath, normalizeOptions(request.options));
+    const follower = new LogFollower(parser, request.filePath, options, request.follow);
+    const live = new LiveLog(follower, parser.getName(), request.filePath, options, this.analyzer);
+
+    const parsed = await live.start();
+    const logId = await this.store.register(parsed);
+
+    this.followed.set(logId, live);
+    void this.pumpUpdates(logId, live, emit);
+
+    return { ...createSuccessResponse(parsed), logId };
+  }
+
+  /**
+   * Acrescenta cada atualização ao log no store e avisa o frontend
+   */
+  private async pumpUpdates(logId: string, live: LiveLog, emit: EventEmitter): Promise<void> {
+    try {
+      for await (const update of live.updates()) {
+        // Log fechado enquanto o lote era lido
+        if (!this.store.has(logId)) {
+          live.stop();
+          continue;
+        }
+
+        await this.store.append(logId, update.entries, update.executions);
+
+        const event: LogAppendedEvent = {
+          logId,
+          ...update,
+          totalEntries: this.store.getMetadata(logId).totalLines
+        };
+        emit(LOG_APPENDED_EVENT, event);
+      }
+    } catch (error) {
+      const event: LogAppendedEvent = {
+        logId,
+        entries: [],
+        executions: [],
+        timeline: [],
+        totalEntries: this.store.has(logId) ? this.store.getMetadata(logId).totalLines : 0,
+        error: error instanceof Error ? error.message : String(error)
+      };
+      emit(LOG_APPENDED_EVENT, event);
+    } finally {
+      if (this.followed.get(logId) === live) {
+        this.followed.delete(logId);
+      }
+    }
+  }
+
+  /**
+   * Para de acompanhar um log (as entradas já lidas continuam no store)
+   */
+  private unfollow(logId: string): boolean {
+    const live = this.followed.get(logId);
+    if (!live) {
+      return false;
+    }
+
+    live.stop();
+    this.followed.delete(logId);
+    return true;
+  }
+
+  /**
+   * Obtém o índice de linhas do arquivo (gravado ao lado dele como <arquivo>.lidx)
+   */
+  private async indexLog(
+    request: IPCCommands['index_log']['request'],
+    emit: EventEmitter
+  ): Promise<IPCCommands['index_log']['response']> {
+    const parser = await this.getIndexableParser(request.filePath, request.options);
+    const operationId = `index-${++this.operationCounter}`;
+
+    const result = await this.indexer.open(
+      parser,
+      request.filePath,
+      await this.withEncoding(request.filePath, normalizeOptions(request.options)),
+      progress => {
+        const event: ParsingProgressEvent = {
+          operationId,
+          progress: progress.percentage,
+          processdLines: progress.processedLines,
+          totalLines: 0,
+          message: `Indexing ${getFileName(request.filePath)}`
+        };
+        emit(PARSING_PROGRESS_EVENT, event);
+      },
+      request.rebuild
+    );
+
+    return createSuccessResponse(result);
+  }
+
+  private async readLines(
+    request: IPCCommands['read_lines']['request']
+  ): Promise<IPCCommands['read_lines']['response']> {
+    const parser = await this.getIndexableParser(request.filePath, request.options);
+    this.assertValidFilter(request.options?.filter);
+
+    const at = request.timestamp ? new Date(request.timestamp) : undefined;
+    if (at && Number.isNaN(at.getTime())) {
+      throw new IPCError(`Invalid timestamp: ${request.timestamp}`, IPCErrorCode.INVALID_REQUEST);
+    }
+
+    const options = await this.withEncoding(request.filePath, normalizeOptions(request.options));
+    const { index } = await this.indexer.open(parser, request.filePath, options);
+    const entries = await this.indexer.read(
+      parser,
+      index,
+      { fromLine: request.fromLine, at },
+      request.count,
+      options
+    );
+
+    return createSuccessResponse({ entries, totalLines: index.totalLines });
+  }
+
+  /**
+   * Parser para os comandos que leem o arquivo por posição (índice de linhas)
+   */
+  private async getIndexableParser(filePath: string, options?: ParserOptions): Promise<BaseLogParser> {
+    this.assertFileExists(filePath);
+    this.assertValidThresholds(options);
+    await this.assertUncompressed(filePath, 'indexed access');
+
+    const parser = await this.detectParser(filePath);
+    if (!(parser instanceof BaseLogParser)) {
+      throw new IPCError(`Parser ${parser.getName()} does not support indexed access`, IPCErrorCode.UNSUPPORTED_FORMAT);
+    }
+
+    return parser;
+  }
+
+  private async detectFormat(
+    request: IPCCommands['detect_format']['request']
+  ): Promise<IPCCommands['detect_format']['response']> {
+    this.assertFileExists(request.filePath);
+
+    const result = await this.factory.detectFormat(request.filePath, request.archiveMember);
+    if (!result.canParser || !result.parserName) {
+      throw new IPCError(result.reason || 'No compatible parser found', IPCErrorCode.UNSUPPORTED_FORMAT);
+    }
+
+    return createSuccessResponse({
+      format: result.format || 'unknown',
+      confidence: result.confidence,
+      parserName: result.parserName,
+      encoding: result.encoding
+    });
+  }
+
+  /**
+   * Arquivos de um pacote zip/tar, cada um com o formato detectado pelas primeiras linhas
+   */
+  private async listArchive(
+    request: IPCCommands['list_archive']['request']
+  ): Promise<IPCCommands['list_archive']['response']> {
+    this.assertFileExists(request.filePath);
+
+    const compression = await detectCompression(request.filePath);
+    if (compression !== 'zip' && compression !== 'tar' && compression !== 'tar-gzip') {
+      throw new IPCError(`Not a zip or tar archive: ${request.filePath}`, IPCErrorCode.UNSUPPORTED_FORMAT);
+    }
+
+    const samples = await readArchiveSamples(request.filePath, ARCHIVE_SAMPLE_BYTES);
+    const members = samples.map(({ member, sample }) => {
+      const { encoding, bomLength } = detectEncoding(sample);
+
+      // A última linha da amostra pode ter sido cortada no meio
+      const lines = decodeText(sample.subarray(bomLength), encoding).split('\n').slice(0, ARCHIVE_SAMPLE_LINES);
+      if (sample.length >= ARCHIVE_SAMPLE_BYTES && lines.length > 1) {
+        lines.pop();
+      }
+
+      const result = this.factory.detectFormatFromContent(
+        getFileName(member.name),
+        lines.map(line => line.replace(/\r$/, '')).join('\n')
+      );
+
+      return result.canParser && result.parserName
+        ? {
+          ...member,
+          detection: {
+            format: result.format || 'unknown',
+            confidence: result.confidence,
+            parserName: result.parserName,
+            encoding
+          }
+        }
+        : member;
+    });
+
+    return createSuccessResponse({ compression, members });
+  }
+
+  private async searchLogs(
+    request: IPCCommands['search_logs']['request']
+  ): Promise<SearchResult> {
+    const log = await this.getLog(request.logId);
+
+    if (request.isRegex) {
+      try {
+        new RegExp(request.query);
+      } catch {
+        throw new IPCError(`Invalid regular expression: ${request.query}`, IPCErrorCode.INVALID_REQUEST);
+      }
+    }
+    this.assertValidFilter(request.filter);
+
+    return this.searchEngine.search(log.entries, request, log.queryExecutions);
+  }
+
+  private async exportLog(
+    request: IPCCommands['export_log']['request']
+  ): Promise<IPCCommands['export_log']['response']> {
+    const log = await this.getLog(request.logId);
+
+    if (!['json', 'csv', 'txt'].includes(request.format)) {
+      throw new IPCError(`Unsupported export format: ${request.format}`, IPCErrorCode.INVALID_REQUEST);
+    }
+    this.assertValidFilter(request.filters?.expression);
+
+    // Entradas sem rawLine são remontadas no layout do parser que leu o log
+    const parser = this.factory.createParser(log.metadata.detectedFormat);
+    const formatLine = parser instanceof BaseLogParser ? (entry: LogEntry) => parser.formatLine(entry) : undefined;
+
+    return createSuccessResponse(
+      await exportEntries(log.entries, request.destinationPath, request.format, request.filters, {
+        executions: log.queryExecutions,
+        formatLine
+      })
+    );
+  }
+
+  /**
+   * Detecta o parser do arquivo e cria uma instância só para esta operação
+   * (comandos rodam concorrentemente e o parser guarda o estado do arquivo em leitura)
+   * @throws IPCError (UNSUPPORTED_FORMAT) se nenhum parser for compatível
+   */
+  private async detectParser(filePath: string, archiveMember?: string): Promise<ILogParser> {
+    const detected = await this.factory.getParser(filePath, archiveMember);
+    const parser = detected && this.factory.createParser(detected.getName());
+    if (!parser) {
+      throw new IPCError(`No compatible parser for ${filePath}`, IPCErrorCode.UNSUPPORTED_FORMAT);
+    }
+    return parser;
+  }
+
+  private async getLog(logId: string): Promise<ParsedLog> {
+    if (!this.store.has(logId)) {
+      throw new IPCError(`Log not loaded: ${logId}`, IPCErrorCode.LOG_NOT_FOUND);
+    }
+    return this.store.get(logId);
+  }
+
+  private async getExecutions(logId: string): Promise<QueryExecution[]> {
+    const log = await this.getLog(logId);
+    return log.queryExecutions ?? correlateQueryExecutions(log.entries);
+  }
+
+  /**
+   * Valida a expressão de filtro antes de executar o comando
+   */
+  private assertValidFilter(expression?: string): void {
+    if (!expression || !expression.trim()) {
+      return;
+    }
+
+    try {
+      compileFilter(expression);
+    } catch (error) {
+      if (error instanceof FilterSyntaxError) {
+        throw new IPCError(`Invalid filter: ${error.message}`, IPCErrorCode.INVALID_REQUEST);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Valida o arquivo de regras de insight antes de analisar
+   */
+  private assertValidRulesFile(filePath?: string): void {
+    if (!filePath) {
+      return;
+    }
+
+    try {
+      applyInsightRulesConfig(new InsightEngine(), loadInsightRulesConfig(filePath));
+    } catch (error) {
+      if (error instanceof InsightConfigError) {
+        throw new IPCError(`Invalid rules file: ${error.message}`, IPCErrorCode.INVALID_REQUEST);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Valida o perfil de thresholds e os ajustes antes de executar o comando
+   */
+  private assertValidThresholds(selection?: ThresholdSelection): void {
+    try {
+      thresholdProfiles.resolve(selection);
+    } catch (error) {
+      if (error instanceof ThresholdProfileError) {
+        throw new IPCError(error.message, IPCErrorCode.INVALID_REQUEST);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Opções com o encoding detectado quando não informado: leituras que começam
+   * no meio do arquivo (índice, follow) usam o encoding do início dele
+   */
+  private async withEncoding(filePath: string, options: ParserOptions = {}): Promise<ParserOptions> {
+    return options.encoding ? options : { ...options, encoding: (await detectFileEncoding(filePath)).encoding };
+  }
+
+  /**
+   * Comandos que leem o arquivo por posição ou acompanham o crescimento dele
+   * não funcionam em arquivos comprimidos
+   */
+  private async assertUncompressed(filePath: string, feature: string): Promise<void> {
+    const compression = await detectCompression(filePath);
+    if (compression) {
+      throw new IPCError(`${compression} files do not support ${feature}`, IPCErrorCode.UNSUPPORTED_FORMAT);
+    }
+  }
+
+  private assertFileExists(filePath: string): void {
+    if (!filePath || !fs.existsSync(filePath)) {
+      throw new IPCError(`File not found: ${filePath}`, IPCErrorCode.FILE_NOT_FOUND);
+    }
+  }
+}
+
+/**
+ * Datas chegam como string pelo JSON
+ */
+function normalizeOptions(options?: ParserOptions): ParserOptions | undefined {
+  if (!options?.baseDate && !options?.startDate) {
+    return options;
+  }
+
+  return {
+    ...options,
+    baseDate: options.baseDate ? new Date(options.baseDate) : undefined,
+    startDate: options.startDate ? new Date(options.startDate) : undefined
+  };
+}
+
+/**
+ * Nome do arquivo a partir do caminho (Windows ou POSIX)
+ */
+function getFileName(filePath: string): string {
+  return filePath.split(/[/\\]/).pop() || filePath;
+}
@@ -0,0 +1,7 @@
+export {
+  CommandDispatcher,
+  IPCError,
+  createSuccessResponse,
+  createErrorResponse
+} from './CommandDispatcher';
+export type { CommandName, EventEmitter } from './CommandDispatcher';
\ No newline at end of file
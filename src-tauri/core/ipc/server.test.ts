@@ -0,0 +1,98 @@
+/**
+ * Testes do processo sidecar (server.ts) pelo protocolo de stdin/stdout
+ *
+ * Uso: npm test (compila server.ts e este arquivo com o Vite e roda com node --test)
+ */
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { spawn } from 'child_process';
+import { createInterface } from 'readline';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LogEntry, ParsedLog } from '../../../shared/types/log.types';
+import { IPCResponse } from '../../../shared/types/ipc.types';
+
+/** Entradas de cada log sintético (o bastante para a leitura atravessar vários blocos) */
+const ENTRIES_PER_LOG = 6000;
+
+const SERVER_PATH = new URL('./server.js', import.meta.url);
+
+interface SyntheticLog {
+  filePath: string;
+  pid: string;
+  day: number;
+}
+
+/**
+ * Log .zlg com SQL em várias linhas (o parser segura a entrada entre linhas)
+ * A data vem do nome do arquivo; o PID identifica o arquivo nas entradas
+ */
+function writeSyntheticLog(directory: string, pid: string, day: number): SyntheticLog {
+  const filePath = path.join(directory, `app_2024-05-${String(day).padStart(2, '0')}.zlg`);
+  const lines: string[] = [];
+
+  for (let i = 0; i < ENTRIES_PER_LOG / 2; i++) {
+    const second = 8 * 3600 + i;
+    const time = [Math.floor(second / 3600), Math.floor(second / 60) % 60, second % 60]
+      .map(value => String(value).padStart(2, '0'))
+      .join(':');
+    const prefix = `[${time} <srv01> (Pid: ${pid}) (12.50 mb) ] [ConnIdx: pedido::gravar]`;
+
+    lines.push(`${prefix} SQL: SELECT p.codigo`, '  FROM produto p', `  WHERE p.id = ${i}`);
+    lines.push(`${prefix} Tempo Execução: 0.05 segundo(s)`);
+  }
+
+  fs.writeFileSync(filePath, lines.join('\n') + '\n');
+  return { filePath, pid, day };
+}
+
+/**
+ * Envia as mensagens de uma vez (processadas concorrentemente) e devolve as respostas por id
+ */
+async function sendMessages(messages: object[]): Promise<Map<number, IPCResponse<ParsedLog>>> {
+  const server = spawn(process.execPath, [SERVER_PATH.pathname], { stdio: ['pipe', 'pipe', 'inherit'] });
+  const responses = new Map<number, IPCResponse<ParsedLog>>();
+
+  const output = createInterface({ input: server.stdout, crlfDelay: Infinity });
+  const done = (async () => {
+    for await (const line of output) {
+      const message = JSON.parse(line);
+      if (typeof message.id === 'number') {
+        responses.set(message.id, message.response);
+      }
+    }
+  })();
+
+  server.stdin.end(messages.map(message => JSON.stringify(message)).join('\n') + '\n');
+  await done;
+
+  return responses;
+}
+
+test('parse_log concorrentes não misturam o estado dos arquivos', async () => {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'log-analyzer-test-'));
+
+  try {
+    const logs = [writeSyntheticLog(directory, '1111', 1), writeSyntheticLog(directory, '2222', 20)];
+    const responses = await sendMessages(
+      logs.map((log, id) => ({ id, command: 'parse_log', request: { filePath: log.filePath } }))
+    );
+
+    logs.forEach((log, id) => {
+      const response = responses.get(id);
+      assert.ok(response?.success, response?.error);
+
+      const entries: LogEntry[] = response!.data!.entries;
+      assert.equal(entries.length, ENTRIES_PER_LOG);
+      assert.ok(entries.every(entry => entry.context.processId === log.pid), 'entries from another file');
+      assert.ok(
+        entries.every(entry => new Date(entry.context.fullDate!).getDate() === log.day),
+        'dates from another file'
+      );
+      assert.ok(entries.filter(entry => entry.messageType === 'SQL').every(entry => entry.message.includes('FROM produto')));
+    });
+  } finally {
+    fs.rmSync(directory, { recursive: true, force: true });
+  }
+});
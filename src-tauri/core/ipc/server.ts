@@ -0,0 +1,103 @@
+/**
+ * Ponto de entrada do processo sidecar
+ *
+ * Protocolo (uma mensagem JSON por linha):
+ * - stdin:  { "id": 1, "command": "parse_log", "request": { ... } }
+ * - stdout: { "id": 1, "response": IPCResponse }
+ * - stdout: { "event": "parsing-progress", "payload": ParsingProgressEvent }
+ */
+import * as readline from 'readline';
+import { CommandDispatcher, createErrorResponse, IPCError } from './CommandDispatcher';
+import { IPCErrorCode } from '../../../shared/types/ipc.types';
+import { parserFactory } from '../parsers/base/ParserFactory';
+import { registerDefaultParsers, registerFormatDefinitions } from '../parsers/registry';
+import { getFormatDefinitionSources, loadFormatDefinitions } from '../parsers/formats/FormatDefinition';
+
+interface SidecarRequest {
+  /** null quando a mensagem não traz um id numérico */
+  id: number | null;
+  command: string;
+  request: unknown;
+}
+
+// Formatos declarados em JSON (GenericParser); arquivos inválidos são ignorados e relatados no stderr
+const formats = loadFormatDefinitions(getFormatDefinitionSources());
+formats.errors.forEach(error => process.stderr.write(`${error.message}\n`));
+
+const dispatcher = new CommandDispatcher(
+  registerFormatDefinitions(formats.definitions, registerDefaultParsers(parserFactory))
+);
+
+function write(message: object): void {
+  process.stdout.write(JSON.stringify(message) + '\n');
+}
+
+function emit(event: string, payload: unknown): void {
+  write({ event, payload });
+}
+
+/**
+ * Lê o JSON da mensagem recebida
+ * @throws IPCError (INVALID_REQUEST) se a linha não for um objeto JSON
+ */
+function parseMessage(line: string): Record<string, unknown> {
+  let message: unknown;
+
+  try {
+    message = JSON.parse(line);
+  } catch {
+    throw new IPCError('Malformed sidecar message', IPCErrorCode.INVALID_REQUEST);
+  }
+
+  if (!message || typeof message !== 'object' || Array.isArray(message)) {
+    throw new IPCError('Sidecar message must be a JSON object', IPCErrorCode.INVALID_REQUEST);
+  }
+
+  return message as Record<string, unknown>;
+}
+
+/**
+ * Processa uma mensagem; toda falha (mensagem inválida, dispatch ou
+ * serialização da resposta) vira uma resposta de erro com o id recebido
+ */
+async function handleLine(line: string): Promise<void> {
+  let id: SidecarRequest['id'] = null;
+
+  try {
+    const message = parseMessage(line);
+    id = typeof message.id === 'number' ? message.id : null;
+
+    if (typeof message.command !== 'string') {
+      throw new IPCError('Sidecar message has no command', IPCErrorCode.INVALID_REQUEST);
+    }
+
+    const response = await dispatcher.dispatch(message.command, message.request, emit);
+    write({ id, response });
+  } catch (error) {
+    try {
+      write({ id, response: createErrorResponse(error) });
+    } catch (writeError) {
+      process.stderr.write(`Failed to write response ${id}: ${writeError}\n`);
+    }
+  }
+}
+
+const rl = readline.createInterface({ input: process.stdin, crlfDelay: Infinity });
+
+/** Comandos ainda em andamento; o processo só termina depois deles */
+const pending = new Set<Promise<void>>();
+
+// Comandos são processados concorrentemente; a resposta carrega o id da requisição
+rl.on('line', line => {
+  if (line.trim()) {
+    const handling = handleLine(line).finally(() => pending.delete(handling));
+    pending.add(handling);
+  }
+});
+
+// stdin fechado: responde o que está em andamento e sai depois de esvaziar o stdout
+rl.on('close', () => {
+  void Promise.allSettled(Array.from(pending)).then(() => {
+    process.stdout.write('', () => process.exit(0));
+  });
+});
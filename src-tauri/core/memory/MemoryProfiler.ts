@@ -0,0 +1,270 @@
+import { LogEntry, SQLInfo } from '../../../shared/types/log.types';
+import {
+  MemoryJump,
+  MemoryProfile,
+  MemorySample,
+  MemorySuspect
+} from '../../../shared/types/analysis.types';
+import { getEntryTime } from '../parsers/utils/TimestampInference';
+import { getSQLFingerprint } from '../parsers/utils/SQLFingerprint';
+import { DEFAULT_THRESHOLD_PROFILE } from '../thresholds/ThresholdProfiles';
+
+export interface MemoryProfileOptions {
+  /** Aumento (MB) entre duas linhas do mesmo PID que conta como salto */
+  jumpThresholdMB?: number;
+
+  /** Crescimento (MB) mínimo do início ao fim para suspeita de vazamento */
+  growthThresholdMB?: number;
+
+  /** Fração mínima de aumentos entre as mudanças de valor para considerar o crescimento monotônico */
+  minMonotonicRatio?: number;
+
+  /** Pontos mantidos em MemoryProfile.samples (0 = série completa) */
+  maxSamples?: number;
+}
+
+export interface MemoryProfileResult {
+  profiles: MemoryProfile[];
+  /** Suspeitos ordenados pelo score, do maior para o menor */
+  suspects: MemorySuspect[];
+}
+
+/** Oscilações pequenas (GC, caches) não descaracterizam um vazamento */
+const DEFAULT_MIN_MONOTONIC_RATIO = 0.8;
+
+/** Com poucas mudanças de valor qualquer subida parece monotônica */
+const MIN_GROWTH_SAMPLES = 5;
+
+const DEFAULT_MAX_SAMPLES = 200;
+
+/**
+ * Série de memória ainda em construção para um PID
+ */
+interface ProcessSeries {
+  profile: MemoryProfile;
+  lastEntry: LogEntry;
+  lastSQL?: SQLInfo;
+  increases: number;
+  decreases: number;
+  firstTime?: number;
+  lastTime?: number;
+}
+
+/**
+ * Acompanha a memória (ExecutionContext.memoryMB) de cada PID ao longo do log
+ *
+ * Guarda uma amostra a cada mudança de valor, registra saltos acima de
+ * jumpThresholdMB com a linha, o connectionIndex e a última query que os
+ * precederam, e marca como crescimento os PIDs cuja memória sobe de forma
+ * (quase) monotônica além de growthThresholdMB
+ */
+export class MemoryProfiler {
+  private series = new Map<string, ProcessSeries>();
+
+  constructor(private readonly options: MemoryProfileOptions = {}) {}
+
+  /**
+   * Adiciona uma entrada à série do seu PID
+   */
+  add(entry: LogEntry): void {
+    const { processId, memoryMB } = entry.context;
+    if (!processId || !(memoryMB > 0)) {
+      return;
+    }
+
+    const time = getEntryTime(entry);
+    const current = this.series.get(processId);
+
+    if (!current) {
+      this.series.set(processId, this.createSeries(entry, time));
+      return;
+    }
+
+    const profile = current.profile;
+    const previousMB = profile.endMB;
+
+    if (memoryMB !== previousMB) {
+      if (memoryMB > previousMB) {
+        current.increases++;
+      } else {
+        current.decreases++;
+      }
+
+      profile.samples.push(toSample(entry));
+
+      const deltaMB = memoryMB - previousMB;
+      if (deltaMB >= (this.options.jumpThresholdMB ?? DEFAULT_THRESHOLD_PROFILE.memoryJumpMB)) {
+        profile.jumps.push(this.createJump(current, entry, previousMB));
+      }
+    }
+
+    profile.endMB = memoryMB;
+    profile.minMB = Math.min(profile.minMB, memoryMB);
+    profile.peakMB = Math.max(profile.peakMB, memoryMB);
+    profile.timeRange.end = entry.context.timestamp;
+    profile.lineRange.end = entry.endLineNumber ?? entry.lineNumber;
+
+    if (time !== undefined) {
+      current.firstTime = current.firstTime ?? time;
+      current.lastTime = time;
+    }
+
+    this.remember(current, entry);
+  }
+
+  /**
+   * Finaliza os perfis (na ordem em que os PIDs aparecem) e ranqueia os suspeitos
+   */
+  finish(): MemoryProfileResult {
+    const profiles = Array.from(this.series.values())
+      .map(series => this.finalize(series))
+      .sort((a, b) => a.lineRange.start - b.lineRange.start);
+
+    const suspects: MemorySuspect[] = [];
+
+    for (const profile of profiles) {
+      if (profile.isGrowing) {
+        suspects.push({
+          processId: profile.processId,
+          kind: 'growth',
+          score: profile.growthMB * profile.monotonicRatio
+        });
+      }
+
+      for (const jump of profile.jumps) {
+        suspects.push({ processId: profile.processId, kind: 'jump', score: jump.deltaMB, jump });
+      }
+    }
+
+    suspects.sort((a, b) => b.score - a.score);
+
+    return { profiles, suspects };
+  }
+
+  /**
+   * Descarta o estado acumulado
+   */
+  reset(): void {
+    this.series.clear();
+  }
+
+  private createSeries(entry: LogEntry, time: number | undefined): ProcessSeries {
+    const { processId, memoryMB, timestamp } = entry.context;
+    const series: ProcessSeries = {
+      profile: {
+        processId,
+        startMB: memoryMB,
+        endMB: memoryMB,
+        minMB: memoryMB,
+        peakMB: memoryMB,
+        growthMB: 0,
+        growthRateMBPerMinute: 0,
+        monotonicRatio: 0,
+        isGrowing: false,
+        timeRange: { start: timestamp, end: timestamp },
+        lineRange: { start: entry.lineNumber, end: entry.endLineNumber ?? entry.lineNumber },
+        durationSeconds: 0,
+        sampleCount: 0,
+        samples: [toSample(entry)],
+        jumps: []
+      },
+      lastEntry: entry,
+      increases: 0,
+      decreases: 0,
+      firstTime: time,
+      lastTime: time
+    };
+
+    this.remember(series, entry);
+
+    return series;
+  }
+
+  private remember(series: ProcessSeries, entry: LogEntry): void {
+    series.lastEntry = entry;
+
+    if (entry.sqlInfo?.query || entry.sqlInfo?.decodedQuery) {
+      series.lastSQL = entry.sqlInfo;
+    }
+  }
+
+  private createJump(series: ProcessSeries, entry: LogEntry, fromMB: number): MemoryJump {
+    const previous = series.lastEntry;
+    const sqlInfo = series.lastSQL;
+
+    return {
+      processId: entry.context.processId,
+      lineNumber: entry.lineNumber,
+      timestamp: entry.context.timestamp,
+      fromMB,
+      toMB: entry.context.memoryMB,
+      deltaMB: entry.context.memoryMB - fromMB,
+      precedingLine: previous.endLineNumber ?? previous.lineNumber,
+      callPath: previous.context.connectionIndex || undefined,
+      precedingStatement: sqlInfo ? sqlInfo.query || sqlInfo.decodedQuery : undefined,
+      precedingFingerprint: sqlInfo ? sqlInfo.fingerprint ?? getSQLFingerprint(sqlInfo) : undefined
+    };
+  }
+
+  private finalize(series: ProcessSeries): MemoryProfile {
+    const profile = series.profile;
+    const changes = series.increases + series.decreases;
+
+    profile.growthMB = profile.endMB - profile.startMB;
+    profile.durationSeconds = series.firstTime !== undefined && series.lastTime !== undefined
+      ? Math.max(series.lastTime - series.firstTime, 0)
+      : 0;
+    profile.growthRateMBPerMinute = profile.durationSeconds > 0
+      ? profile.growthMB / (profile.durationSeconds / 60)
+      : 0;
+    profile.monotonicRatio = changes > 0 ? series.increases / changes : 0;
+    profile.sampleCount = profile.samples.length;
+    profile.isGrowing = profile.sampleCount >= MIN_GROWTH_SAMPLES &&
+      profile.growthMB >= (this.options.growthThresholdMB ?? DEFAULT_THRESHOLD_PROFILE.memoryGrowthMB) &&
+      profile.monotonicRatio >= (this.options.minMonotonicRatio ?? DEFAULT_MIN_MONOTONIC_RATIO);
+    profile.samples = downsample(profile.samples, this.options.maxSamples ?? DEFAULT_MAX_SAMPLES);
+
+    return profile;
+  }
+}
+
+/**
+ * Perfil de memória de todos os PIDs de um log
+ */
+export function profileMemory(entries: LogEntry[], options: MemoryProfileOptions = {}): MemoryProfileResult {
+  const profiler = new MemoryProfiler(options);
+
+  for (const entry of entries) {
+    profiler.add(entry);
+  }
+
+  return profiler.finish();
+}
+
+function toSample(entry: LogEntry): MemorySample {
+  return {
+    lineNumber: entry.lineNumber,
+    timestamp: entry.context.timestamp,
+    memoryMB: entry.context.memoryMB
+  };
+}
+
+/**
+ * Reduz a série a maxSamples pontos em intervalos regulares,
+ * mantendo sempre o primeiro, o último e o pico
+ */
+function downsample(samples: MemorySample[], maxSamples: number): MemorySample[] {
+  if (maxSamples <= 0 || samples.length <= maxSamples) {
+    return samples;
+  }
+
+  const peak = samples.reduce((max, sample) => sample.memoryMB > max.memoryMB ? sample : max);
+  const step = (samples.length - 1) / Math.max(maxSamples - 2, 1);
+  const kept = new Set<MemorySample>([samples[0], samples[samples.length - 1], peak]);
+
+  for (let index = step; kept.size < maxSamples && index < samples.length - 1; index += step) {
+    kept.add(samples[Math.round(index)]);
+  }
+
+  return samples.filter(sample => kept.has(sample));
+}
@@ -0,0 +1,2 @@
+export { MemoryProfiler, profileMemory } from './MemoryProfiler';
+export type { MemoryProfileOptions, MemoryProfileResult } from './MemoryProfiler';
\ No newline at end of file
@@ -0,0 +1,336 @@
+import { LogEntry, ParsedLog } from '../../../shared/types/log.types';
+import { LogEncoding, ParserOptions, ParsingProgress } from '../../../shared/types/parser.types';
+import { BaseLogParser } from '../parsers/base/BaseLogParser';
+import { GenericParser } from '../parsers/implementations/GenericParser';
+import { FormatDefinition } from '../parsers/formats/FormatDefinition';
+import { detectFileEncoding, readLines } from '../parsers/utils/LineReader';
+import {
+  OUT_OF_ORDER_ISSUE,
+  resolveBaseDate,
+  shiftEntryDates,
+  TimestampInferrer
+} from '../parsers/utils/TimestampInference';
+import { createOptionsPredicate, selectEntries } from '../filters/FilterCompiler';
+import { detectCompression } from '../archive/LogInput';
+import { Worker } from 'worker_threads';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+/** Tamanho padrão de cada parte do arquivo */
+const DEFAULT_CHUNK_BYTES = 16 * 1024 * 1024;
+
+/**
+ * Parte do arquivo lida por um worker: [start, end) em bytes,
+ * sempre começando no início de uma entrada
+ */
+export interface FileChunk {
+  index: number;
+  start: number;
+  end: number;
+}
+
+/**
+ * Mensagem para o worker
+ */
+export interface ChunkTask {
+  filePath: string;
+  parserName: string;
+  options: ParserOptions;
+  chunk: FileChunk;
+
+  /** Definição do GenericParser, recriado no worker (que não carrega as definições) */
+  formatDefinition?: FormatDefinition;
+}
+
+/**
+ * Resposta do worker (linhas numeradas a partir de 1 dentro da parte)
+ */
+export interface ChunkResult {
+  index: number;
+  entries?: LogEntry[];
+  lineCount?: number;
+  error?: string;
+}
+
+export interface ParallelParserOptions {
+  /** Workers simultâneos (padrão: núcleos - 1, mínimo 1) */
+  workers?: number;
+
+  /** Tamanho aproximado de cada parte */
+  chunkBytes?: number;
+
+  /**
+   * Script do worker (padrão: LOG_ANALYZER_WORKER ou parseWorker.js
+   * ao lado do script em execução, como no sidecar empacotado)
+   */
+  workerScript?: string;
+}
+
+/**
+ * Divide o arquivo em partes de ~chunkBytes que começam no início de uma entrada
+ * (uma linha de continuação de SQL nunca fica separada da sua entrada)
+ */
+export async function planChunks(
+  parser: BaseLogParser,
+  filePath: string,
+  chunkBytes: number = DEFAULT_CHUNK_BYTES,
+  encoding: LogEncoding = 'utf8'
+): Promise<FileChunk[]> {
+  const { size } = await fs.promises.stat(filePath);
+  const boundaries = [0];
+  let target = chunkBytes;
+
+  while (target < size) {
+    const boundary = await findEntryStart(parser, filePath, target, encoding);
+    if (boundary === undefined) {
+      break;
+    }
+
+    boundaries.push(boundary);
+    target = boundary + chunkBytes;
+  }
+
+  boundaries.push(size);
+
+  return boundaries.slice(0, -1).map((start, index) => ({ index, start, end: boundaries[index + 1] }));
+}
+
+/**
+ * Início da primeira entrada depois da posição
+ * A linha em que a posição cai é descartada (pode estar pela metade)
+ */
+async function findEntryStart(
+  parser: BaseLogParser,
+  filePath: string,
+  from: number,
+  encoding: LogEncoding
+): Promise<number | undefined> {
+  let isFirstLine = true;
+
+  for await (const line of readLines(filePath, { encoding, start: from })) {
+    if (isFirstLine) {
+      isFirstLine = false;
+      continue;
+    }
+    if (line.text.trim() && parser.isEntryStart(line.text)) {
+      return line.byteOffset;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Parsing de arquivos muito grandes em worker threads
+ *
+ * O arquivo é dividido em partes que começam no início de uma entrada; cada
+ * worker lê suas partes com o mesmo parser (parseStream) e o resultado é
+ * juntado na ordem do arquivo. Na junção, as linhas são renumeradas e os
+ * timestamps inferidos de novo em sequência, já que cada worker só conhece
+ * a própria parte (virada de dia e linhas fora de ordem)
+ */
+export class ParallelParser {
+  constructor(private readonly options: ParallelParserOptions = {}) {}
+
+  /**
+   * Mesmo resultado de parser.parse, lido em paralelo
+   * Arquivos com uma única parte, maxLines ou startOffset usam o caminho sequencial,
+   * assim como arquivos comprimidos e pacotes (não dá para começar a ler no meio deles)
+   * @throws FilterSyntaxError se o filtro das opções for inválido
+   */
+  async parse(
+    parser: BaseLogParser,
+    filePath: string,
+    options: ParserOptions = {},
+    onProgress?: (progress: ParsingProgress) => void
+  ): Promise<ParsedLog> {
+    const startTime = Date.now();
+    const predicate = createOptionsPredicate(options);
+
+    if (options.maxLines || options.startOffset || options.archiveMember || await detectCompression(filePath)) {
+      return parser.parse(filePath, options, onProgress);
+    }
+
+    const { size } = await fs.promises.stat(filePath);
+    const chunkBytes = options.parallel?.chunkBytes ?? this.options.chunkBytes ?? DEFAULT_CHUNK_BYTES;
+    // Detectado uma vez para todas as partes (cada uma começa no meio do arquivo)
+    const encoding = options.encoding ?? (await detectFileEncoding(filePath)).encoding;
+    const chunks = await planChunks(parser, filePath, chunkBytes, encoding);
+
+    if (chunks.length < 2) {
+      return parser.parse(filePath, options, onProgress);
+    }
+
+    // Filtro aplicado só na junção, depois dos timestamps corrigidos
+    const workerOptions: ParserOptions = {
+      ...options,
+      encoding,
+      filter: undefined,
+      filters: undefined,
+      parallel: undefined
+    };
+
+    const workerCount = Math.min(
+      options.parallel?.workers ?? this.options.workers ?? Math.max(os.cpus().length - 1, 1),
+      chunks.length
+    );
+
+    const task = {
+      parserName: parser.getName(),
+      filePath,
+      options: workerOptions,
+      formatDefinition: parser instanceof GenericParser ? parser.getDefinition() : undefined
+    };
+    const results = await this.runChunks(task, chunks, workerCount, (processedBytes, processedChunks) => {
+      const elapsedMs = Date.now() - startTime;
+      const percentage = Math.min((processedBytes / Math.max(size, 1)) * 100, 100);
+
+      onProgress?.({
+        processedLines: processedChunks,
+        totalLines: chunks.length,
+        percentage,
+        processesBytes: processedBytes,
+        totalBytes: size,
+        elapsedMs,
+        estimatedReaminingMs: percentage > 0 ? (elapsedMs / percentage) * (100 - percentage) : undefined
+      });
+    });
+
+    const baseDate = resolveBaseDate(filePath, options.baseDate);
+    const inferrer = new TimestampInferrer(baseDate);
+    const entries: LogEntry[] = [];
+    let lineOffset = 0;
+
+    for (const result of results) {
+      for (const entry of result.entries ?? []) {
+        entry.lineNumber += lineOffset;
+        if (entry.endLineNumber !== undefined) {
+          entry.endLineNumber += lineOffset;
+        }
+
+        if (!parser.hasFullDates()) {
+          reinferTimestamp(entry, inferrer, options.baseDate);
+        }
+
+        entries.push(entry);
+      }
+
+      lineOffset += result.lineCount ?? 0;
+    }
+
+    shiftEntryDates(entries, -inferrer.settleMtimeDays());
+
+    const selected = predicate ? selectEntries(entries, predicate) : entries;
+    const dateSource = parser.hasFullDates() ? 'log-line' : inferrer.source;
+    return parser.buildParsedLog(filePath, selected, { ...options, encoding }, size, startTime, dateSource);
+  }
+
+  /**
+   * Distribui as partes entre os workers e devolve os resultados na ordem do arquivo
+   */
+  private runChunks(
+    task: Omit<ChunkTask, 'chunk'>,
+    chunks: FileChunk[],
+    workerCount: number,
+    onChunkDone: (processedBytes: number, processedChunks: number) => void
+  ): Promise<ChunkResult[]> {
+    const results: ChunkResult[] = new Array(chunks.length);
+    const workers: Worker[] = [];
+    let nextChunk = 0;
+    let processedChunks = 0;
+    let processedBytes = 0;
+    let settled = false;
+
+    return new Promise<ChunkResult[]>((resolve, reject) => {
+      const finish = (error?: Error) => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+
+        for (const worker of workers) {
+          void worker.terminate();
+        }
+        if (error) {
+          reject(error);
+        } else {
+          resolve(results);
+        }
+      };
+
+      const assignNext = (worker: Worker) => {
+        if (nextChunk >= chunks.length) {
+          return;
+        }
+
+        const message: ChunkTask = { ...task, chunk: chunks[nextChunk++] };
+        worker.postMessage(message);
+      };
+
+      for (let i = 0; i < Math.max(workerCount, 1); i++) {
+        const worker = new Worker(this.resolveWorkerScript());
+        workers.push(worker);
+
+        worker.on('message', (result: ChunkResult) => {
+          if (result.error) {
+            finish(new Error(`Chunk ${result.index} failed: ${result.error}`));
+            return;
+          }
+
+          const chunk = chunks[result.index];
+          results[result.index] = result;
+          processedChunks++;
+          processedBytes += chunk.end - chunk.start;
+          onChunkDone(processedBytes, processedChunks);
+
+          if (processedChunks === chunks.length) {
+            finish();
+          } else {
+            assignNext(worker);
+          }
+        });
+        worker.on('error', error => finish(error));
+        worker.on('exit', code => {
+          if (code !== 0) {
+            finish(new Error(`Parse worker exited with code ${code}`));
+          }
+        });
+
+        assignNext(worker);
+      }
+    });
+  }
+
+  private resolveWorkerScript(): string {
+    return this.options.workerScript ??
+      process.env.LOG_ANALYZER_WORKER ??
+      path.join(path.dirname(process.argv[1] ?? '.'), 'parseWorker.js');
+  }
+}
+
+/**
+ * Refaz a inferência do timestamp na ordem do arquivo, substituindo a data
+ * e o aviso de linha fora de ordem calculados pelo worker
+ */
+function reinferTimestamp(entry: LogEntry, inferrer: TimestampInferrer, fallbackDate?: Date): void {
+  const inferred = inferrer.infer(entry.context.timestamp, fallbackDate);
+
+  if (inferred.fullDate) {
+    entry.context.fullDate = inferred.fullDate;
+  }
+
+  const flaggedByWorker = entry.parsingIssues?.includes(OUT_OF_ORDER_ISSUE) ?? false;
+  if (flaggedByWorker === inferred.outOfOrder) {
+    return;
+  }
+
+  entry.parsingIssues = inferred.outOfOrder
+    ? [...(entry.parsingIssues ?? []), OUT_OF_ORDER_ISSUE]
+    : entry.parsingIssues!.filter(issue => issue !== OUT_OF_ORDER_ISSUE);
+}
+
+/**
+ * Instância singleton global do parser paralelo
+ */
+export const parallelParser = new ParallelParser();
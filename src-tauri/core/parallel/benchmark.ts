@@ -0,0 +1,159 @@
+/**
+ * Benchmark do parsing: sequencial (BaseLogParser.parse) x paralelo (ParallelParser)
+ *
+ * Uso: npm run bench:parse -- [arquivo.zlg] [workers] [chunkMB]
+ * Sem arquivo, gera um log sintético de ~64 MB no diretório temporário
+ *
+ * Além do throughput, confere se os dois caminhos produzem as mesmas entradas
+ * (quantidade, numeração de linhas, datas e SQL multi-linha nas bordas das partes)
+ */
+import { ParsedLog } from '../../../shared/types/log.types';
+import { ZlgParser } from '../parsers/implementations/ZlgParser';
+import { ParallelParser } from './ParallelParser';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+const SYNTHETIC_BYTES = 64 * 1024 * 1024;
+const BYTES_PER_MB = 1024 * 1024;
+
+interface BenchmarkRun {
+  mode: string;
+  durationMs: number;
+  entries: number;
+}
+
+/**
+ * Log .zlg sintético com SQL em várias linhas, binds e virada de dia
+ */
+async function writeSyntheticLog(filePath: string, targetBytes: number): Promise<void> {
+  const stream = fs.createWriteStream(filePath, { encoding: 'utf8' });
+  let written = 0;
+  let second = 22 * 3600;
+  let line = 0;
+
+  const pad = (value: number) => String(value).padStart(2, '0');
+
+  while (written < targetBytes) {
+    second = (second + (line % 3 === 0 ? 1 : 0)) % 86400;
+    const time = `${pad(Math.floor(second / 3600))}:${pad(Math.floor(second / 60) % 60)}:${pad(second % 60)}`;
+    const pid = 1000 + (line % 8);
+    const prefix = `[${time} <srv01> (Pid: ${pid}) (${(12 + (line % 50) / 10).toFixed(2)} mb) ] [ConnIdx: pedido::gravar]`;
+
+    let chunk: string;
+    switch (line % 5) {
+      case 0:
+        chunk = `${prefix} SQL: SELECT p.codigo, p.descricao\n  FROM produto p\n  WHERE p.id = ${line}\n`;
+        break;
+      case 1:
+        chunk = `${prefix} Tempo Execução: 0.0${line % 9} segundo(s)\n`;
+        break;
+      case 2:
+        chunk = `${prefix} Registros retornados: ${line % 200}\n`;
+        break;
+      case 3:
+        chunk = `${prefix} Operação concluída para o pedido ${line}\n`;
+        break;
+      default:
+        chunk = `${prefix} Erro ao gravar pedido ${line}: ORA-00001 unique constraint violated\n`;
+    }
+
+    if (!stream.write(chunk)) {
+      await new Promise<void>(resolve => stream.once('drain', () => resolve()));
+    }
+    written += Buffer.byteLength(chunk);
+    line++;
+  }
+
+  await new Promise<void>(resolve => stream.end(() => resolve()));
+}
+
+async function measure(mode: string, run: () => Promise<ParsedLog>): Promise<{ run: BenchmarkRun; log: ParsedLog }> {
+  const start = process.hrtime.bigint();
+  const log = await run();
+  const durationMs = Number(process.hrtime.bigint() - start) / 1e6;
+
+  return { run: { mode, durationMs, entries: log.entries.length }, log };
+}
+
+function compare(sequential: ParsedLog, parallel: ParsedLog): string[] {
+  const problems: string[] = [];
+
+  if (sequential.entries.length !== parallel.entries.length) {
+    problems.push(`entry count differs: ${sequential.entries.length} x ${parallel.entries.length}`);
+    return problems;
+  }
+
+  for (let i = 0; i < sequential.entries.length && problems.length < 5; i++) {
+    const a = sequential.entries[i];
+    const b = parallel.entries[i];
+
+    if (a.lineNumber !== b.lineNumber || a.endLineNumber !== b.endLineNumber ||
+        a.byteOffset !== b.byteOffset || a.message !== b.message ||
+        a.context.fullDate?.getTime() !== b.context.fullDate?.getTime()) {
+      problems.push(`entry #${i} differs (line ${a.lineNumber} x ${b.lineNumber})`);
+    }
+  }
+
+  if ((sequential.queryExecutions?.length ?? 0) !== (parallel.queryExecutions?.length ?? 0)) {
+    problems.push('query execution count differs');
+  }
+
+  return problems;
+}
+
+function report(runs: BenchmarkRun[], fileBytes: number): void {
+  const baseline = runs[0].durationMs;
+
+  for (const run of runs) {
+    const seconds = run.durationMs / 1000;
+    console.log(
+      `${run.mode.padEnd(24)} ${run.durationMs.toFixed(0).padStart(8)} ms  ` +
+      `${(fileBytes / BYTES_PER_MB / seconds).toFixed(1).padStart(7)} MB/s  ` +
+      `${Math.round(run.entries / seconds).toString().padStart(9)} entries/s  ` +
+      `x${(baseline / run.durationMs).toFixed(2)}`
+    );
+  }
+}
+
+async function main(): Promise<void> {
+  const [fileArg, workersArg, chunkArg] = process.argv.slice(2);
+  const workers = workersArg ? Number(workersArg) : Math.max(os.cpus().length - 1, 1);
+  const chunkBytes = (chunkArg ? Number(chunkArg) : 16) * BYTES_PER_MB;
+
+  let filePath = fileArg;
+  if (!filePath) {
+    filePath = path.join(os.tmpdir(), 'log-analyzer-bench_2024-05-01.zlg');
+    console.log(`Generating ${SYNTHETIC_BYTES / BYTES_PER_MB} MB synthetic log at ${filePath}`);
+    await writeSyntheticLog(filePath, SYNTHETIC_BYTES);
+  }
+
+  const fileBytes = (await fs.promises.stat(filePath)).size;
+  console.log(`File: ${filePath} (${(fileBytes / BYTES_PER_MB).toFixed(1)} MB), ${workers} worker(s), ${chunkBytes / BYTES_PER_MB} MB chunks\n`);
+
+  const sequential = await measure('sequential', () => new ZlgParser().parse(filePath));
+  const parallel = await measure(
+    `parallel (${workers} workers)`,
+    () => new ParallelParser({ workers, chunkBytes }).parse(new ZlgParser(), filePath)
+  );
+
+  report([sequential.run, parallel.run], fileBytes);
+
+  const problems = compare(sequential.log, parallel.log);
+  if (problems.length > 0) {
+    console.error('\nResults differ:');
+    problems.forEach(problem => console.error(`  ${problem}`));
+    process.exitCode = 1;
+  } else {
+    console.log('\nResults match');
+  }
+
+  if (!fileArg) {
+    await fs.promises.rm(filePath, { force: true });
+  }
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+});
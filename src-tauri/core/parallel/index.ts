@@ -0,0 +1,2 @@
+export { ParallelParser, parallelParser, planChunks } from './ParallelParser';
+export type { ChunkResult, ChunkTask, FileChunk, ParallelParserOptions } from './ParallelParser';
\ No newline at end of file
@@ -0,0 +1,48 @@
+/**
+ * Worker do parsing paralelo (ver ParallelParser)
+ *
+ * Protocolo: recebe um ChunkTask por mensagem e responde um ChunkResult
+ * com as entradas da parte, numeradas a partir da linha 1 da parte
+ */
+import { parentPort } from 'worker_threads';
+import { ParserFactory } from '../parsers/base/ParserFactory';
+import { BaseLogParser } from '../parsers/base/BaseLogParser';
+import { registerDefaultParsers, registerFormatDefinitions } from '../parsers/registry';
+import type { ChunkResult, ChunkTask } from './ParallelParser';
+import { LogEntry } from '../../../shared/types/log.types';
+
+const factory = registerDefaultParsers(new ParserFactory());
+
+async function parseChunk({ filePath, parserName, options, chunk, formatDefinition }: ChunkTask): Promise<ChunkResult> {
+  if (formatDefinition && !factory.getParserByName(parserName)) {
+    registerFormatDefinitions([formatDefinition], factory);
+  }
+
+  const parser = factory.createParser(parserName);
+  if (!(parser instanceof BaseLogParser)) {
+    return { index: chunk.index, error: `Parser not available in worker: ${parserName}` };
+  }
+
+  const entries: LogEntry[] = [];
+  const stream = parser.parseStream(filePath, {
+    ...options,
+    startOffset: chunk.start,
+    endOffset: chunk.end,
+    startLine: 1
+  });
+
+  for await (const entry of stream) {
+    entries.push(entry);
+  }
+
+  return { index: chunk.index, entries, lineCount: parser.getReadPosition().lineNumber };
+}
+
+parentPort?.on('message', (task: ChunkTask) => {
+  parseChunk(task)
+    .catch((error): ChunkResult => ({
+      index: task.chunk.index,
+      error: error instanceof Error ? error.message : String(error)
+    }))
+    .then(result => parentPort!.postMessage(result));
+});
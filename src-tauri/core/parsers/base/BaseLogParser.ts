@@ -7,11 +7,23 @@ import {
 import { 
   ParsedLog, 
   LogEntry, 
-  LogFileMetadata 
+  LogDateSource,
+  LogFileMetadata,
+  SQLQueryType
 } from '../../../../shared/types/log.types';
-import * as fs from 'fs';
+import { correlateQueryExecutions } from '../correlation/QueryCorrelator';
+import { detectQueryType, extractTablesFromSQL } from '../utils/ParserUtils';
+import { analyzeSQL } from '../utils/SQLAnalyzer';
+import { resolveBaseDate, shiftEntryDates, TimestampInferrer } from '../utils/TimestampInference';
+import { OpenedLogInput, readLines } from '../utils/LineReader';
+import { createOptionsPredicate, selectEntries } from '../../filters/FilterCompiler';
+import {
+  DEFAULT_THRESHOLD_PROFILE,
+  matchesKeyword,
+  thresholdProfiles
+} from '../../thresholds/ThresholdProfiles';
+import { ThresholdProfile } from '../../../../shared/types/threshold.types';
 import * as path from 'path';
-import * as readline from 'readline';
 
 /**
  * Classe abstrata base para todos os parsers
@@ -24,6 +36,32 @@ export abstract class BaseLogParser implements ILogParser {
   parseStram(filePath: string, options?: ParserOptions): AsyncIterableIterator<LogEntry> {
     throw new Error('Method not implemented.');
   }
+  /**
+   * Completa os timestamps HH:MM:SS; recriado a cada arquivo (beginFile) com a data base dele
+   */
+  protected timestampInferrer = new TimestampInferrer();
+
+  /**
+   * Limites de severidade e tags; resolvidos a cada arquivo (beginFile) a partir das opções
+   */
+  protected thresholds: ThresholdProfile = DEFAULT_THRESHOLD_PROFILE;
+
+  /**
+   * Posição (bytes) logo após a última linha lida por parseStream
+   */
+  protected bytesRead = 0;
+
+  /**
+   * Número da última linha lida por parseStream
+   */
+  protected lastLineNumber = 0;
+
+  /**
+   * Conteúdo aberto pela última leitura de parseStream (nome, tamanho descomprimido,
+   * compressão e encoding)
+   */
+  protected inputInfo?: OpenedLogInput;
+
   // Métodos abstratos que cada parser específico deve implementar
   abstract getName(): string;
   abstract getSupportedFormats(): string[];
@@ -33,6 +71,8 @@ export abstract class BaseLogParser implements ILogParser {
   /**
    * Parse completo do arquivo
    * Implementação padrão que usa parseStream internamente
+   * O filtro é aplicado no fim, com as execuções correlacionadas (selectEntries)
+   * @throws FilterSyntaxError se o filtro das opções for inválido
    */
   async parse(
     filePath: string,
@@ -40,27 +80,30 @@ export abstract class BaseLogParser implements ILogParser {
     onProgress?: (progress: ParsingProgress) => void
   ): Promise<ParsedLog> {
     const startTime = Date.now();
+    const predicate = createOptionsPredicate(options);
     const entries: LogEntry[] = [];
-    
-    // Obter metadados do arquivo
-    const stats = await fs.promises.stat(filePath);
-    const totalBytes = stats.size;
+    const startOffset = options.startOffset ?? 0;
     let processedBytes = 0;
     let processedLines = 0;
-    let failedLines = 0;
 
     // Aplicar limite de linhas se especificado
     const maxLines = options.maxLines || Infinity;
 
     // Iterar pelo stream
-    for await (const entry of this.parseStream(filePath, options)) {
+    for await (const entry of this.parseStream(filePath, { ...options, filter: undefined, filters: undefined })) {
       entries.push(entry);
       processedLines++;
+      processedBytes = this.bytesRead - startOffset;
+
+      // Tamanho do conteúdo descomprimido, conhecido ao abrir o arquivo
+      const totalBytes = this.inputInfo?.size ?? 0;
       
       // Emitir progresso
       if (onProgress && processedLines % 100 === 0) {
         const elapsedMs = Date.now() - startTime;
-        const percentage = Math.min((processedLines / maxLines) * 100, 100);
+        const percentage = maxLines === Infinity
+          ? Math.min((processedBytes / Math.max(totalBytes - startOffset, 1)) * 100, 100)
+          : Math.min((processedLines / maxLines) * 100, 100);
         
         onProgress({
           processedLines,
@@ -81,20 +124,49 @@ export abstract class BaseLogParser implements ILogParser {
       }
     }
 
+    // Só com o arquivo lido até o fim a última linha corresponde ao mtime
+    if (!options.endOffset && this.bytesRead >= (this.inputInfo?.size ?? 0)) {
+      this.settleInferredDates(entries);
+    }
+
+    const selected = predicate ? selectEntries(entries, predicate) : entries;
+    const parsed = this.buildParsedLog(filePath, selected, options, this.inputInfo?.size ?? 0, startTime);
+
+    if (this.inputInfo?.compression) {
+      parsed.metadata.compression = this.inputInfo.compression;
+    }
+
+    return parsed;
+  }
+
+  /**
+   * Monta o ParsedLog (metadados e execuções correlacionadas) a partir das entradas lidas
+   * Usado por parse e pelo parsing paralelo, que lê o arquivo em partes
+   * @param dateSource Origem da data base (padrão: a da última leitura deste parser)
+   */
+  buildParsedLog(
+    filePath: string,
+    entries: LogEntry[],
+    options: ParserOptions,
+    totalBytes: number,
+    startTime: number,
+    dateSource: LogDateSource | undefined = this.hasFullDates() ? 'log-line' : this.timestampInferrer.source
+  ): ParsedLog {
     // Contar linhas com problemas
-    failedLines = entries.filter(e => e.parsingIssues && e.parsingIssues.length > 0).length;
+    const failedLines = entries.filter(e => e.parsingIssues && e.parsingIssues.length > 0).length;
 
     // Construir metadados
     const metadata: LogFileMetadata = {
       fileName: path.basename(filePath),
       filePath,
       fileSizeBytes: totalBytes,
-      totalLines: processedLines,
-      parsedLines: processedLines - failedLines,
+      totalLines: entries.length,
+      parsedLines: entries.length - failedLines,
       failedLines,
       uniqueSessions: this.countUniqueSessions(entries),
       detectedFormat: this.getName(),
-      encoding: options.encoding || 'utf8'
+      // Sem encoding nas opções, o detectado na leitura
+      encoding: options.encoding || this.inputInfo?.encoding || 'utf8'
     };
 
     // Adicionar range de datas se disponível
@@ -104,16 +176,19 @@ export abstract class BaseLogParser implements ILogParser {
         .filter((d): d is Date => d !== undefined);
       
       if (dates.length > 0) {
+        const times = dates.map(d => d.getTime());
         metadata.dateRange = {
-          start: new Date(Math.min(...dates.map(d => d.getTime()))),
-          end: new Date(Math.max(...dates.map(d => d.getTime())))
+          start: new Date(times.reduce((min, time) => Math.min(min, time))),
+          end: new Date(times.reduce((max, time) => Math.max(max, time)))
         };
+        metadata.dateSource = dateSource;
       }
     }
 
     return {
       metadata,
       entries,
+      queryExecutions: correlateQueryExecutions(entries),
       parsedAt: new Date(),
       parsingDurationMs: Date.now() - startTime
     };
@@ -121,101 +196,180 @@ export abstract class BaseLogParser implements ILogParser {
 
   /**
    * Parse em streaming - implementação padrão linha por linha
+   * O filtro é avaliado em cada entrada sozinha: campos sql.* e table só casam
+   * na linha que os traz (parse avalia com as execuções correlacionadas)
    */
   async* parseStream(
     filePath: string,
     options: ParserOptions = {}
   ): AsyncIterableIterator<LogEntry> {
-    const fileStream = fs.createReadStream(filePath, {
-      encoding: options.encoding || 'utf8'
-    });
-
-    const rl = readline.createInterface({
-      input: fileStream,
-      crlfDelay: Infinity
+    // Compilado uma vez; lança FilterSyntaxError antes de começar a leitura
+    const predicate = createOptionsPredicate(options);
+    this.inputInfo = undefined;
+
+    // A data base vem do nome do conteúdo (app.zlg.gz -> app.zlg, ou o membro do pacote)
+    const lines = readLines(filePath, {
+      encoding: options.encoding,
+      start: options.startOffset,
+      end: options.endOffset,
+      archiveMember: options.archiveMember,
+      onOpen: input => {
+        this.inputInfo = input;
+        this.beginFile(filePath, options, input.name);
+      }
     });
 
-    let lineNumber = 0;
+    let lineNumber = (options.startLine ?? 1) - 1;
+    let linesRead = 0;
     const maxLines = options.maxLines || Infinity;
 
-    try {
-      for await (const line of rl) {
-        lineNumber++;
-        
-        // Verificar limite
-        if (lineNumber > maxLines) {
-          break;
-        }
+    // Início das linhas ainda não emitidas (a entrada pendente pode ter começado nelas)
+    const lineOffsets = new Map<number, number>();
 
-        // Pular linhas vazias
-        if (!line.trim()) {
-          continue;
-        }
+    this.bytesRead = options.startOffset ?? 0;
+    this.lastLineNumber = lineNumber;
 
-        // Parsear linha
-        const entry = this.parseLine(line, lineNumber, options);
-        
-        if (entry) {
-          // Aplicar filtros se houver
-          if (this.shouldIncludeEntry(entry, options.filters)) {
-            yield entry;
-          }
+    for await (const { text, byteOffset, byteLength } of lines) {
+      lineNumber++;
+      linesRead++;
+
+      // Verificar limite
+      if (linesRead > maxLines) {
+        break;
+      }
+
+      this.bytesRead = byteOffset + byteLength;
+      this.lastLineNumber = lineNumber;
+
+      // Pular linhas vazias (exceto as que o parser quer, ex: dentro de um SQL multi-linha)
+      if (!text.trim() && !this.acceptsBlankLine()) {
+        continue;
+      }
+
+      lineOffsets.set(lineNumber, byteOffset);
+
+      // Parsear linha
+      const ready = this.processLine(text, lineNumber, options);
+
+      for (const entry of ready) {
+        entry.byteOffset = lineOffsets.get(entry.lineNumber);
+
+        // Aplicar filtros se houver
+        if (!predicate || predicate(entry)) {
+          yield entry;
         }
       }
-    } finally {
-      fileStream.close();
+
+      if (ready.length > 0) {
+        const current = lineOffsets.get(lineNumber)!;
+        lineOffsets.clear();
+        lineOffsets.set(lineNumber, current);
+      }
+    }
+
+    // Entradas que ainda estavam aguardando linhas de continuação
+    for (const entry of this.flushPendingEntries(options)) {
+      entry.byteOffset = lineOffsets.get(entry.lineNumber);
+
+      if (!predicate || predicate(entry)) {
+        yield entry;
+      }
     }
   }
 
   /**
-   * Verifica se uma entrada deve ser incluída baseado nos filtros
+   * Prepara o parser para ler um arquivo do início: descarta o estado deixado
+   * por linhas anteriores e resolve os limites e a data base do arquivo
+   * Chamado por parseStream e pelo modo follow a cada arquivo (ou rotação)
+   * @param fileName Nome de onde extrair a data (padrão: o do arquivo; em pacotes, o do membro)
+   * @throws ThresholdProfileError para perfil inexistente ou ajuste inválido
    */
-  protected shouldIncludeEntry(entry: LogEntry, filters?: any[]): boolean {
-    if (!filters || filters.length === 0) {
-      return true;
-    }
+  beginFile(filePath: string, options: ParserOptions = {}, fileName: string = filePath): void {
+    const thresholds = thresholdProfiles.resolve(options);
+    const baseDate = resolveBaseDate(filePath, options.baseDate, fileName);
 
-    for (const filter of filters) {
-      const value = this.getFilterFieldValue(entry, filter.field);
-      const matches = this.matchesPattern(value, filter.pattern);
+    this.resetState();
+    this.thresholds = thresholds;
 
-      if (filter.type === 'include' && !matches) {
-        return false;
-      }
-      if (filter.type === 'exclude' && matches) {
-        return false;
-      }
-    }
+    // Retomando no meio do arquivo, o dia vem da linha de partida
+    this.timestampInferrer = new TimestampInferrer(
+      options.startDate && baseDate ? { date: options.startDate, source: baseDate.source, resumed: true } : baseDate
+    );
+  }
+
+  /**
+   * Segunda passada das datas inferidas do mtime, depois de ler o arquivo até o fim:
+   * recua as entradas já lidas pelas viradas do dia a mais encontradas
+   * (ver TimestampInferrer.settleMtimeDays)
+   * @returns Dias recuados (0 quando nada muda)
+   */
+  settleInferredDates(entries: LogEntry[]): number {
+    const days = this.timestampInferrer.settleMtimeDays();
+    shiftEntryDates(entries, -days);
+    return days;
+  }
+
+  /**
+   * Posição alcançada pela última leitura de parseStream
+   */
+  getReadPosition(): { byteOffset: number; lineNumber: number } {
+    return { byteOffset: this.bytesRead, lineNumber: this.lastLineNumber };
+  }
+
+  /**
+   * Remonta a linha de uma entrada sem rawLine (descartado para economizar memória)
+   * Parsers com layout próprio sobrescrevem; o padrão é o horário seguido da mensagem
+   */
+  formatLine(entry: LogEntry): string {
+    return [entry.context.timestamp, entry.message].filter(Boolean).join(' ');
+  }
 
+  /**
+   * Indica se as linhas trazem a data completa (ex: logs do Apache),
+   * dispensando a inferência a partir do horário e da data base do arquivo
+   */
+  hasFullDates(): boolean {
+    return false;
+  }
+
+  /**
+   * Indica se a linha inicia uma entrada (e não continua a anterior)
+   * Partes do arquivo lidas separadamente só podem começar em linhas assim
+   */
+  isEntryStart(_line: string): boolean {
     return true;
   }
 
   /**
-   * Obtém o valor de um campo para filtragem
+   * Processa uma linha lida do arquivo
+   * Parsers com estado (ex: SQL multi-linha) podem segurar a entrada atual
+   * e devolvê-la depois, junto com a próxima linha ou no flush final
    */
-  protected getFilterFieldValue(entry: LogEntry, field: string): string {
-    switch (field) {
-      case 'message':
-        return entry.message;
-      case 'processId':
-        return entry.context.processId;
-      case 'severity':
-        return entry.severity;
-      case 'messageType':
-        return entry.messageType;
-      default:
-        return '';
-    }
+  processLine(line: string, lineNumber: number, options: ParserOptions): LogEntry[] {
+    const entry = this.parseLine(line, lineNumber, options);
+    return entry ? [entry] : [];
   }
 
   /**
-   * Verifica se um valor corresponde a um padrão
+   * Indica se a próxima linha em branco deve ser passada a processLine
+   * (por padrão linhas em branco são puladas)
    */
-  protected matchesPattern(value: string, pattern: string | RegExp): boolean {
-    if (pattern instanceof RegExp) {
-      return pattern.test(value);
-    }
-    return value.includes(pattern);
+  acceptsBlankLine(): boolean {
+    return false;
+  }
+
+  /**
+   * Devolve entradas pendentes ao final da leitura
+   */
+  flushPendingEntries(_options: ParserOptions): LogEntry[] {
+    return [];
+  }
+
+  /**
+   * Reinicia o estado interno antes de um novo parsing
+   */
+  protected resetState(): void {
+    // Parser sem estado por padrão
   }
 
   /**
@@ -237,35 +391,14 @@ export abstract class BaseLogParser implements ILogParser {
    * Utilitário: Extrai tabelas de uma query SQL
    */
   protected extractTablesFromSQL(sql: string): string[] {
-    const tables = new Set<string>();
-    
-    // Regex simples para capturar nomes de tabelas após FROM e JOIN
-    const fromPattern = /\bFROM\s+([a-zA-Z_][a-zA-Z0-9_]*)/gi;
-    const joinPattern = /\bJOIN\s+([a-zA-Z_][a-zA-Z0-9_]*)/gi;
-    
-    let match;
-    while ((match = fromPattern.exec(sql)) !== null) {
-      tables.add(match[1].toLowerCase());
-    }
-    while ((match = joinPattern.exec(sql)) !== null) {
-      tables.add(match[1].toLowerCase());
-    }
-    
-    return Array.from(tables);
+    return extractTablesFromSQL(sql);
   }
 
   /**
    * Utilitário: Detecta tipo de query SQL
    */
-  protected detectQueryType(sql: string): 'select' | 'insert' | 'update' | 'delete' | 'other' {
-    const normalizedSQL = sql.trim().toUpperCase();
-    
-    if (normalizedSQL.startsWith('SELECT')) return 'select';
-    if (normalizedSQL.startsWith('INSERT')) return 'insert';
-    if (normalizedSQL.startsWith('UPDATE')) return 'update';
-    if (normalizedSQL.startsWith('DELETE')) return 'delete';
-    
-    return 'other';
+  protected detectQueryType(sql: string): SQLQueryType {
+    return detectQueryType(sql);
   }
 
   /**
@@ -287,7 +420,7 @@ export abstract class BaseLogParser implements ILogParser {
   }
 
   /**
-   * Utilitário: Determina severidade baseado no conteúdo
+   * Utilitário: Determina severidade pelas palavras-chave e limites do perfil de thresholds
    */
   protected determineSeverity(
     message: string, 
@@ -295,32 +428,26 @@ export abstract class BaseLogParser implements ILogParser {
     executionTime?: number
   ): 'DEBUG' | 'INFO' | 'WARNING' | 'ERROR' | 'CRITICAL' {
     const lowerMessage = message.toLowerCase();
+    const { keywords, slowQuerySeconds } = this.thresholds;
 
     // Erros críticos
-    if (lowerMessage.includes('fatal') || 
-        lowerMessage.includes('critical') ||
-        lowerMessage.includes('exception')) {
+    if (matchesKeyword(lowerMessage, keywords.critical)) {
       return 'CRITICAL';
     }
 
     // Erros
-    if (lowerMessage.includes('error') || 
-        lowerMessage.includes('erro') ||
-        lowerMessage.includes('failed')) {
+    if (matchesKeyword(lowerMessage, keywords.error)) {
       return 'ERROR';
     }
 
     // Warnings (incluindo queries lentas)
-    if (lowerMessage.includes('warning') || 
-        lowerMessage.includes('aviso') ||
-        (executionTime && executionTime > 0.1)) {
+    if (matchesKeyword(lowerMessage, keywords.warning) ||
+        (executionTime && executionTime >= slowQuerySeconds)) {
       return 'WARNING';
     }
 
     // Debug
-    if (messageType === 'DEBUG' || 
-        lowerMessage.includes('debug') ||
-        lowerMessage.includes('bind')) {
+    if (messageType === 'DEBUG' || matchesKeyword(lowerMessage, keywords.debug)) {
       return 'DEBUG';
     }
 
@@ -343,29 +470,37 @@ export abstract class BaseLogParser implements ILogParser {
       const sql = entry.sqlInfo;
       
       // Query lenta
-      if (sql.executionTime && sql.executionTime > 0.1) {
+      if (sql.executionTime && sql.executionTime >= this.thresholds.slowQuerySeconds) {
         tags.push('slow-query');
-        if (sql.executionTime > 1) {
+        if (sql.executionTime >= this.thresholds.criticalQuerySeconds) {
           tags.push('very-slow-query');
         }
       }
 
-      // SELECT *
-      if (sql.query.toUpperCase().includes('SELECT *')) {
+      const statement = sql.statement ?? (sql.query ? analyzeSQL(sql.query) : undefined);
+
+      // SELECT * / alias.*
+      if (statement?.selectsAll) {
         tags.push('select-all');
       }
 
-      // Sem WHERE
-      if (sql.queryType === 'select' && !sql.query.toUpperCase().includes('WHERE')) {
+      // SELECT, UPDATE ou DELETE sobre tabelas sem WHERE no comando principal
+      if (statement && !statement.hasWhere && statement.tables.length > 0 &&
+          ['select', 'update', 'delete'].includes(statement.kind)) {
         tags.push('no-where-clause');
       }
 
       // Muitos registros
-      if (sql.recordsReturned && sql.recordsReturned > 100) {
+      if (sql.recordsReturned && sql.recordsReturned > this.thresholds.largeResultSetRows) {
         tags.push('large-result-set');
       }
     }
 
+    // Memória do processo acima do limite do perfil
+    if (entry.context && entry.context.memoryMB >= this.thresholds.highMemoryMB) {
+      tags.push('high-memory');
+    }
+
     // Tag de transação
     if (entry.message?.toUpperCase().includes('BEGIN') || 
         entry.message?.toUpperCase().includes('COMMIT') ||
@@ -1,4 +1,10 @@
-import { ILogParser, ParserRegistration, FormatDetectionResult } from '../../../../shared/types/parser.types';
+import {
+  ILogParser,
+  LogEncoding,
+  ParserRegistration,
+  FormatDetectionResult
+} from '../../../../shared/types/parser.types';
+import { readLines } from '../utils/LineReader';
 import * as fs from 'fs';
 
 /**
@@ -12,12 +18,15 @@ export class ParserFactory {
    * Registra um novo parser com prioridade
    * @param parser Parser a ser registrado
    * @param priority Prioridade (maior = verificado primeiro)
+   * @param create Cria instâncias novas do parser (ver createParser); sem ele,
+   * o parser registrado é compartilhado e não deve guardar estado
    */
-  register(parser: ILogParser, priority: number = 0): void {
+  register(parser: ILogParser, priority: number = 0, create?: () => ILogParser): void {
     const registration: ParserRegistration = {
       parser,
       priority,
-      formats: parser.getSupportedFormats()
+      formats: parser.getSupportedFormats(),
+      create
     };
 
     this.parsers.push(registration);
@@ -52,20 +61,44 @@ export class ParserFactory {
     return registration ? registration.parser : null;
   }
 
+  /**
+   * Cria uma instância do parser só para quem a pediu
+   * A instância registrada serve a detecção e é compartilhada por todos; uma
+   * leitura (parse, follow, índice) muda o estado do parser e precisa da sua
+   * @param name Nome do parser
+   */
+  createParser(name: string): ILogParser | null {
+    const registration = this.parsers.find(reg => reg.parser.getName() === name);
+    if (!registration) {
+      return null;
+    }
+    return registration.create ? registration.create() : registration.parser;
+  }
+
   /**
    * Seleciona automaticamente o melhor parser para um arquivo
+   * Arquivos comprimidos são detectados pelo conteúdo descomprimido
    * @param filePath Caminho do arquivo
+   * @param archiveMember Membro a detectar quando o arquivo é um pacote zip/tar
    * @returns Parser selecionado ou null se nenhum for compatível
    */
-  async getParser(filePath: string): Promise<ILogParser | null> {
+  async getParser(filePath: string, archiveMember?: string): Promise<ILogParser | null> {
     if (!fs.existsSync(filePath)) {
       throw new Error(`File not found: ${filePath}`);
     }
 
     // Ler amostra do arquivo (primeiras 50 linhas)
-    const sampleContent = await this.readFileSample(filePath, 50);
-    const filename = filePath.split(/[/\\]/).pop() || '';
+    const { filename, content } = await this.readFileSample(filePath, 50, archiveMember);
+
+    return this.selectParser(filename, content);
+  }
 
+  /**
+   * Seleciona o melhor parser para uma amostra já lida (ex: membros de um pacote)
+   * @param filename Nome do arquivo (sem o caminho)
+   * @param sampleContent Primeiras linhas do conteúdo
+   */
+  selectParser(filename: string, sampleContent: string): ILogParser | null {
     // Testar cada parser em ordem de prioridade
     let bestMatch: { parser: ILogParser; confidence: number } | null = null;
 
@@ -93,12 +126,34 @@ export class ParserFactory {
   }
 
   /**
-   * Detecta o formato de um arquivo sem retornar o parser
+   * Detecta o formato e o encoding de um arquivo sem retornar o parser
    * @param filePath Caminho do arquivo
+   * @param archiveMember Membro a detectar quando o arquivo é um pacote zip/tar
    * @returns Informações de detecção
    */
-  async detectFormat(filePath: string): Promise<FormatDetectionResult & { parserName?: string }> {
-    const parser = await this.getParser(filePath);
+  async detectFormat(
+    filePath: string,
+    archiveMember?: string
+  ): Promise<FormatDetectionResult & { parserName?: string; encoding: LogEncoding }> {
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`File not found: ${filePath}`);
+    }
+
+    const { filename, content, encoding } = await this.readFileSample(filePath, 50, archiveMember);
+
+    return { ...this.detectFormatFromContent(filename, content), encoding };
+  }
+
+  /**
+   * Detecta o formato de uma amostra já lida
+   * @param filename Nome do arquivo (sem o caminho)
+   * @param sampleContent Primeiras linhas do conteúdo
+   */
+  detectFormatFromContent(
+    filename: string,
+    sampleContent: string
+  ): FormatDetectionResult & { parserName?: string } {
+    const parser = this.selectParser(filename, sampleContent);
     
     if (!parser) {
       return {
@@ -108,8 +163,6 @@ export class ParserFactory {
       };
     }
 
-    const sampleContent = await this.readFileSample(filePath, 50);
-    const filename = filePath.split(/[/\\]/).pop() || '';
     const result = parser.canParser(filename, sampleContent);
 
     return {
@@ -133,46 +186,42 @@ export class ParserFactory {
   }
 
   /**
-   * Lê uma amostra do início do arquivo
+   * Lê uma amostra do início do arquivo (descomprimido, se for o caso) no encoding detectado
    * @param filePath Caminho do arquivo
    * @param maxLines Número máximo de linhas a ler
+   * @param archiveMember Membro a ler quando o arquivo é um pacote zip/tar
+   * @returns Nome usado na detecção (sem .gz, ou o do membro), as linhas lidas e o encoding
    */
-  private async readFileSample(filePath: string, maxLines: number = 50): Promise<string> {
-    return new Promise((resolve, reject) => {
-      const lines: string[] = [];
-      const stream = fs.createReadStream(filePath, { encoding: 'utf8' });
-      
-      let buffer = '';
-      let lineCount = 0;
-
-      stream.on('data', (chunk: string) => {
-        buffer += chunk;
-        const newLines = buffer.split('\n');
-        
-        // Manter a última linha incompleta no buffer
-        buffer = newLines.pop() || '';
-        
-        for (const line of newLines) {
-          lines.push(line);
-          lineCount++;
-          
-          if (lineCount >= maxLines) {
-            stream.close();
-            resolve(lines.join('\n'));
-            return;
-          }
-        }
-      });
-
-      stream.on('end', () => {
-        if (buffer) {
-          lines.push(buffer);
-        }
-        resolve(lines.join('\n'));
-      });
+  private async readFileSample(
+    filePath: string,
+    maxLines: number = 50,
+    archiveMember?: string
+  ): Promise<{ filename: string; content: string; encoding: LogEncoding }> {
+    const lines: string[] = [];
+    let name = filePath;
+    let encoding: LogEncoding = 'utf8';
 
-      stream.on('error', reject);
+    const fileLines = readLines(filePath, {
+      archiveMember,
+      onOpen: input => {
+        name = input.name;
+        encoding = input.encoding;
+      }
     });
+
+    for await (const { text } of fileLines) {
+      lines.push(text);
+
+      if (lines.length >= maxLines) {
+        break;
+      }
+    }
+
+    return {
+      filename: name.split(/[/\\]/).pop() || '',
+      content: lines.join('\n'),
+      encoding
+    };
   }
 
   /**
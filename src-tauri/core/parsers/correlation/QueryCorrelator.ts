@@ -0,0 +1,227 @@
+import {
+  LogEntry,
+  QueryExecution,
+  SQLInfo,
+  SQLLifecycleStage
+} from '../../../../shared/types/log.types';
+import { analyzeSQL, getTableNames } from '../utils/SQLAnalyzer';
+import { getSQLFingerprint } from '../utils/SQLFingerprint';
+
+/**
+ * Ordem das etapas que carregam SQL dentro de uma mesma execução
+ */
+const QUERY_STAGE_ORDER: Partial<Record<SQLLifecycleStage, number>> = {
+  raw: 0,
+  processed: 1,
+  executed: 2
+};
+
+/**
+ * Execução ainda aberta para um PID
+ */
+interface OpenExecution {
+  execution: QueryExecution;
+  lastQueryStage: number;
+  hasResult: boolean;
+}
+
+/**
+ * Correlaciona as linhas do ciclo de vida de uma query (SQL antes/após
+ * processamento, binds, decode, tempo de execução e registros retornados)
+ * em um único QueryExecution por PID
+ *
+ * Funciona de forma incremental: add() devolve as execuções que foram
+ * concluídas por aquela entrada e flush() devolve as que ficaram abertas
+ */
+export class QueryCorrelator {
+  private open = new Map<string, OpenExecution>();
+
+  /**
+   * Adiciona uma entrada e devolve as execuções concluídas por ela
+   */
+  add(entry: LogEntry): QueryExecution[] {
+    const sqlInfo = entry.sqlInfo;
+    const processId = entry.context.processId;
+
+    if (!sqlInfo || !processId) {
+      return [];
+    }
+
+    const completed: QueryExecution[] = [];
+    let current = this.open.get(processId);
+
+    // Entradas sem etapa (formatos que registram tudo em uma linha) são execuções completas
+    if (!sqlInfo.stage) {
+      if (current) {
+        completed.push(this.finalize(current.execution));
+        this.open.delete(processId);
+      }
+
+      const standalone = this.createExecution(entry);
+      this.merge(standalone, entry);
+      completed.push(this.finalize(standalone));
+      return completed;
+    }
+
+    const queryStage = sqlInfo.query ? QUERY_STAGE_ORDER[sqlInfo.stage] : undefined;
+
+    if (current && this.startsNewExecution(current, sqlInfo, queryStage)) {
+      completed.push(this.finalize(current.execution));
+      current = undefined;
+    }
+
+    if (!current) {
+      current = { execution: this.createExecution(entry), lastQueryStage: -1, hasResult: false };
+      this.open.set(processId, current);
+    }
+
+    this.merge(current.execution, entry);
+
+    if (queryStage !== undefined) {
+      current.lastQueryStage = queryStage;
+    }
+
+    if (sqlInfo.executionTime !== undefined || sqlInfo.recordsReturned !== undefined) {
+      current.hasResult = true;
+    }
+
+    // Tempo e registros já recebidos: nada mais pertence a esta execução
+    if (current.execution.sqlInfo.executionTime !== undefined &&
+        current.execution.sqlInfo.recordsReturned !== undefined) {
+      completed.push(this.finalize(current.execution));
+      this.open.delete(processId);
+    }
+
+    return completed;
+  }
+
+  /**
+   * Conclui e devolve todas as execuções ainda abertas, na ordem do arquivo
+   */
+  flush(): QueryExecution[] {
+    const remaining = Array.from(this.open.values())
+      .map(open => this.finalize(open.execution))
+      .sort((a, b) => a.lineNumbers[0] - b.lineNumbers[0]);
+
+    this.open.clear();
+
+    return remaining;
+  }
+
+  /**
+   * Descarta o estado acumulado
+   */
+  reset(): void {
+    this.open.clear();
+  }
+
+  /**
+   * Uma nova query começa quando a execução atual já tem resultado
+   * ou quando a etapa SQL recebida não avança em relação à anterior
+   */
+  private startsNewExecution(
+    current: OpenExecution,
+    sqlInfo: SQLInfo,
+    queryStage: number | undefined
+  ): boolean {
+    if (queryStage !== undefined) {
+      return current.hasResult || queryStage <= current.lastQueryStage;
+    }
+
+    if (current.hasResult) {
+      return (sqlInfo.executionTime !== undefined && current.execution.sqlInfo.executionTime !== undefined) ||
+        (sqlInfo.recordsReturned !== undefined && current.execution.sqlInfo.recordsReturned !== undefined) ||
+        sqlInfo.stage === 'binds' ||
+        sqlInfo.stage === 'decoded';
+    }
+
+    return false;
+  }
+
+  private createExecution(entry: LogEntry): QueryExecution {
+    return {
+      id: `${entry.context.processId}#${entry.lineNumber}`,
+      processId: entry.context.processId,
+      context: entry.context,
+      sqlInfo: { query: '' },
+      lineNumbers: []
+    };
+  }
+
+  /**
+   * Incorpora os dados SQL de uma entrada na execução
+   */
+  private merge(execution: QueryExecution, entry: LogEntry): void {
+    const source = entry.sqlInfo!;
+    const target = execution.sqlInfo;
+
+    execution.lineNumbers.push(entry.lineNumber);
+
+    if (source.query) {
+      switch (source.stage) {
+        case 'raw':
+          execution.rawQuery = source.query;
+          break;
+        case 'processed':
+          execution.processedQuery = source.query;
+          break;
+        default:
+          target.query = source.query;
+      }
+    }
+
+    if (source.binds) {
+      target.binds = { ...target.binds, ...source.binds };
+    }
+    if (source.decodedQuery) {
+      target.decodedQuery = source.decodedQuery;
+    }
+    if (source.executionTime !== undefined) {
+      target.executionTime = source.executionTime;
+    }
+    if (source.recordsReturned !== undefined) {
+      target.recordsReturned = source.recordsReturned;
+    }
+    if (source.rowsExamined !== undefined) {
+      target.rowsExamined = source.rowsExamined;
+    }
+    if (source.isMultiLine) {
+      target.isMultiLine = true;
+    }
+  }
+
+  /**
+   * Escolhe a query mais representativa e recalcula estrutura, tipo, tabelas e fingerprint
+   */
+  private finalize(execution: QueryExecution): QueryExecution {
+    const sqlInfo = execution.sqlInfo;
+
+    if (!sqlInfo.query) {
+      sqlInfo.query = execution.processedQuery || execution.rawQuery || sqlInfo.decodedQuery || '';
+    }
+
+    if (sqlInfo.query) {
+      sqlInfo.statement = analyzeSQL(sqlInfo.query);
+      sqlInfo.queryType = sqlInfo.statement.kind;
+      sqlInfo.tables = getTableNames(sqlInfo.statement);
+      sqlInfo.fingerprint = getSQLFingerprint(sqlInfo);
+    }
+
+    return execution;
+  }
+}
+
+/**
+ * Correlaciona todas as entradas de um log em execuções de query
+ */
+export function correlateQueryExecutions(entries: LogEntry[]): QueryExecution[] {
+  const correlator = new QueryCorrelator();
+  const executions: QueryExecution[] = [];
+
+  for (const entry of entries) {
+    executions.push(...correlator.add(entry));
+  }
+  executions.push(...correlator.flush());
+
+  return executions.sort((a, b) => a.lineNumbers[0] - b.lineNumbers[0]);
+}
@@ -0,0 +1 @@
+export { QueryCorrelator, correlateQueryExecutions } from './QueryCorrelator';
\ No newline at end of file
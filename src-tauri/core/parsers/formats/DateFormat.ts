@@ -0,0 +1,108 @@
+/**
+ * Converte o texto de uma data capturada da linha em Date (horário local)
+ */
+export type DateParser = (text: string) => Date | undefined;
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+/** Nomes em português que diferem dos em inglês */
+const PORTUGUESE_MONTH_NAMES: Record<string, number> = { fev: 1, abr: 3, mai: 4, ago: 7, set: 8, out: 9, dez: 11 };
+
+type DatePart = 'year' | 'shortYear' | 'monthName' | 'month' | 'day' | 'hour' | 'minute' | 'second' | 'fraction';
+
+const DATE_TOKENS: Array<{ token: string; pattern: string; part?: DatePart }> = [
+  { token: 'YYYY', pattern: '(\\d{4})', part: 'year' },
+  { token: 'YY', pattern: '(\\d{2})', part: 'shortYear' },
+  { token: 'MMM', pattern: '([A-Za-z]{3})[A-Za-z]*', part: 'monthName' },
+  { token: 'MM', pattern: '(\\d{2})', part: 'month' },
+  { token: 'M', pattern: '(\\d{1,2})', part: 'month' },
+  { token: 'DD', pattern: '(\\d{2})', part: 'day' },
+  { token: 'D', pattern: '(\\d{1,2})', part: 'day' },
+  { token: 'HH', pattern: '(\\d{2})', part: 'hour' },
+  { token: 'H', pattern: '(\\d{1,2})', part: 'hour' },
+  { token: 'mm', pattern: '(\\d{2})', part: 'minute' },
+  { token: 'ss', pattern: '(\\d{2})', part: 'second' },
+  { token: 'SSS', pattern: '(\\d+)', part: 'fraction' },
+  // Fuso ignorado: os horários são tratados como locais, como nos logs .zlg
+  { token: 'Z', pattern: '(?:Z|[+-]\\d{2}:?\\d{2}|[A-Za-z][\\w/+-]*)' }
+];
+
+const TOKEN_PATTERN = new RegExp(DATE_TOKENS.map(({ token }) => token).join('|'), 'g');
+
+/**
+ * Erro no formato de data de uma definição
+ */
+export class DateFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DateFormatError';
+  }
+}
+
+/**
+ * Compila um formato como "DD/MMM/YYYY:HH:mm:ss Z" (Apache) ou "YYYY-MM-DD HH:mm:ss.SSS"
+ * Tokens: YYYY YY MMM MM M DD D HH H mm ss SSS Z; o restante é literal
+ * @throws DateFormatError se o formato não tiver ano, mês e dia
+ */
+export function compileDateFormat(format: string): DateParser {
+  const parts: DatePart[] = [];
+  let source = '';
+  let lastIndex = 0;
+
+  for (const match of format.matchAll(TOKEN_PATTERN)) {
+    const token = DATE_TOKENS.find(candidate => candidate.token === match[0])!;
+    source += escapeRegExp(format.slice(lastIndex, match.index)) + token.pattern;
+    if (token.part) {
+      parts.push(token.part);
+    }
+    lastIndex = match.index! + match[0].length;
+  }
+  source += escapeRegExp(format.slice(lastIndex));
+
+  const hasYear = parts.includes('year') || parts.includes('shortYear');
+  const hasMonth = parts.includes('month') || parts.includes('monthName');
+  if (!hasYear || !hasMonth || !parts.includes('day')) {
+    throw new DateFormatError(`Date format "${format}" must contain year, month and day tokens`);
+  }
+
+  const pattern = new RegExp(`^${source}$`);
+
+  return (text: string) => {
+    const match = pattern.exec(text.trim());
+    if (!match) {
+      return undefined;
+    }
+
+    const values: Partial<Record<DatePart, string>> = {};
+    parts.forEach((part, index) => { values[part] = match[index + 1]; });
+
+    const year = values.year ? Number(values.year) : 2000 + Number(values.shortYear);
+    const month = values.monthName ? parseMonthName(values.monthName) : Number(values.month) - 1;
+    const day = Number(values.day);
+    const milliseconds = values.fraction ? Math.round(Number(`0.${values.fraction}`) * 1000) : 0;
+
+    if (month === undefined || month < 0 || month > 11) {
+      return undefined;
+    }
+
+    const date = new Date(
+      year, month, day,
+      Number(values.hour ?? 0), Number(values.minute ?? 0), Number(values.second ?? 0), milliseconds
+    );
+
+    // Rejeita datas que o Date "corrige" (31/02, 25:00)
+    return date.getFullYear() === year && date.getMonth() === month && date.getDate() === day
+      ? date
+      : undefined;
+  };
+}
+
+function parseMonthName(name: string): number | undefined {
+  const key = name.slice(0, 3).toLowerCase();
+  const index = MONTH_NAMES.indexOf(key);
+  return index !== -1 ? index : PORTUGUESE_MONTH_NAMES[key];
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
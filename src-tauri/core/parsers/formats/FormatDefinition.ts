@@ -0,0 +1,453 @@
+import { LogMessageType, LogSeverity } from '../../../../shared/types/log.types';
+import { compileDateFormat, DateFormatError, DateParser } from './DateFormat';
+import { expandGrok, GrokError } from './Grok';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Campos de ExecutionContext/LogEntry/SQLInfo que podem vir de capturas da linha
+ * - date: data completa (requer dateFormat); timestamp: só o horário (HH:MM:SS)
+ * - executionTime em segundos (ou ms, com executionTimeUnit)
+ */
+export type FormatField =
+  | 'date'
+  | 'timestamp'
+  | 'serverInfo'
+  | 'processId'
+  | 'memoryUsage'
+  | 'connectionIndex'
+  | 'message'
+  | 'query'
+  | 'executionTime'
+  | 'recordsReturned';
+
+/**
+ * Regra de tipo de mensagem: a primeira que casar define tipo, severidade e tags
+ */
+export interface MessageTypeRule {
+  /** Expressão regular testada contra a captura */
+  pattern: string;
+
+  /** Captura testada (padrão: a mensagem) */
+  field?: string;
+
+  flags?: string;
+  type: LogMessageType;
+
+  /** Sem severidade, ela vem das palavras-chave do perfil de thresholds */
+  severity?: LogSeverity;
+  tags?: string[];
+}
+
+/**
+ * Dicas para canParser
+ */
+export interface FormatDetectionHints {
+  /** Expressão testada contra o nome do arquivo (alternativa às extensões) */
+  fileNamePattern?: string;
+
+  /** Expressão que precisa aparecer na amostra do arquivo */
+  contentPattern?: string;
+
+  /** Fração mínima de linhas da amostra que casam com o padrão (padrão: 0.7) */
+  minMatchRatio?: number;
+
+  /** Confiança com nome e conteúdo compatíveis (padrão: 0.9; só conteúdo: 0.1 a menos) */
+  confidence?: number;
+}
+
+/**
+ * Formato de log declarado em JSON e interpretado pelo GenericParser
+ *
+ * {
+ *   "name": "php-error",
+ *   "extensions": [".log"],
+ *   "grok": "^\\[%{PHPDATE:date}\\] PHP %{DATA:level}:  %{GREEDYDATA:message}$",
+ *   "dateFormat": "DD-MMM-YYYY HH:mm:ss Z",
+ *   "multiline": true,
+ *   "messageTypes": [
+ *     { "field": "level", "pattern": "Fatal|Parse", "type": "ERROR", "severity": "CRITICAL" }
+ *   ],
+ *   "detection": { "contentPattern": "PHP (Warning|Notice|Fatal error)" }
+ * }
+ */
+export interface FormatDefinition {
+  /** Nome do parser (único no factory) e formato informado em detectedFormat */
+  name: string;
+  description?: string;
+
+  /** Extensões aceitas (ex: [".zl1"]) */
+  extensions?: string[];
+
+  /** Expressão regular com grupos nomeados; use pattern ou grok */
+  pattern?: string;
+
+  /** Padrão grok (%{TIME:timestamp}); use pattern ou grok */
+  grok?: string;
+
+  /** Padrões grok próprios da definição */
+  patterns?: Record<string, string>;
+
+  flags?: string;
+
+  /** Captura de cada campo (padrão: captura com o mesmo nome do campo) */
+  fields?: Partial<Record<FormatField, string>>;
+
+  /** Formato da captura date (ver compileDateFormat) */
+  dateFormat?: string;
+
+  executionTimeUnit?: 's' | 'ms';
+
+  messageTypes?: MessageTypeRule[];
+
+  /** Tipo das linhas sem regra correspondente (padrão: INFO) */
+  defaultType?: LogMessageType;
+
+  /** Linhas fora do padrão continuam a entrada anterior (ex: stack traces) */
+  multiline?: boolean;
+
+  detection?: FormatDetectionHints;
+
+  /** Prioridade no factory (padrão: 5, abaixo dos parsers embutidos) */
+  priority?: number;
+}
+
+/**
+ * Regra com a expressão compilada
+ */
+export interface CompiledMessageTypeRule extends MessageTypeRule {
+  regex: RegExp;
+}
+
+/**
+ * Definição pronta para uso pelo GenericParser
+ */
+export interface CompiledFormat {
+  definition: FormatDefinition;
+  linePattern: RegExp;
+
+  /** Captura usada por cada campo (só as que existem no padrão) */
+  captures: Partial<Record<FormatField, string>>;
+  parseDate?: DateParser;
+  rules: CompiledMessageTypeRule[];
+  fileNamePattern?: RegExp;
+  contentPattern?: RegExp;
+}
+
+/**
+ * Definição de formato ilegível ou inválida
+ */
+export class FormatDefinitionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FormatDefinitionError';
+  }
+}
+
+const FORMAT_FIELDS: FormatField[] = [
+  'date', 'timestamp', 'serverInfo', 'processId', 'memoryUsage',
+  'connectionIndex', 'message', 'query', 'executionTime', 'recordsReturned'
+];
+
+const MESSAGE_TYPES: LogMessageType[] = [
+  'SQL', 'SQL_BIND', 'PERFORMANCE', 'TRANSACTION', 'DEBUG', 'INFO', 'ERROR', 'UNKNOWN'
+];
+
+const SEVERITIES: LogSeverity[] = ['DEBUG', 'INFO', 'WARNING', 'ERROR', 'CRITICAL'];
+
+/** Flags aceitas (g e y deixariam test/exec com estado entre linhas) */
+const REGEXP_FLAGS = /^[imsu]*$/;
+
+/** Diretório com as definições que acompanham o sidecar (formats/ ao lado de sidecar/) */
+const BUILTIN_FORMATS_DIR = path.join(path.dirname(process.argv[1] ?? '.'), '..', 'formats');
+
+/**
+ * Valida e compila uma definição
+ * @throws FormatDefinitionError se algum campo, expressão ou padrão grok for inválido
+ */
+export function compileFormatDefinition(value: unknown): CompiledFormat {
+  const definition = validateDefinition(value);
+  const name = definition.name;
+
+  let source: string;
+  try {
+    source = definition.grok !== undefined
+      ? expandGrok(definition.grok, definition.patterns)
+      : definition.pattern!;
+  } catch (error) {
+    if (error instanceof GrokError) {
+      throw new FormatDefinitionError(`Format ${name}: ${error.message}`);
+    }
+    throw error;
+  }
+
+  const linePattern = compileRegExp(name, 'pattern', source, definition.flags);
+  const groupNames = Object.keys(new RegExp(`${source}|`, definition.flags).exec('')!.groups ?? {});
+
+  const captures: Partial<Record<FormatField, string>> = {};
+  for (const field of FORMAT_FIELDS) {
+    const capture = definition.fields?.[field] ?? field;
+    if (groupNames.includes(capture)) {
+      captures[field] = capture;
+    } else if (definition.fields?.[field] !== undefined) {
+      throw new FormatDefinitionError(`Format ${name}: field ${field} maps to unknown capture "${capture}"`);
+    }
+  }
+
+  let parseDate: DateParser | undefined;
+  if (captures.date) {
+    if (!definition.dateFormat) {
+      throw new FormatDefinitionError(`Format ${name}: "dateFormat" is required when a date is captured`);
+    }
+    try {
+      parseDate = compileDateFormat(definition.dateFormat);
+    } catch (error) {
+      if (error instanceof DateFormatError) {
+        throw new FormatDefinitionError(`Format ${name}: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+
+  const rules = (definition.messageTypes ?? []).map((rule, index) => {
+    if (rule.field !== undefined && !groupNames.includes(rule.field) && rule.field !== 'message') {
+      throw new FormatDefinitionError(`Format ${name}: messageTypes #${index + 1} tests unknown capture "${rule.field}"`);
+    }
+    return { ...rule, regex: compileRegExp(name, `messageTypes #${index + 1}`, rule.pattern, rule.flags) };
+  });
+
+  const { fileNamePattern, contentPattern } = definition.detection ?? {};
+
+  return {
+    definition,
+    linePattern,
+    captures,
+    parseDate,
+    rules,
+    fileNamePattern: fileNamePattern !== undefined
+      ? compileRegExp(name, 'detection.fileNamePattern', fileNamePattern, 'i')
+      : undefined,
+    contentPattern: contentPattern !== undefined
+      ? compileRegExp(name, 'detection.contentPattern', contentPattern, 'm')
+      : undefined
+  };
+}
+
+/**
+ * Lê e valida um arquivo de definição
+ * @throws FormatDefinitionError se o arquivo não puder ser lido ou for inválido
+ */
+export function loadFormatDefinition(filePath: string): FormatDefinition {
+  let content: string;
+  try {
+    content = fs.readFileSync(filePath, 'utf8');
+  } catch (error) {
+    throw new FormatDefinitionError(`Cannot read format file ${filePath}: ${(error as Error).message}`);
+  }
+
+  let value: unknown;
+  try {
+    value = JSON.parse(content);
+  } catch (error) {
+    throw new FormatDefinitionError(`Format file ${filePath} is not valid JSON: ${(error as Error).message}`);
+  }
+
+  try {
+    return compileFormatDefinition(value).definition;
+  } catch (error) {
+    if (error instanceof FormatDefinitionError) {
+      throw new FormatDefinitionError(`${filePath}: ${error.message}`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Carrega as definições de arquivos .json e de diretórios (não recursivo, em ordem alfabética)
+ * Caminhos inexistentes são ignorados; um arquivo inválido não impede os demais
+ */
+export function loadFormatDefinitions(sources: string[]): {
+  definitions: FormatDefinition[];
+  errors: FormatDefinitionError[];
+} {
+  const definitions: FormatDefinition[] = [];
+  const errors: FormatDefinitionError[] = [];
+
+  for (const source of sources) {
+    let files: string[];
+    try {
+      files = fs.statSync(source).isDirectory()
+        ? fs.readdirSync(source)
+          .filter(file => file.toLowerCase().endsWith('.json'))
+          .sort()
+          .map(file => path.join(source, file))
+        : [source];
+    } catch {
+      continue;
+    }
+
+    for (const file of files) {
+      try {
+        definitions.push(loadFormatDefinition(file));
+      } catch (error) {
+        if (!(error instanceof FormatDefinitionError)) {
+          throw error;
+        }
+        errors.push(error);
+      }
+    }
+  }
+
+  return { definitions, errors };
+}
+
+/**
+ * Locais de onde o sidecar carrega definições na inicialização:
+ * as embutidas e as de LOG_ANALYZER_FORMATS (lista separada por path.delimiter)
+ * Definições posteriores substituem as anteriores de mesmo nome
+ */
+export function getFormatDefinitionSources(): string[] {
+  const configured = (process.env.LOG_ANALYZER_FORMATS ?? '')
+    .split(path.delimiter)
+    .filter(source => source.trim().length > 0);
+
+  return [BUILTIN_FORMATS_DIR, ...configured];
+}
+
+function compileRegExp(formatName: string, label: string, source: string, flags?: string): RegExp {
+  try {
+    return new RegExp(source, flags);
+  } catch (error) {
+    throw new FormatDefinitionError(`Format ${formatName}: invalid ${label}: ${(error as Error).message}`);
+  }
+}
+
+function validateDefinition(value: unknown): FormatDefinition {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new FormatDefinitionError('Format definition must be a JSON object');
+  }
+
+  const definition = value as Record<string, unknown>;
+  const { name } = definition;
+
+  if (typeof name !== 'string' || !name.trim()) {
+    throw new FormatDefinitionError('Format definition: "name" is required');
+  }
+
+  const fail = (message: string): never => {
+    throw new FormatDefinitionError(`Format ${name}: ${message}`);
+  };
+
+  const hasPattern = typeof definition.pattern === 'string' && definition.pattern.length > 0;
+  const hasGrok = typeof definition.grok === 'string' && definition.grok.length > 0;
+  if (hasPattern === hasGrok) {
+    fail('exactly one of "pattern" or "grok" is required');
+  }
+
+  if (definition.extensions !== undefined && !isStringArray(definition.extensions)) {
+    fail('"extensions" must be an array of strings');
+  }
+  if (definition.patterns !== undefined && !isStringRecord(definition.patterns)) {
+    fail('"patterns" must map pattern names to strings');
+  }
+  if (definition.fields !== undefined) {
+    if (!isStringRecord(definition.fields)) {
+      fail('"fields" must map fields to capture names');
+    }
+    for (const field of Object.keys(definition.fields as object)) {
+      if (!FORMAT_FIELDS.includes(field as FormatField)) {
+        fail(`unknown field "${field}" (expected one of ${FORMAT_FIELDS.join(', ')})`);
+      }
+    }
+  }
+  for (const key of ['flags', 'dateFormat', 'description'] as const) {
+    if (definition[key] !== undefined && typeof definition[key] !== 'string') {
+      fail(`"${key}" must be a string`);
+    }
+  }
+  if (typeof definition.flags === 'string' && !REGEXP_FLAGS.test(definition.flags)) {
+    fail('"flags" may only contain i, m, s and u');
+  }
+  if (definition.executionTimeUnit !== undefined && definition.executionTimeUnit !== 's' &&
+      definition.executionTimeUnit !== 'ms') {
+    fail('"executionTimeUnit" must be "s" or "ms"');
+  }
+  if (definition.defaultType !== undefined && !MESSAGE_TYPES.includes(definition.defaultType as LogMessageType)) {
+    fail(`"defaultType" must be one of ${MESSAGE_TYPES.join(', ')}`);
+  }
+  if (definition.multiline !== undefined && typeof definition.multiline !== 'boolean') {
+    fail('"multiline" must be a boolean');
+  }
+  if (definition.priority !== undefined && (typeof definition.priority !== 'number' || !Number.isFinite(definition.priority))) {
+    fail('"priority" must be a number');
+  }
+
+  if (definition.messageTypes !== undefined) {
+    if (!Array.isArray(definition.messageTypes)) {
+      fail('"messageTypes" must be an array');
+    }
+    (definition.messageTypes as unknown[]).forEach((rule, index) => validateRule(rule, `messageTypes #${index + 1}`, fail));
+  }
+
+  if (definition.detection !== undefined) {
+    validateDetection(definition.detection, fail);
+  }
+
+  return definition as unknown as FormatDefinition;
+}
+
+function validateRule(rule: unknown, label: string, fail: (message: string) => never): void {
+  if (!rule || typeof rule !== 'object') {
+    fail(`${label} must be an object`);
+  }
+
+  const { pattern, field, flags, type, severity, tags } = rule as Record<string, unknown>;
+
+  if (typeof pattern !== 'string' || !pattern) {
+    fail(`${label}: "pattern" is required`);
+  }
+  if (field !== undefined && typeof field !== 'string') {
+    fail(`${label}: "field" must be a string`);
+  }
+  if (flags !== undefined && (typeof flags !== 'string' || !REGEXP_FLAGS.test(flags))) {
+    fail(`${label}: "flags" may only contain i, m, s and u`);
+  }
+  if (!MESSAGE_TYPES.includes(type as LogMessageType)) {
+    fail(`${label}: "type" must be one of ${MESSAGE_TYPES.join(', ')}`);
+  }
+  if (severity !== undefined && !SEVERITIES.includes(severity as LogSeverity)) {
+    fail(`${label}: "severity" must be one of ${SEVERITIES.join(', ')}`);
+  }
+  if (tags !== undefined && !isStringArray(tags)) {
+    fail(`${label}: "tags" must be an array of strings`);
+  }
+}
+
+function validateDetection(detection: unknown, fail: (message: string) => never): void {
+  if (!detection || typeof detection !== 'object' || Array.isArray(detection)) {
+    fail('"detection" must be an object');
+  }
+
+  const { fileNamePattern, contentPattern, minMatchRatio, confidence } = detection as Record<string, unknown>;
+
+  if (fileNamePattern !== undefined && typeof fileNamePattern !== 'string') {
+    fail('"detection.fileNamePattern" must be a string');
+  }
+  if (contentPattern !== undefined && typeof contentPattern !== 'string') {
+    fail('"detection.contentPattern" must be a string');
+  }
+  for (const [key, ratio] of [['minMatchRatio', minMatchRatio], ['confidence', confidence]] as const) {
+    if (ratio !== undefined && (typeof ratio !== 'number' || ratio < 0 || ratio > 1)) {
+      fail(`"detection.${key}" must be a number between 0 and 1`);
+    }
+  }
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+function isStringRecord(value: unknown): value is Record<string, string> {
+  return !!value && typeof value === 'object' && !Array.isArray(value) &&
+    Object.values(value as object).every(item => typeof item === 'string');
+}
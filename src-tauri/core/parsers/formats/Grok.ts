@@ -0,0 +1,75 @@
+/**
+ * Padrões grok embutidos (subconjunto dos nomes usados pelo Logstash)
+ * Podem referenciar outros padrões com %{NOME}
+ */
+export const GROK_PATTERNS: Record<string, string> = {
+  INT: '[+-]?\\d+',
+  NUMBER: '[+-]?\\d+(?:[.,]\\d+)?',
+  WORD: '\\w+',
+  NOTSPACE: '\\S+',
+  SPACE: '\\s*',
+  DATA: '.*?',
+  GREEDYDATA: '.*',
+  QUOTEDSTRING: '"(?:[^"\\\\]|\\\\.)*"',
+  QS: '%{QUOTEDSTRING}',
+  USERNAME: '[\\w.@-]+',
+  USER: '%{USERNAME}',
+  IPV4: '(?:\\d{1,3}\\.){3}\\d{1,3}',
+  IPV6: '[0-9A-Fa-f]*:[0-9A-Fa-f:.]+',
+  IP: '(?:%{IPV6}|%{IPV4})',
+  HOSTNAME: '[\\w-]+(?:\\.[\\w-]+)*',
+  IPORHOST: '(?:%{IP}|%{HOSTNAME})',
+  PATH: '(?:[A-Za-z]:)?[\\\\/][^\\s:]*',
+  URIPATHPARAM: '\\S+',
+  LOGLEVEL: '[A-Za-z]+',
+  MONTHDAY: '\\d{1,2}',
+  MONTHNUM: '\\d{1,2}',
+  MONTH: '[A-Za-z]{3,9}',
+  YEAR: '\\d{4}',
+  TIME: '\\d{1,2}:\\d{2}:\\d{2}(?:[.,]\\d+)?',
+  ISO8601_TIMEZONE: '(?:Z|[+-]\\d{2}:?\\d{2})',
+  TIMESTAMP_ISO8601: '\\d{4}-\\d{2}-\\d{2}[T ]%{TIME}%{ISO8601_TIMEZONE}?',
+  HTTPDATE: '\\d{2}/[A-Za-z]{3}/\\d{4}:%{TIME} [+-]\\d{4}',
+  PHPDATE: '\\d{2}-[A-Za-z]{3}-\\d{4} %{TIME}(?: [\\w/+-]+)?'
+};
+
+/** Limite de expansões aninhadas (protege contra padrões que se referenciam) */
+const MAX_GROK_DEPTH = 10;
+
+const GROK_REFERENCE = /%\{(\w+)(?::(\w+))?\}/g;
+
+/**
+ * Padrão grok inválido (nome desconhecido ou referência circular)
+ */
+export class GrokError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GrokError';
+  }
+}
+
+/**
+ * Converte um padrão grok em expressão regular
+ * %{TIME:timestamp} vira o grupo nomeado (?<timestamp>...); %{TIME} vira um grupo sem captura
+ * @param customPatterns Padrões adicionais (substituem os embutidos de mesmo nome)
+ * @throws GrokError se algum padrão não existir
+ */
+export function expandGrok(grok: string, customPatterns: Record<string, string> = {}): string {
+  const patterns = { ...GROK_PATTERNS, ...customPatterns };
+
+  const expand = (source: string, depth: number): string =>
+    source.replace(GROK_REFERENCE, (_reference, name: string, capture?: string) => {
+      const pattern = patterns[name];
+      if (pattern === undefined) {
+        throw new GrokError(`Unknown grok pattern: ${name}`);
+      }
+      if (depth >= MAX_GROK_DEPTH) {
+        throw new GrokError(`Grok pattern ${name} is nested too deeply (circular reference?)`);
+      }
+
+      const body = expand(pattern, depth + 1);
+      return capture ? `(?<${capture}>${body})` : `(?:${body})`;
+    });
+
+  return expand(grok, 0);
+}
@@ -0,0 +1,4 @@
+export * from './FormatDefinition';
+export { compileDateFormat, DateFormatError } from './DateFormat';
+export type { DateParser } from './DateFormat';
+export { expandGrok, GrokError, GROK_PATTERNS } from './Grok';
\ No newline at end of file
@@ -0,0 +1,373 @@
+import { BaseLogParser } from '../base/BaseLogParser';
+import {
+  FormatDetectionResult,
+  ParserOptions
+} from '../../../../shared/types/parser.types';
+import {
+  ExecutionContext,
+  LogEntry,
+  SQLInfo
+} from '../../../../shared/types/log.types';
+import { cleanSQL, formatTimeOfDay, parseMemoryString } from '../utils/ParserUtils';
+import { analyzeSQL, getTableNames } from '../utils/SQLAnalyzer';
+import { getSQLFingerprint } from '../utils/SQLFingerprint';
+import { OUT_OF_ORDER_ISSUE } from '../utils/TimestampInference';
+import {
+  CompiledFormat,
+  compileFormatDefinition,
+  FormatDefinition,
+  FormatField
+} from '../formats/FormatDefinition';
+
+/** Linhas da amostra avaliadas na detecção */
+const DETECTION_SAMPLE_LINES = 20;
+
+const DEFAULT_MIN_MATCH_RATIO = 0.7;
+const DEFAULT_CONFIDENCE = 0.9;
+
+/** Linha com o padrão do formato, ainda aguardando possíveis linhas de continuação */
+interface PendingLine {
+  rawLine: string;
+  lineNumber: number;
+  captures: Record<string, string>;
+  continuation: string[];
+  endLineNumber: number;
+}
+
+/**
+ * Parser guiado por uma definição declarativa (FormatDefinition)
+ * Permite ler formatos como .zl1, erros do PHP ou logs do Apache sem uma
+ * subclasse própria: as capturas do padrão viram o ExecutionContext e as
+ * regras de mensagem definem tipo, severidade e tags
+ */
+export class GenericParser extends BaseLogParser {
+  private readonly format: CompiledFormat;
+  private pending: PendingLine | null = null;
+
+  /**
+   * @throws FormatDefinitionError se a definição for inválida
+   */
+  constructor(definition: FormatDefinition) {
+    super();
+    this.format = compileFormatDefinition(definition);
+  }
+
+  getName(): string {
+    return this.format.definition.name;
+  }
+
+  getSupportedFormats(): string[] {
+    return this.format.definition.extensions ?? [];
+  }
+
+  /**
+   * Definição de origem (ex: para recriar o parser em um worker)
+   */
+  getDefinition(): FormatDefinition {
+    return this.format.definition;
+  }
+
+  hasFullDates(): boolean {
+    return this.format.parseDate !== undefined;
+  }
+
+  canParse(filename: string, sampleContent: string): FormatDetectionResult {
+    return this.canParser(filename, sampleContent);
+  }
+
+  canParser(filename: string, sampleContent: string): FormatDetectionResult {
+    const { definition, linePattern, fileNamePattern, contentPattern } = this.format;
+    const minMatchRatio = definition.detection?.minMatchRatio ?? DEFAULT_MIN_MATCH_RATIO;
+    const confidence = definition.detection?.confidence ?? DEFAULT_CONFIDENCE;
+
+    const lowerName = filename.toLowerCase();
+    const hasKnownName = (definition.extensions ?? []).some(ext => lowerName.endsWith(ext.toLowerCase())) ||
+      (fileNamePattern?.test(filename) ?? false);
+
+    const lines = sampleContent.split('\n')
+      .map(line => line.replace(/\r$/, ''))
+      .filter(line => line.trim().length > 0)
+      .slice(0, DETECTION_SAMPLE_LINES);
+    const matchingLines = lines.filter(line => linePattern.test(line)).length;
+    const matchRatio = lines.length > 0 ? matchingLines / lines.length : 0;
+    const hasContent = contentPattern ? contentPattern.test(sampleContent) : true;
+
+    if (hasContent && matchRatio >= minMatchRatio) {
+      return {
+        canParser: true,
+        confidence: hasKnownName ? confidence : Math.max(confidence - 0.1, 0),
+        format: definition.name,
+        reason: hasKnownName
+          ? `File name and content match format ${definition.name}`
+          : `Content matches format ${definition.name}`
+      };
+    }
+
+    if (hasKnownName && hasContent && matchingLines > 0) {
+      return {
+        canParser: true,
+        confidence: 0.5,
+        format: definition.name,
+        reason: `File name matches format ${definition.name} but content partially matches`
+      };
+    }
+
+    return {
+      canParser: false,
+      confidence: 0,
+      reason: `Does not match format ${definition.name}`
+    };
+  }
+
+  parseLine(line: string, lineNumber: number, options: ParserOptions = {}): LogEntry | null {
+    if (!line.trim()) {
+      return null;
+    }
+
+    const match = this.format.linePattern.exec(line);
+    if (!match) {
+      return this.createUnmatchedEntry(line, lineNumber);
+    }
+
+    return this.buildEntry(line, lineNumber, match.groups ?? {}, [], options);
+  }
+
+  /**
+   * Com multiline, só linhas no padrão iniciam entradas
+   */
+  isEntryStart(line: string): boolean {
+    return !this.format.definition.multiline || this.format.linePattern.test(line);
+  }
+
+  /**
+   * Com multiline, linhas fora do padrão são acrescentadas à mensagem da entrada anterior
+   */
+  processLine(line: string, lineNumber: number, options: ParserOptions): LogEntry[] {
+    if (!this.format.definition.multiline) {
+      return super.processLine(line, lineNumber, options);
+    }
+
+    const match = this.format.linePattern.exec(line);
+
+    if (!match && this.pending) {
+      this.pending.continuation.push(line);
+      this.pending.endLineNumber = lineNumber;
+      return [];
+    }
+
+    const ready = this.flushPendingEntries(options);
+
+    if (!match) {
+      ready.push(this.createUnmatchedEntry(line, lineNumber));
+      return ready;
+    }
+
+    this.pending = {
+      rawLine: line,
+      lineNumber,
+      captures: match.groups ?? {},
+      continuation: [],
+      endLineNumber: lineNumber
+    };
+
+    return ready;
+  }
+
+  flushPendingEntries(options: ParserOptions): LogEntry[] {
+    const pending = this.pending;
+    if (!pending) {
+      return [];
+    }
+
+    this.pending = null;
+
+    const rawLine = [pending.rawLine, ...pending.continuation].join('\n');
+    const entry = this.buildEntry(rawLine, pending.lineNumber, pending.captures, pending.continuation, options);
+
+    if (pending.continuation.length > 0) {
+      entry.endLineNumber = pending.endLineNumber;
+      if (entry.sqlInfo) {
+        entry.sqlInfo.isMultiLine = true;
+      }
+    }
+
+    return [entry];
+  }
+
+  protected resetState(): void {
+    this.pending = null;
+  }
+
+  /**
+   * Monta a entrada a partir das capturas da linha (e das linhas de continuação)
+   */
+  private buildEntry(
+    rawLine: string,
+    lineNumber: number,
+    captures: Record<string, string>,
+    continuation: string[],
+    options: ParserOptions
+  ): LogEntry {
+    const field = (name: FormatField): string | undefined => {
+      const capture = this.format.captures[name];
+      return capture ? captures[capture]?.trim() : undefined;
+    };
+
+    const parsingIssues: string[] = [];
+    const context = this.buildContext(field, parsingIssues, options);
+
+    // Sem captura message (ou fora do ramo que casou), a mensagem é a linha inteira
+    const continuationText = continuation.map(line => line.trim()).filter(line => line.length > 0);
+    const message = [field('message') || rawLine.split('\n')[0].trim(), ...continuationText].join('\n');
+
+    const rule = this.format.rules.find(candidate => {
+      const value = candidate.field && candidate.field !== 'message' ? captures[candidate.field] : message;
+      return value !== undefined && candidate.regex.test(value);
+    });
+
+    const messageType = rule?.type ?? this.format.definition.defaultType ?? 'INFO';
+    const sqlInfo = this.buildSQLInfo(field, message, continuationText, messageType === 'SQL');
+
+    const entry: LogEntry = {
+      lineNumber,
+      rawLine,
+      context,
+      message,
+      messageType,
+      severity: rule?.severity ?? this.determineSeverity(message, messageType, sqlInfo?.executionTime),
+      sqlInfo,
+      tags: [],
+      parsingIssues
+    };
+
+    entry.tags = [...this.generateTags(entry), ...(rule?.tags ?? [])];
+
+    return entry;
+  }
+
+  /**
+   * Contexto da linha: data completa da captura date (quando há dateFormat)
+   * ou horário da captura timestamp, completado pela data base do arquivo
+   */
+  private buildContext(
+    field: (name: FormatField) => string | undefined,
+    parsingIssues: string[],
+    options: ParserOptions
+  ): ExecutionContext {
+    const memoryUsage = field('memoryUsage') ?? '';
+
+    const context: ExecutionContext = {
+      timestamp: '',
+      serverInfo: field('serverInfo') ?? '',
+      processId: field('processId') ?? '',
+      memoryUsage,
+      memoryMB: memoryUsage ? parseMemoryString(memoryUsage) : 0,
+      connectionIndex: field('connectionIndex') ?? ''
+    };
+
+    const dateText = field('date');
+    if (dateText !== undefined && this.format.parseDate) {
+      const fullDate = this.format.parseDate(dateText);
+      if (fullDate) {
+        context.fullDate = fullDate;
+        context.timestamp = formatTimeOfDay(fullDate);
+        return context;
+      }
+      parsingIssues.push(`Unrecognized date: ${dateText}`);
+    }
+
+    const timestamp = normalizeTimestamp(field('timestamp'));
+    if (timestamp) {
+      const inferred = this.timestampInferrer.infer(timestamp, options.baseDate);
+      context.timestamp = timestamp;
+      context.fullDate = inferred.fullDate;
+
+      if (inferred.outOfOrder) {
+        parsingIssues.push(OUT_OF_ORDER_ISSUE);
+      }
+    }
+
+    return context;
+  }
+
+  /**
+   * Informações de SQL das capturas query/executionTime/recordsReturned
+   * (em mensagens do tipo SQL sem captura query, a própria mensagem é a query)
+   * Linhas de continuação completam a query capturada (SQL multi-linha)
+   */
+  private buildSQLInfo(
+    field: (name: FormatField) => string | undefined,
+    message: string,
+    continuation: string[],
+    isSQL: boolean
+  ): SQLInfo | undefined {
+    const sqlInfo: Partial<SQLInfo> = {};
+
+    const capturedQuery = field('query');
+    const query = capturedQuery ? [capturedQuery, ...continuation].join('\n') : (isSQL ? message : undefined);
+    if (query) {
+      sqlInfo.query = cleanSQL(query);
+      sqlInfo.statement = analyzeSQL(sqlInfo.query);
+      sqlInfo.queryType = sqlInfo.statement.kind;
+      sqlInfo.tables = getTableNames(sqlInfo.statement);
+      sqlInfo.stage = 'executed';
+    }
+
+    const executionTime = parseNumber(field('executionTime'));
+    if (executionTime !== undefined) {
+      sqlInfo.executionTime = this.format.definition.executionTimeUnit === 'ms' ? executionTime / 1000 : executionTime;
+    }
+
+    const recordsReturned = parseNumber(field('recordsReturned'));
+    if (recordsReturned !== undefined) {
+      sqlInfo.recordsReturned = recordsReturned;
+    }
+
+    if (!sqlInfo.query && (sqlInfo.executionTime !== undefined || sqlInfo.recordsReturned !== undefined)) {
+      sqlInfo.stage = 'result';
+    }
+
+    const fingerprint = getSQLFingerprint(sqlInfo as SQLInfo);
+    if (fingerprint) {
+      sqlInfo.fingerprint = fingerprint;
+    }
+
+    return Object.keys(sqlInfo).length > 0 ? sqlInfo as SQLInfo : undefined;
+  }
+
+  private createUnmatchedEntry(line: string, lineNumber: number): LogEntry {
+    return {
+      lineNumber,
+      rawLine: line,
+      context: {
+        timestamp: '',
+        serverInfo: '',
+        processId: '',
+        memoryUsage: '',
+        memoryMB: 0,
+        connectionIndex: ''
+      },
+      message: line.trim(),
+      messageType: 'UNKNOWN',
+      severity: 'INFO',
+      tags: ['unknown'],
+      parsingIssues: ['Non-standard line format']
+    };
+  }
+}
+
+/**
+ * HH:MM:SS a partir de capturas como "9:05:01" ou "09:05:01.123"
+ */
+function normalizeTimestamp(value: string | undefined): string | undefined {
+  const match = value ? /^(\d{1,2}):(\d{2}):(\d{2})/.exec(value) : null;
+  return match ? `${match[1].padStart(2, '0')}:${match[2]}:${match[3]}` : undefined;
+}
+
+function parseNumber(value: string | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const number = Number(value.replace(',', '.'));
+  return Number.isFinite(number) ? number : undefined;
+}
@@ -0,0 +1,355 @@
+import { BaseLogParser } from '../base/BaseLogParser';
+import {
+  FormatDetectionResult,
+  ParserOptions
+} from '../../../../shared/types/parser.types';
+import {
+  ExecutionContext,
+  LogEntry,
+  SQLInfo
+} from '../../../../shared/types/log.types';
+import { cleanSQL, formatTimeOfDay, parseDateTime } from '../utils/ParserUtils';
+import { analyzeSQL, getTableNames } from '../utils/SQLAnalyzer';
+import { getSQLFingerprint } from '../utils/SQLFingerprint';
+
+/**
+ * Bloco do slow log: cabeçalhos "# ..." seguidos da query
+ */
+interface SlowQueryBlock {
+  lineNumber: number;
+  endLineNumber: number;
+  rawLines: string[];
+  date?: Date;
+  user?: string;
+  host?: string;
+  threadId?: string;
+  database?: string;
+  metrics: Record<string, string>;
+  queryLines: string[];
+
+  /** Bloco de início do servidor ("mysqld, Version: ... started with:") */
+  isServerStart?: boolean;
+}
+
+/**
+ * Parser do slow query log do MySQL/MariaDB
+ *
+ * Cada bloco (# Time, # User@Host, # Query_time ..., use, SET timestamp, query)
+ * vira uma entrada SQL completa com tempo, registros enviados e examinados.
+ * A data vem de SET timestamp (início da execução) ou, na falta dele, de # Time;
+ * blocos sem nenhum dos dois (mesmo segundo do anterior) herdam a data anterior.
+ * O banco vem de "use" ou de Schema (MariaDB) e vale para os blocos seguintes; em
+ * partes lidas separadamente (parsing paralelo) ele só aparece a partir do próximo "use"
+ */
+export class MySQLSlowLogParser extends BaseLogParser {
+  private readonly HEADER_PATTERNS = {
+    TIME: /^# Time:\s*(.+)$/,
+    USER_HOST: /^# User@Host:\s*([^\[\s]*)\s*\[[^\]]*\]\s*@\s*([^\[\s]*)\s*\[([^\]]*)\](?:\s+Id:\s*(\d+))?/,
+    METRIC: /(\w+):\s*(\S+)/g,
+    USE: /^use\s+`?([^`;\s]+)`?;\s*$/i,
+    SET_TIMESTAMP: /^SET timestamp=(\d+);\s*$/i,
+    SERVER_START: /^\S.*, Version: .*started with:\s*$/
+  };
+
+  private block: SlowQueryBlock | null = null;
+  private currentDatabase?: string;
+  private lastDate?: Date;
+
+  getName(): string {
+    return 'MySQLSlowLogParser';
+  }
+
+  getSupportedFormats(): string[] {
+    return ['.log'];
+  }
+
+  hasFullDates(): boolean {
+    return true;
+  }
+
+  canParse(filename: string, sampleContent: string): FormatDetectionResult {
+    return this.canParser(filename, sampleContent);
+  }
+
+  canParser(filename: string, sampleContent: string): FormatDetectionResult {
+    const hasSlowLogName = /slow/i.test(filename);
+    const hasQueryTime = /^# Query_time:\s*\d/m.test(sampleContent);
+    const hasUserHost = /^# User@Host:/m.test(sampleContent);
+
+    if (hasQueryTime && hasUserHost) {
+      return {
+        canParser: true,
+        confidence: hasSlowLogName ? 0.95 : 0.9,
+        format: 'mysql-slow',
+        reason: 'Content matches MySQL slow query log headers'
+      };
+    }
+
+    if (hasQueryTime || hasUserHost) {
+      return {
+        canParser: true,
+        confidence: 0.7,
+        format: 'mysql-slow',
+        reason: 'Content partially matches MySQL slow query log headers'
+      };
+    }
+
+    if (hasSlowLogName && this.HEADER_PATTERNS.SERVER_START.test(sampleContent.split('\n')[0] ?? '')) {
+      return {
+        canParser: true,
+        confidence: 0.6,
+        format: 'mysql-slow',
+        reason: 'MySQL server header in a slow log file without queries yet'
+      };
+    }
+
+    return {
+      canParser: false,
+      confidence: 0,
+      reason: 'Does not match MySQL slow query log format'
+    };
+  }
+
+  /**
+   * Uma linha isolada só é entendida se for um bloco de uma linha (a query);
+   * o slow log é lido por blocos em processLine
+   */
+  parseLine(line: string, lineNumber: number, _options?: ParserOptions): LogEntry | null {
+    if (!line.trim()) {
+      return null;
+    }
+
+    return this.buildEntry(this.createBlock(line, lineNumber, { queryLines: [line] }));
+  }
+
+  /**
+   * Partes lidas separadamente começam em # Time (blocos sem ele são do mesmo segundo do anterior)
+   */
+  isEntryStart(line: string): boolean {
+    return this.HEADER_PATTERNS.TIME.test(line) || this.HEADER_PATTERNS.SERVER_START.test(line);
+  }
+
+  processLine(line: string, lineNumber: number, options: ParserOptions): LogEntry[] {
+    const time = this.HEADER_PATTERNS.TIME.exec(line);
+    if (time) {
+      const ready = this.flushPendingEntries(options);
+      this.block = this.createBlock(line, lineNumber, { date: parseDateTime(time[1]) });
+      return ready;
+    }
+
+    const userHost = this.HEADER_PATTERNS.USER_HOST.exec(line);
+    if (userHost) {
+      // Sem # Time, o User@Host abre o bloco (mesmo segundo do bloco anterior)
+      const startsBlock = !this.block || this.block.user !== undefined ||
+        this.block.queryLines.length > 0 || this.block.isServerStart;
+      const ready = startsBlock ? this.flushPendingEntries(options) : [];
+
+      const block = this.block ?? this.createBlock(line, lineNumber, {});
+      if (this.block) {
+        this.addLine(block, line, lineNumber);
+      }
+
+      const [, user, hostName, hostAddress, threadId] = userHost;
+      block.user = user || undefined;
+      block.host = hostName || hostAddress || undefined;
+      block.threadId = threadId;
+      this.block = block;
+
+      return ready;
+    }
+
+    if (this.HEADER_PATTERNS.SERVER_START.test(line)) {
+      const ready = this.flushPendingEntries(options);
+      this.block = this.createBlock(line, lineNumber, { isServerStart: true, queryLines: [line] });
+      return ready;
+    }
+
+    if (!this.block) {
+      return [this.createUnknownEntry(line, lineNumber)];
+    }
+
+    this.addLine(this.block, line, lineNumber);
+
+    if (this.block.isServerStart || line.startsWith('# administrator command:')) {
+      this.block.queryLines.push(line);
+    } else if (line.startsWith('#') && this.block.queryLines.length === 0) {
+      for (const [, name, value] of line.matchAll(this.HEADER_PATTERNS.METRIC)) {
+        this.block.metrics[name] = value;
+      }
+    } else if (this.HEADER_PATTERNS.USE.test(line) && this.block.queryLines.length === 0) {
+      this.block.database = this.HEADER_PATTERNS.USE.exec(line)![1];
+    } else if (this.HEADER_PATTERNS.SET_TIMESTAMP.test(line) && this.block.queryLines.length === 0) {
+      this.block.date = new Date(Number(this.HEADER_PATTERNS.SET_TIMESTAMP.exec(line)![1]) * 1000);
+    } else {
+      this.block.queryLines.push(line);
+    }
+
+    return [];
+  }
+
+  flushPendingEntries(_options: ParserOptions): LogEntry[] {
+    const block = this.block;
+    if (!block) {
+      return [];
+    }
+
+    this.block = null;
+    return [this.buildEntry(block)];
+  }
+
+  protected resetState(): void {
+    this.block = null;
+    this.currentDatabase = undefined;
+    this.lastDate = undefined;
+  }
+
+  private createBlock(line: string, lineNumber: number, fields: Partial<SlowQueryBlock>): SlowQueryBlock {
+    return {
+      lineNumber,
+      endLineNumber: lineNumber,
+      rawLines: [line],
+      metrics: {},
+      queryLines: [],
+      ...fields
+    };
+  }
+
+  private addLine(block: SlowQueryBlock, line: string, lineNumber: number): void {
+    block.rawLines.push(line);
+    block.endLineNumber = lineNumber;
+  }
+
+  private buildEntry(block: SlowQueryBlock): LogEntry {
+    const { metrics } = block;
+
+    this.currentDatabase = block.database ?? metrics.Schema ?? this.currentDatabase;
+    const date = block.date ?? this.lastDate;
+    this.lastDate = date;
+
+    const threadId = block.threadId ?? metrics.Thread_id;
+    const context: ExecutionContext = {
+      timestamp: date ? formatTimeOfDay(date) : '',
+      fullDate: date,
+      serverInfo: block.host ?? '',
+      // Sem Id/Thread_id (versões antigas), a sessão é identificada por usuário@host
+      processId: threadId ?? [block.user, block.host].filter(Boolean).join('@'),
+      memoryUsage: '',
+      memoryMB: 0,
+      connectionIndex: '',
+      user: block.user,
+      database: this.currentDatabase
+    };
+
+    const message = block.queryLines.join('\n').trim();
+    const parsingIssues: string[] = [];
+
+    if (block.isServerStart) {
+      return {
+        lineNumber: block.lineNumber,
+        endLineNumber: block.endLineNumber > block.lineNumber ? block.endLineNumber : undefined,
+        rawLine: block.rawLines.join('\n'),
+        context,
+        message,
+        messageType: 'INFO',
+        severity: 'INFO',
+        tags: ['info', 'server-start'],
+        parsingIssues
+      };
+    }
+
+    if (!date) {
+      parsingIssues.push('Missing or unrecognized timestamp');
+    }
+
+    // "# administrator command: Quit;" (comandos do protocolo) não são queries
+    const isAdminCommand = message.startsWith('# administrator command:');
+    const sqlInfo = message && !isAdminCommand ? this.buildSQLInfo(message, metrics) : undefined;
+    if (!message) {
+      parsingIssues.push('Slow log entry without query');
+    }
+
+    const entry: LogEntry = {
+      lineNumber: block.lineNumber,
+      rawLine: block.rawLines.join('\n'),
+      context,
+      message,
+      messageType: sqlInfo ? 'SQL' : (isAdminCommand ? 'INFO' : 'UNKNOWN'),
+      // O texto da query não é testado contra as palavras-chave de erro
+      severity: this.determineSeverity('', 'SQL', sqlInfo?.executionTime),
+      sqlInfo,
+      tags: [],
+      parsingIssues
+    };
+
+    if (block.endLineNumber > block.lineNumber) {
+      entry.endLineNumber = block.endLineNumber;
+    }
+
+    entry.tags = this.generateTags(entry);
+
+    if (isAdminCommand) {
+      entry.tags.push('admin-command');
+    }
+
+    return entry;
+  }
+
+  private buildSQLInfo(query: string, metrics: Record<string, string>): SQLInfo {
+    const sqlInfo: SQLInfo = { query: cleanSQL(query) };
+
+    sqlInfo.statement = analyzeSQL(sqlInfo.query);
+    sqlInfo.queryType = sqlInfo.statement.kind;
+    sqlInfo.tables = getTableNames(sqlInfo.statement);
+    sqlInfo.isMultiLine = query.includes('\n') || undefined;
+
+    const queryTime = parseMetric(metrics.Query_time);
+    if (queryTime !== undefined) {
+      sqlInfo.executionTime = queryTime;
+    }
+
+    const rowsSent = parseMetric(metrics.Rows_sent);
+    if (rowsSent !== undefined) {
+      sqlInfo.recordsReturned = rowsSent;
+    }
+
+    const rowsExamined = parseMetric(metrics.Rows_examined);
+    if (rowsExamined !== undefined) {
+      sqlInfo.rowsExamined = rowsExamined;
+    }
+
+    const fingerprint = getSQLFingerprint(sqlInfo);
+    if (fingerprint) {
+      sqlInfo.fingerprint = fingerprint;
+    }
+
+    return sqlInfo;
+  }
+
+  private createUnknownEntry(line: string, lineNumber: number): LogEntry {
+    return {
+      lineNumber,
+      rawLine: line,
+      context: {
+        timestamp: '',
+        serverInfo: '',
+        processId: '',
+        memoryUsage: '',
+        memoryMB: 0,
+        connectionIndex: ''
+      },
+      message: line.trim(),
+      messageType: 'UNKNOWN',
+      severity: 'INFO',
+      tags: ['unknown'],
+      parsingIssues: ['Non-standard line format']
+    };
+  }
+}
+
+function parseMetric(value: string | undefined): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const number = Number(value);
+  return Number.isFinite(number) ? number : undefined;
+}
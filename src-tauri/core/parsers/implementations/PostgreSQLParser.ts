@@ -0,0 +1,559 @@
+import { BaseLogParser } from '../base/BaseLogParser';
+import {
+  FormatDetectionResult,
+  ParserOptions
+} from '../../../../shared/types/parser.types';
+import {
+  ExecutionContext,
+  LogEntry,
+  LogMessageType,
+  LogSeverity,
+  SQLInfo
+} from '../../../../shared/types/log.types';
+import { cleanSQL, formatTimeOfDay, parseDateTime } from '../utils/ParserUtils';
+import { analyzeSQL, getTableNames } from '../utils/SQLAnalyzer';
+import { getSQLFingerprint } from '../utils/SQLFingerprint';
+
+/** Níveis que complementam a mensagem anterior do mesmo processo */
+const SECONDARY_LEVELS = new Set(['DETAIL', 'HINT', 'CONTEXT', 'STATEMENT', 'QUERY', 'LOCATION']);
+
+/** Colunas do csvlog usadas (iguais do PostgreSQL 9.0 ao 16) */
+const CSV_COLUMNS = {
+  logTime: 0,
+  userName: 1,
+  databaseName: 2,
+  processId: 3,
+  connectionFrom: 4,
+  errorSeverity: 11,
+  message: 13,
+  detail: 14,
+  hint: 15,
+  context: 18,
+  query: 19,
+  applicationName: 22
+};
+
+/**
+ * Registro do log (linha com prefixo ou linha do csvlog) e os complementos
+ * (DETAIL, STATEMENT...) que vieram depois dele
+ */
+interface PgEvent {
+  lineNumber: number;
+  endLineNumber: number;
+  rawLines: string[];
+  date?: Date;
+  processId: string;
+  user?: string;
+  database?: string;
+  client?: string;
+  application?: string;
+  level: string;
+  text: string;
+  details: Array<{ level: string; text: string }>;
+}
+
+/** Registro do csvlog ainda com aspas abertas (campo com quebra de linha) */
+interface PendingCsvRecord {
+  lines: string[];
+  lineNumber: number;
+}
+
+/**
+ * Parser do log do servidor PostgreSQL (log_min_duration_statement / log_statement)
+ *
+ * Lê a saída stderr com qualquer log_line_prefix que tenha a data (%t ou %m),
+ * o PID como [%p] ou pid=%p e, opcionalmente, user=%u, db=%d, app=%a e client=%h,
+ * e também o csvlog. Cada "duration: ... statement/execute" vira uma entrada SQL
+ * completa; os parâmetros do DETAIL seguinte viram binds e a query decodificada
+ */
+export class PostgreSQLParser extends BaseLogParser {
+  private readonly STDERR_LINE_PATTERN =
+    /^(.*?)\b(LOG|ERROR|WARNING|FATAL|PANIC|NOTICE|INFO|DEBUG[1-5]?|DETAIL|HINT|CONTEXT|STATEMENT|QUERY|LOCATION):  (.*)$/;
+
+  private readonly PREFIX_DATE_PATTERN =
+    /(\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}(?:\.\d+)?(?: (?:[A-Za-z][\w/+-]*|[+-]\d{2}(?::?\d{2})?))?)/;
+
+  private readonly CSV_LINE_PATTERN = /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}(?:\.\d+)?(?: [\w/+:-]+)?,/;
+
+  private readonly MESSAGE_PATTERNS = {
+    DURATION: /^duration: (\d+(?:\.\d+)?) ms(?:\s+(statement|execute|parse|bind)(?:\s+([^:]*))?:\s*([\s\S]*))?$/,
+    STATEMENT: /^(statement|execute)(?:\s+([^:]*))?:\s*([\s\S]*)$/,
+    PARAMETERS: /^parameters: ([\s\S]*)$/,
+    PARAMETER: /\$(\d+) = ('(?:[^']|'')*'|NULL)/g
+  };
+
+  private pending: PgEvent | null = null;
+  private pendingCsv: PendingCsvRecord | null = null;
+
+  getName(): string {
+    return 'PostgreSQLParser';
+  }
+
+  getSupportedFormats(): string[] {
+    return ['.log', '.csv'];
+  }
+
+  hasFullDates(): boolean {
+    return true;
+  }
+
+  canParse(filename: string, sampleContent: string): FormatDetectionResult {
+    return this.canParser(filename, sampleContent);
+  }
+
+  canParser(filename: string, sampleContent: string): FormatDetectionResult {
+    const hasPostgresName = /postgres|pg_log|\bpg[-_]/i.test(filename);
+    const lines = sampleContent.split('\n').filter(line => line.trim()).slice(0, 20);
+
+    let recordLines = 0;
+    let statementLines = 0;
+
+    for (const line of lines) {
+      const header = this.STDERR_LINE_PATTERN.exec(line);
+      const isRecord = (header !== null && this.PREFIX_DATE_PATTERN.test(header[1])) ||
+        this.CSV_LINE_PATTERN.test(line);
+
+      if (isRecord) {
+        recordLines++;
+        if (/duration: \d|statement: |execute [^:]*: /.test(line)) {
+          statementLines++;
+        }
+      }
+    }
+
+    const matchRatio = lines.length > 0 ? recordLines / lines.length : 0;
+
+    if (statementLines > 0 && matchRatio >= 0.5) {
+      return {
+        canParser: true,
+        confidence: hasPostgresName ? 0.95 : 0.9,
+        format: 'postgresql',
+        reason: 'Content matches PostgreSQL statement/duration log lines'
+      };
+    }
+
+    if (matchRatio >= 0.5) {
+      return {
+        canParser: true,
+        confidence: hasPostgresName ? 0.85 : 0.75,
+        format: 'postgresql',
+        reason: 'Content matches PostgreSQL server log format'
+      };
+    }
+
+    if (recordLines > 0) {
+      return {
+        canParser: true,
+        confidence: 0.5,
+        format: 'postgresql',
+        reason: 'Content partially matches PostgreSQL server log format'
+      };
+    }
+
+    return {
+      canParser: false,
+      confidence: 0,
+      reason: 'Does not match PostgreSQL log format'
+    };
+  }
+
+  parseLine(line: string, lineNumber: number, _options?: ParserOptions): LogEntry | null {
+    if (!line.trim()) {
+      return null;
+    }
+
+    const event = this.CSV_LINE_PATTERN.test(line)
+      ? this.parseCsvRecord([line], lineNumber)
+      : this.parseStderrLine(line, lineNumber);
+
+    return event ? this.buildEntry(event) : this.createUnknownEntry(line, lineNumber);
+  }
+
+  /**
+   * Registros do csvlog e linhas com prefixo que não são complementos (DETAIL, STATEMENT...)
+   */
+  isEntryStart(line: string): boolean {
+    if (this.CSV_LINE_PATTERN.test(line)) {
+      return true;
+    }
+
+    const header = this.STDERR_LINE_PATTERN.exec(line);
+    return header !== null && this.PREFIX_DATE_PATTERN.test(header[1]) && !SECONDARY_LEVELS.has(header[2]);
+  }
+
+  /**
+   * Agrupa as linhas de continuação (SQL em várias linhas) e os complementos
+   * do mesmo PID na entrada que os precede; no csvlog, junta os campos com quebra de linha
+   */
+  processLine(line: string, lineNumber: number, options: ParserOptions): LogEntry[] {
+    if (this.pendingCsv) {
+      this.pendingCsv.lines.push(line);
+      return this.completeCsvRecord();
+    }
+
+    if (this.CSV_LINE_PATTERN.test(line)) {
+      const ready = this.flushPendingEntries(options);
+      this.pendingCsv = { lines: [line], lineNumber };
+      return [...ready, ...this.completeCsvRecord()];
+    }
+
+    const event = this.parseStderrLine(line, lineNumber);
+
+    if (!event) {
+      if (this.pending) {
+        this.appendContinuation(this.pending, line, lineNumber);
+        return [];
+      }
+      return [this.createUnknownEntry(line, lineNumber)];
+    }
+
+    if (SECONDARY_LEVELS.has(event.level) && this.pending && this.pending.processId === event.processId) {
+      this.pending.details.push({ level: event.level, text: event.text });
+      this.pending.rawLines.push(line);
+      this.pending.endLineNumber = lineNumber;
+      return [];
+    }
+
+    const ready = this.flushPendingEntries(options);
+    this.pending = event;
+    return ready;
+  }
+
+  flushPendingEntries(_options: ParserOptions): LogEntry[] {
+    const ready: LogEntry[] = [];
+
+    if (this.pending) {
+      ready.push(this.buildEntry(this.pending));
+      this.pending = null;
+    }
+
+    // Registro do csvlog que terminou sem fechar as aspas
+    if (this.pendingCsv) {
+      const { lines, lineNumber } = this.pendingCsv;
+      this.pendingCsv = null;
+
+      const entry = this.buildEntry(this.parseCsvRecord(lines, lineNumber));
+      entry.parsingIssues!.push('Unterminated CSV record');
+      ready.push(entry);
+    }
+
+    return ready;
+  }
+
+  protected resetState(): void {
+    this.pending = null;
+    this.pendingCsv = null;
+  }
+
+  private completeCsvRecord(): LogEntry[] {
+    const { lines, lineNumber } = this.pendingCsv!;
+
+    // Aspas escapadas são duplicadas: registro completo tem quantidade par
+    const quotes = lines.reduce((count, line) => count + (line.match(/"/g)?.length ?? 0), 0);
+    if (quotes % 2 !== 0) {
+      return [];
+    }
+
+    this.pendingCsv = null;
+    return [this.buildEntry(this.parseCsvRecord(lines, lineNumber))];
+  }
+
+  private parseStderrLine(line: string, lineNumber: number): PgEvent | null {
+    const header = this.STDERR_LINE_PATTERN.exec(line);
+    const dateMatch = header ? this.PREFIX_DATE_PATTERN.exec(header[1]) : null;
+
+    if (!header || !dateMatch) {
+      return null;
+    }
+
+    const [, prefix, level, text] = header;
+    const user = /\buser=([^,\s\]]+)/.exec(prefix)?.[1];
+    const database = /\b(?:db|database)=([^,\s\]]+)/.exec(prefix)?.[1];
+
+    return {
+      lineNumber,
+      endLineNumber: lineNumber,
+      rawLines: [line],
+      date: parseDateTime(dateMatch[1]),
+      processId: /\[(\d+)\]/.exec(prefix)?.[1] ?? /\bpid=(\d+)/.exec(prefix)?.[1] ?? '',
+      user,
+      database,
+      client: /\b(?:client|host)=([^,\s\]]+)/.exec(prefix)?.[1],
+      application: /\bapp=([^,\]]+?)(?=,|\s+\w+=|\s*$)/.exec(prefix)?.[1],
+      level,
+      text,
+      details: []
+    };
+  }
+
+  private parseCsvRecord(lines: string[], lineNumber: number): PgEvent {
+    const fields = parseCsvFields(lines.join('\n'));
+    const field = (index: number) => fields[index] || undefined;
+    const details: PgEvent['details'] = [];
+
+    const detailColumns: Array<[string, number]> = [
+      ['DETAIL', CSV_COLUMNS.detail],
+      ['HINT', CSV_COLUMNS.hint],
+      ['CONTEXT', CSV_COLUMNS.context],
+      ['STATEMENT', CSV_COLUMNS.query]
+    ];
+    for (const [level, index] of detailColumns) {
+      const text = field(index);
+      if (text) {
+        details.push({ level, text });
+      }
+    }
+
+    return {
+      lineNumber,
+      endLineNumber: lineNumber + lines.length - 1,
+      rawLines: lines,
+      date: parseDateTime(fields[CSV_COLUMNS.logTime] ?? ''),
+      processId: field(CSV_COLUMNS.processId) ?? '',
+      user: field(CSV_COLUMNS.userName),
+      database: field(CSV_COLUMNS.databaseName),
+      client: field(CSV_COLUMNS.connectionFrom),
+      application: field(CSV_COLUMNS.applicationName),
+      level: field(CSV_COLUMNS.errorSeverity) ?? 'LOG',
+      text: field(CSV_COLUMNS.message) ?? '',
+      details
+    };
+  }
+
+  /**
+   * Linha sem prefixo: continuação do texto da última parte do registro (SQL em várias linhas)
+   */
+  private appendContinuation(event: PgEvent, line: string, lineNumber: number): void {
+    const text = line.replace(/^\t/, '');
+    const lastDetail = event.details[event.details.length - 1];
+
+    if (lastDetail) {
+      lastDetail.text += `\n${text}`;
+    } else {
+      event.text += `\n${text}`;
+    }
+
+    event.rawLines.push(line);
+    event.endLineNumber = lineNumber;
+  }
+
+  /**
+   * Monta a entrada: tipo e SQL a partir do texto da mensagem, binds do DETAIL
+   */
+  private buildEntry(event: PgEvent): LogEntry {
+    const context: ExecutionContext = {
+      timestamp: event.date ? formatTimeOfDay(event.date) : '',
+      fullDate: event.date,
+      serverInfo: event.client ?? '',
+      processId: event.processId || [event.user, event.database].filter(Boolean).join('@'),
+      memoryUsage: '',
+      memoryMB: 0,
+      connectionIndex: event.application ?? '',
+      user: event.user,
+      database: event.database
+    };
+
+    const { messageType, sqlInfo, tags } = this.analyzeMessage(event);
+
+    const message = [
+      event.text.trim(),
+      ...event.details.map(detail => `${detail.level}:  ${detail.text.trim()}`)
+    ].join('\n');
+
+    const entry: LogEntry = {
+      lineNumber: event.lineNumber,
+      rawLine: event.rawLines.join('\n'),
+      context,
+      message,
+      messageType,
+      severity: this.severityOf(event.level, message, messageType, sqlInfo?.executionTime),
+      sqlInfo,
+      tags: [],
+      parsingIssues: event.date ? [] : ['Missing or unrecognized timestamp']
+    };
+
+    if (event.endLineNumber > event.lineNumber) {
+      entry.endLineNumber = event.endLineNumber;
+    }
+
+    entry.tags = [...this.generateTags(entry), ...tags];
+
+    return entry;
+  }
+
+  /**
+   * Tipo e SQL da mensagem
+   * - "duration: N ms  statement|execute ...": execução completa (sem etapa)
+   * - "statement: ..." (log_statement) e "duration: N ms" (log_duration) isolados
+   *   são etapas, correlacionadas pelo PID
+   * - durações de parse/bind não são execuções (a de execute vem em seguida)
+   */
+  private analyzeMessage(event: PgEvent): {
+    messageType: LogMessageType;
+    sqlInfo?: SQLInfo;
+    tags: string[];
+  } {
+    if (event.level === 'ERROR' || event.level === 'FATAL' || event.level === 'PANIC') {
+      return { messageType: 'ERROR', tags: [] };
+    }
+    if (event.level !== 'LOG') {
+      return { messageType: event.level.startsWith('DEBUG') ? 'DEBUG' : 'INFO', tags: [] };
+    }
+
+    const text = event.text.trim();
+    const duration = this.MESSAGE_PATTERNS.DURATION.exec(text);
+
+    if (duration) {
+      const [, milliseconds, phase, statementName, query] = duration;
+      const executionTime = Number(milliseconds) / 1000;
+
+      if (phase === 'parse' || phase === 'bind') {
+        return { messageType: 'DEBUG', tags: [`pg-${phase}`] };
+      }
+      if (!phase) {
+        return { messageType: 'PERFORMANCE', sqlInfo: { query: '', executionTime, stage: 'result' }, tags: [] };
+      }
+
+      const sqlInfo = this.buildSQLInfo(query, event);
+      sqlInfo.executionTime = executionTime;
+      return { messageType: 'SQL', sqlInfo, tags: statementName ? ['prepared'] : [] };
+    }
+
+    const statement = this.MESSAGE_PATTERNS.STATEMENT.exec(text);
+    if (statement) {
+      const sqlInfo = this.buildSQLInfo(statement[3], event);
+      sqlInfo.stage = 'executed';
+      return { messageType: 'SQL', sqlInfo, tags: statement[2] ? ['prepared'] : [] };
+    }
+
+    if (/^(BEGIN|COMMIT|ROLLBACK)\b/i.test(text)) {
+      return { messageType: 'TRANSACTION', tags: [] };
+    }
+
+    return { messageType: 'INFO', tags: [] };
+  }
+
+  private buildSQLInfo(query: string, event: PgEvent): SQLInfo {
+    const sqlInfo: SQLInfo = { query: cleanSQL(query) };
+
+    sqlInfo.statement = analyzeSQL(sqlInfo.query);
+    sqlInfo.queryType = sqlInfo.statement.kind;
+    sqlInfo.tables = getTableNames(sqlInfo.statement);
+
+    const parameters = event.details
+      .filter(detail => detail.level === 'DETAIL')
+      .map(detail => this.MESSAGE_PATTERNS.PARAMETERS.exec(detail.text.trim()))
+      .find(match => match !== null);
+
+    if (parameters) {
+      const literals = new Map<string, string>();
+      for (const [, index, literal] of parameters[1].matchAll(this.MESSAGE_PATTERNS.PARAMETER)) {
+        literals.set(index, literal);
+      }
+
+      sqlInfo.binds = Object.fromEntries(
+        Array.from(literals, ([index, literal]) => [`$${index}`, parseSqlLiteral(literal)])
+      );
+      sqlInfo.decodedQuery = sqlInfo.query.replace(/\$(\d+)(?!\d)/g, (placeholder, index: string) =>
+        literals.get(index) ?? placeholder
+      );
+    }
+
+    const fingerprint = getSQLFingerprint(sqlInfo);
+    if (fingerprint) {
+      sqlInfo.fingerprint = fingerprint;
+    }
+
+    return sqlInfo;
+  }
+
+  /**
+   * Severidade pelo nível do PostgreSQL; mensagens LOG seguem as palavras-chave
+   * e os limites de query lenta do perfil de thresholds (o texto de SQL não é
+   * testado contra as palavras-chave: tabelas como erro_log não são erros)
+   */
+  private severityOf(
+    level: string,
+    message: string,
+    messageType: LogMessageType,
+    executionTime?: number
+  ): LogSeverity {
+    switch (level) {
+      case 'PANIC':
+      case 'FATAL':
+        return 'CRITICAL';
+      case 'ERROR':
+        return 'ERROR';
+      case 'WARNING':
+        return 'WARNING';
+      case 'NOTICE':
+      case 'INFO':
+        return 'INFO';
+      default:
+        return level.startsWith('DEBUG')
+          ? 'DEBUG'
+          : this.determineSeverity(messageType === 'SQL' ? '' : message, messageType, executionTime);
+    }
+  }
+
+  private createUnknownEntry(line: string, lineNumber: number): LogEntry {
+    return {
+      lineNumber,
+      rawLine: line,
+      context: {
+        timestamp: '',
+        serverInfo: '',
+        processId: '',
+        memoryUsage: '',
+        memoryMB: 0,
+        connectionIndex: ''
+      },
+      message: line.trim(),
+      messageType: 'UNKNOWN',
+      severity: 'INFO',
+      tags: ['unknown'],
+      parsingIssues: ['Non-standard line format']
+    };
+  }
+}
+
+/**
+ * Separa os campos de um registro CSV (aspas duplas, "" como aspas escapadas)
+ */
+function parseCsvFields(record: string): string[] {
+  const fields: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < record.length; i++) {
+    const char = record[i];
+
+    if (inQuotes) {
+      if (char === '"' && record[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      fields.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  fields.push(current);
+  return fields;
+}
+
+/**
+ * Valor de um literal dos parâmetros ('texto' com '' escapado, ou NULL)
+ */
+function parseSqlLiteral(literal: string): string | null {
+  return literal === 'NULL' ? null : literal.slice(1, -1).replace(/''/g, "'");
+}
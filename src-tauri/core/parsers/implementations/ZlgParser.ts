@@ -15,11 +15,14 @@ import {
   parseMemoryString,
   extractExecutionTime,
   extractRecordsReturned,
-  detectQueryType,
-  extractTablesFromSQL,
   parsePhpBindsArray,
-  cleanSQL
+  cleanSQL,
+  isIncompleteSQL
 } from '../utils/ParserUtils';
+import { analyzeSQL, getTableNames } from '../utils/SQLAnalyzer';
+import { getSQLFingerprint } from '../utils/SQLFingerprint';
+import { OUT_OF_ORDER_ISSUE } from '../utils/TimestampInference';
+import { matchesKeyword } from '../../thresholds/ThresholdProfiles';
 
 export class ZlgParser extends BaseLogParser {
     canParse(filename: string, sampleContent: string): FormatDetectionResult {
@@ -39,14 +42,34 @@ export class ZlgParser extends BaseLogParser {
     TRANSACTION: /\b(BEGIN TRANSACTION|COMMIT|ROLLBACK)\b/i
   };
 
+  private readonly SQL_CAPTURE_PATTERNS = {
+    raw: /SQL Antes processamento:\s*(.+?)(?:<br>|$)/is,
+    processed: /SQL Após processamento:\s*(.+?)(?:<br>|$)/is,
+    executed: /\bSQL:\s*(.+?)(?:<br>|$)/is
+  };
+
   private multiLineBuffer: string[] = [];
   private isInMultiLineSQL = false;
   private multiLineStartNumber = 0;
+  /** Última linha física (não vazia) da entrada pendente */
+  private multiLineEndNumber = 0;
+  private pendingEntry: LogEntry | null = null;
 
   getName(): string {
     return 'ZlgParser';
   }
 
+  /**
+   * Linhas fora do padrão (sem cabeçalho, serverInfo vazio) não ganham um cabeçalho inventado
+   */
+  formatLine(entry: LogEntry): string {
+    const { timestamp, serverInfo, processId, memoryUsage, connectionIndex } = entry.context;
+    if (!serverInfo) {
+      return entry.rawLine || entry.message;
+    }
+    return `[${timestamp} <${serverInfo}> (Pid: ${processId}) (${memoryUsage}) ] [ConnIdx: ${connectionIndex}] ${entry.message}`;
+  }
+
   getSupportedFormats(): string[] {
     return ['.zlg', '.ZLG'];
   }
@@ -111,6 +134,7 @@ export class ZlgParser extends BaseLogParser {
     }
 
     const [, timestamp, serverInfo, processId, memoryUsage, connectionIndex, message] = match;
+    const inferred = this.timestampInferrer.infer(timestamp, options.baseDate);
 
     const context: ExecutionContext = {
         timestamp,
@@ -119,11 +143,27 @@ export class ZlgParser extends BaseLogParser {
         memoryUsage,
         memoryMB: parseMemoryString(memoryUsage),
         connectionIndex: connectionIndex.trim(),
-        fullDate: this.inferFullDate(timestamp, options.baseDate)
+        fullDate: inferred.fullDate
     };
 
-    const cleanMessage = stripHtmlTags(message).trim();
+    const entry = this.buildEntry(line, lineNumber, context, stripHtmlTags(message).trim());
+
+    if (inferred.outOfOrder) {
+      entry.parsingIssues!.push(OUT_OF_ORDER_ISSUE);
+    }
+
+    return entry;
+  }
 
+  /**
+   * Monta a entrada a partir do contexto e da mensagem já limpa
+   */
+  private buildEntry(
+    rawLine: string,
+    lineNumber: number,
+    context: ExecutionContext,
+    cleanMessage: string
+  ): LogEntry {
     const messageType = this.identifyMessageType(cleanMessage);
 
     const sqlInfo = this.extractSQLInfo(cleanMessage, messageType);
@@ -136,7 +176,7 @@ export class ZlgParser extends BaseLogParser {
 
     const entry: LogEntry = {
         lineNumber,
-        rawLine: line,
+        rawLine,
         context,
         message: cleanMessage,
         messageType,
@@ -151,6 +191,118 @@ export class ZlgParser extends BaseLogParser {
     return entry;
   }
 
+  /**
+   * Linhas fora do padrão [HH:MM:SS <srv> ...] continuam a entrada anterior
+   */
+  isEntryStart(line: string): boolean {
+    return this.LOG_LINE_PATTERN.test(line);
+  }
+
+  /**
+   * Agrupa linhas de continuação (SQL ou array de binds quebrados em várias
+   * linhas físicas) na entrada SQL que as precede
+   */
+  processLine(line: string, lineNumber: number, options: ParserOptions): LogEntry[] {
+    const isStandardLine = this.LOG_LINE_PATTERN.test(line);
+
+    if (!isStandardLine && this.pendingEntry) {
+      this.multiLineBuffer.push(line);
+
+      // Linhas em branco só fazem parte da entrada se vier outra linha de continuação depois
+      if (line.trim()) {
+        this.isInMultiLineSQL = true;
+        this.multiLineEndNumber = lineNumber;
+      }
+      return [];
+    }
+
+    const ready = this.flushPendingEntries(options);
+    const entry = this.parseLine(line, lineNumber, options);
+
+    if (!entry) {
+      return ready;
+    }
+
+    if (isStandardLine && this.canHaveContinuation(entry)) {
+      this.pendingEntry = entry;
+      this.multiLineStartNumber = lineNumber;
+      this.multiLineEndNumber = lineNumber;
+      return ready;
+    }
+
+    ready.push(entry);
+    return ready;
+  }
+
+  /**
+   * Linhas em branco dentro de um SQL ou array de binds pertencem à entrada
+   */
+  acceptsBlankLine(): boolean {
+    return this.pendingEntry !== null;
+  }
+
+  flushPendingEntries(_options: ParserOptions): LogEntry[] {
+    const pending = this.pendingEntry;
+
+    if (!pending) {
+      return [];
+    }
+
+    const entry = this.isInMultiLineSQL ? this.mergeMultiLineEntry(pending) : pending;
+    this.resetState();
+
+    return [entry];
+  }
+
+  protected resetState(): void {
+    this.multiLineBuffer = [];
+    this.isInMultiLineSQL = false;
+    this.multiLineStartNumber = 0;
+    this.multiLineEndNumber = 0;
+    this.pendingEntry = null;
+  }
+
+  /**
+   * Apenas SQL e binds podem continuar nas linhas seguintes
+   */
+  private canHaveContinuation(entry: LogEntry): boolean {
+    return entry.messageType === 'SQL' || entry.messageType === 'SQL_BIND';
+  }
+
+  /**
+   * Reconstrói a entrada pendente com as linhas de continuação acumuladas
+   */
+  private mergeMultiLineEntry(pending: LogEntry): LogEntry {
+    // Linhas em branco entre o fim do SQL e a próxima entrada ficam de fora
+    let count = this.multiLineBuffer.length;
+    while (count > 0 && !this.multiLineBuffer[count - 1].trim()) {
+      count--;
+    }
+    const lines = this.multiLineBuffer.slice(0, count);
+    const continuation = lines.map(line => stripHtmlTags(line).trim());
+
+    const merged = this.buildEntry(
+      [pending.rawLine, ...lines].join('\n'),
+      this.multiLineStartNumber,
+      pending.context,
+      [pending.message, ...continuation].join('\n')
+    );
+
+    merged.parsingIssues = [...(pending.parsingIssues || [])];
+
+    merged.endLineNumber = this.multiLineEndNumber;
+
+    if (merged.sqlInfo) {
+      merged.sqlInfo.isMultiLine = true;
+
+      if (merged.sqlInfo.query && isIncompleteSQL(merged.sqlInfo.query)) {
+        merged.parsingIssues = [...(merged.parsingIssues || []), 'Multi-line SQL appears incomplete'];
+      }
+    }
+
+    return merged;
+  }
+
   private handleNonStandardLine(
     line: string,
     lineNumber: number,
@@ -200,7 +352,8 @@ export class ZlgParser extends BaseLogParser {
       return 'SQL_BIND';
     }
 
-    if (this.SQL_PATTERNS.EXECUTION_TIME.test(message)) {
+    if (this.SQL_PATTERNS.EXECUTION_TIME.test(message) ||
+        this.SQL_PATTERNS.RECORDS_RETURNED.test(message)) {
       return 'PERFORMANCE';
     }
 
@@ -209,10 +362,8 @@ export class ZlgParser extends BaseLogParser {
     }
 
     const lowerMessage = message.toLowerCase();
-    if (lowerMessage.includes('error') || 
-        lowerMessage.includes('erro') ||
-        lowerMessage.includes('exception') ||
-        lowerMessage.includes('fatal')) {
+    if (matchesKeyword(lowerMessage, this.thresholds.keywords.critical) ||
+        matchesKeyword(lowerMessage, this.thresholds.keywords.error)) {
       return 'ERROR';
     }
 
@@ -223,6 +374,15 @@ export class ZlgParser extends BaseLogParser {
     return 'INFO';
 }
 
+    /**
+     * Identifica em qual etapa do ciclo de vida a linha SQL foi registrada
+     */
+    private identifySQLStage(message: string): 'raw' | 'processed' | 'executed' {
+        if (this.SQL_PATTERNS.SQL_RAW.test(message)) return 'raw';
+        if (this.SQL_PATTERNS.SQL_PROCESSED.test(message)) return 'processed';
+        return 'executed';
+    }
+
     private extractSQLInfo(message: string, messageType: LogMessageType): SQLInfo | undefined {
         if (messageType !== 'SQL' && messageType !== 'SQL_BIND' && messageType !== 'PERFORMANCE') {
             return undefined;
@@ -231,18 +391,22 @@ export class ZlgParser extends BaseLogParser {
         const sqlInfo: Partial<SQLInfo> = {};
 
         if (messageType === 'SQL') {
-            const sqlMatch = message.match(/SQL:\s*(.+?)(?:<br>|$)/s);
+            const stage = this.identifySQLStage(message);
+            const sqlMatch = message.match(this.SQL_CAPTURE_PATTERNS[stage]);
             if (sqlMatch) {
                 sqlInfo.query = cleanSQL(sqlMatch[1]);
-        sqlInfo.queryType = detectQueryType(sqlInfo.query);
-        sqlInfo.tables = extractTablesFromSQL(sqlInfo.query);
+        sqlInfo.statement = analyzeSQL(sqlInfo.query);
+        sqlInfo.queryType = sqlInfo.statement.kind;
+        sqlInfo.tables = getTableNames(sqlInfo.statement);
+        sqlInfo.stage = stage;
             }
         }
 
         if (this.SQL_PATTERNS.SQL_BIND.test(message)) {
             const bind = parsePhpBindsArray(message);
             if (bind) {
-                sqlInfo.binds = parsePhpBindsArray;
+                sqlInfo.binds = bind;
+                sqlInfo.stage = 'binds';
             }
         }
 
@@ -250,32 +414,28 @@ export class ZlgParser extends BaseLogParser {
       const decodeMatch = message.match(/SQL BIND DECODE:\s*(.+?)(?:<br>|$)/s);
       if (decodeMatch) {
         sqlInfo.decodedQuery = cleanSQL(decodeMatch[1]);
+        sqlInfo.stage = 'decoded';
       }
     }
 
      const executionTime = extractExecutionTime(message);
     if (executionTime !== null) {
       sqlInfo.executionTime = executionTime;
+      sqlInfo.stage = 'result';
     }
 
     const recordsReturned = extractRecordsReturned(message);
     if (recordsReturned !== null) {
       sqlInfo.recordsReturned = recordsReturned;
+      sqlInfo.stage = 'result';
     }
 
-    return Object.keys(sqlInfo).length > 0 ? sqlInfo as SQLInfo : undefined;
-  }
-
-  private inferFullDate(timestamp: string, baseDate?: Date): Date | undefined {
-    if (!baseDate) {
-      return undefined;
+    const fingerprint = getSQLFingerprint(sqlInfo as SQLInfo);
+    if (fingerprint) {
+      sqlInfo.fingerprint = fingerprint;
     }
 
-    const [hours, minutes, seconds] = timestamp.split(':').map(Number);
-    const date = new Date(baseDate);
-    date.setHours(hours, minutes, seconds, 0);
-
-    return date;
+    return Object.keys(sqlInfo).length > 0 ? sqlInfo as SQLInfo : undefined;
   }
 
   protected generateTags(entry: LogEntry): string[] {
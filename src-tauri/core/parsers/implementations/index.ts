@@ -1 +1,4 @@
-export { ZlgParser } from './ZlgParser';
\ No newline at end of file
+export { ZlgParser } from './ZlgParser';
+export { GenericParser } from './GenericParser';
+export { PostgreSQLParser } from './PostgreSQLParser';
+export { MySQLSlowLogParser } from './MySQLSlowLogParser';
\ No newline at end of file
@@ -1,3 +1,6 @@
 export * from './base';
 export * from './utils';
-export * from './implementations';
\ No newline at end of file
+export * from './correlation';
+export * from './implementations';
+export * from './formats';
+export { registerDefaultParsers, registerFormatDefinitions } from './registry';
\ No newline at end of file
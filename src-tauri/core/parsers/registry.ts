@@ -0,0 +1,51 @@
+import { ParserFactory, parserFactory } from './base/ParserFactory';
+import { ZlgParser } from './implementations/ZlgParser';
+import { GenericParser } from './implementations/GenericParser';
+import { PostgreSQLParser } from './implementations/PostgreSQLParser';
+import { MySQLSlowLogParser } from './implementations/MySQLSlowLogParser';
+import { FormatDefinition } from './formats/FormatDefinition';
+
+/** Prioridade das definições sem priority (abaixo dos parsers embutidos) */
+const DEFAULT_FORMAT_PRIORITY = 5;
+
+/**
+ * Registra os parsers embutidos no factory (idempotente)
+ * @param factory Factory alvo (padrão: singleton global)
+ */
+export function registerDefaultParsers(factory: ParserFactory = parserFactory): ParserFactory {
+  const registered = new Set(factory.listParsers());
+
+  if (!registered.has('ZlgParser')) {
+    factory.register(new ZlgParser(), 10, () => new ZlgParser());
+  }
+
+  if (!registered.has('PostgreSQLParser')) {
+    factory.register(new PostgreSQLParser(), 10, () => new PostgreSQLParser());
+  }
+
+  if (!registered.has('MySQLSlowLogParser')) {
+    factory.register(new MySQLSlowLogParser(), 10, () => new MySQLSlowLogParser());
+  }
+
+  return factory;
+}
+
+/**
+ * Registra um GenericParser por definição de formato
+ * Uma definição com o nome de um parser já registrado o substitui
+ * @param factory Factory alvo (padrão: singleton global)
+ * @throws FormatDefinitionError se alguma definição for inválida
+ */
+export function registerFormatDefinitions(
+  definitions: FormatDefinition[],
+  factory: ParserFactory = parserFactory
+): ParserFactory {
+  for (const definition of definitions) {
+    const parser = new GenericParser(definition);
+
+    factory.unregister(parser.getName());
+    factory.register(parser, definition.priority ?? DEFAULT_FORMAT_PRIORITY, () => new GenericParser(definition));
+  }
+
+  return factory;
+}
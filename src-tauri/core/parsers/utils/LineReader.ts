@@ -0,0 +1,174 @@
+import { LogInputInfo, openLogInput } from '../../archive/LogInput';
+import { LogEncoding } from '../../../../shared/types/parser.types';
+import {
+  decodeText,
+  detectEncoding,
+  ENCODING_SAMPLE_BYTES,
+  EncodingDetection,
+  encodeText
+} from './TextEncoding';
+
+/**
+ * Linha física lida do arquivo, com a posição em bytes onde começa
+ */
+export interface FileLine {
+  text: string;
+
+  /** Posição (bytes) do primeiro byte da linha */
+  byteOffset: number;
+
+  /** Bytes ocupados pela linha, incluindo a quebra */
+  byteLength: number;
+}
+
+/**
+ * Conteúdo aberto por readLines, com o encoding usado na leitura
+ */
+export interface OpenedLogInput extends LogInputInfo {
+  encoding: LogEncoding;
+}
+
+export interface LineReaderOptions {
+  /** Sem encoding, ele é detectado pelos primeiros bytes lidos */
+  encoding?: LogEncoding;
+
+  /** Posição (bytes) onde começar; deve ser o início de uma linha */
+  start?: number;
+
+  /** Posição (bytes) onde parar (exclusiva) */
+  end?: number;
+
+  /** Membro a ler quando o arquivo é um pacote zip/tar */
+  archiveMember?: string;
+
+  /**
+   * Chamado ao abrir o arquivo, com o nome e o tamanho do conteúdo descomprimido
+   * e o encoding (quando detectado, depois de ler os primeiros bytes)
+   */
+  onOpen?: (input: OpenedLogInput) => void;
+}
+
+/**
+ * Lê o arquivo linha a linha acompanhando a posição em bytes de cada linha
+ * (readline só entrega o texto, e o tamanho em caracteres não corresponde
+ * aos bytes em UTF-8)
+ * Arquivos gzip/deflate e membros de zip/tar são lidos descomprimidos; as
+ * posições se referem ao conteúdo descomprimido
+ * O BOM no início do arquivo não faz parte do texto da primeira linha
+ */
+export async function* readLines(
+  filePath: string,
+  options: LineReaderOptions = {}
+): AsyncIterableIterator<FileLine> {
+  const { stream, ...input } = await openLogInput(filePath, {
+    archiveMember: options.archiveMember,
+    start: options.start,
+    end: options.end
+  });
+
+  try {
+    const chunks = stream[Symbol.asyncIterator]() as AsyncIterator<Buffer>;
+
+    // Sem encoding informado, os primeiros bytes são lidos antes para detectá-lo
+    const head: Buffer[] = [];
+    if (!options.encoding) {
+      let headBytes = 0;
+      while (headBytes < ENCODING_SAMPLE_BYTES) {
+        const { value, done } = await chunks.next();
+        if (done) {
+          break;
+        }
+        head.push(value);
+        headBytes += value.length;
+      }
+    }
+
+    const encoding = options.encoding ?? detectEncoding(Buffer.concat(head)).encoding;
+    options.onOpen?.({ ...input, encoding });
+
+    yield* splitLines(prependChunks(head, chunks), encoding, options.start ?? 0);
+  } finally {
+    stream.destroy();
+  }
+}
+
+/**
+ * Detecta o encoding pelos primeiros bytes do conteúdo (descomprimido, se for o caso)
+ * @param archiveMember Membro a ler quando o arquivo é um pacote zip/tar
+ */
+export async function detectFileEncoding(filePath: string, archiveMember?: string): Promise<EncodingDetection> {
+  const { stream } = await openLogInput(filePath, { archiveMember });
+  const chunks: Buffer[] = [];
+  let total = 0;
+
+  try {
+    for await (const chunk of stream) {
+      chunks.push(chunk as Buffer);
+      total += (chunk as Buffer).length;
+      if (total >= ENCODING_SAMPLE_BYTES) {
+        break;
+      }
+    }
+  } finally {
+    stream.destroy();
+  }
+
+  return detectEncoding(Buffer.concat(chunks).subarray(0, ENCODING_SAMPLE_BYTES));
+}
+
+async function* prependChunks(head: Buffer[], chunks: AsyncIterator<Buffer>): AsyncGenerator<Buffer> {
+  yield* head;
+
+  for (let next = await chunks.next(); !next.done; next = await chunks.next()) {
+    yield next.value;
+  }
+}
+
+async function* splitLines(
+  chunks: AsyncIterable<Buffer>,
+  encoding: LogEncoding,
+  start: number
+): AsyncGenerator<FileLine> {
+  const newline = encodeText('\n', encoding);
+  const carriageReturn = encodeText('\r', encoding);
+
+  let rest: Buffer = Buffer.alloc(0);
+  let offset = start;
+
+  const toText = (bytes: Buffer, byteOffset: number): string => {
+    const hasCarriageReturn = bytes.length >= carriageReturn.length &&
+      bytes.subarray(bytes.length - carriageReturn.length).equals(carriageReturn);
+    const text = decodeText(
+      hasCarriageReturn ? bytes.subarray(0, bytes.length - carriageReturn.length) : bytes,
+      encoding
+    );
+    return byteOffset === 0 && text.startsWith('\uFEFF') ? text.slice(1) : text;
+  };
+
+  for await (const chunk of chunks) {
+    const buffer: Buffer = rest.length > 0 ? Buffer.concat([rest, chunk]) : chunk;
+    let lineStart = 0;
+    let newlineAt = buffer.indexOf(newline, lineStart);
+
+    while (newlineAt !== -1) {
+      const lineEnd = newlineAt + newline.length;
+
+      yield {
+        text: toText(buffer.subarray(lineStart, newlineAt), offset),
+        byteOffset: offset,
+        byteLength: lineEnd - lineStart
+      };
+
+      offset += lineEnd - lineStart;
+      lineStart = lineEnd;
+      newlineAt = buffer.indexOf(newline, lineStart);
+    }
+
+    rest = buffer.subarray(lineStart);
+  }
+
+  // Última linha sem quebra no final
+  if (rest.length > 0) {
+    yield { text: toText(rest, offset), byteOffset: offset, byteLength: rest.length };
+  }
+}
@@ -1,3 +1,6 @@
+import { SQLQueryType } from '../../../../shared/types/log.types';
+import { analyzeSQL, getTableNames } from './SQLAnalyzer';
+
 /**
  * Utilitários comuns para parsing de logs
  */
@@ -61,39 +64,15 @@ export function extractRecordsReturned(text: string): number | null {
 /**
  * Detecta tipo de query SQL
  */
-export function detectQueryType(sql: string): 'select' | 'insert' | 'update' | 'delete' | 'other' {
-  const normalized = sql.trim().toUpperCase();
-  
-  if (normalized.startsWith('SELECT')) return 'select';
-  if (normalized.startsWith('INSERT')) return 'insert';
-  if (normalized.startsWith('UPDATE')) return 'update';
-  if (normalized.startsWith('DELETE')) return 'delete';
-  
-  return 'other';
+export function detectQueryType(sql: string): SQLQueryType {
+  return analyzeSQL(sql).kind;
 }
 
 /**
  * Extrai tabelas de uma query SQL
  */
 export function extractTablesFromSQL(sql: string): string[] {
-  const tables = new Set<string>();
-  
-  // Regex para capturar nomes após FROM e JOIN
-  const patterns = [
-    /\bFROM\s+([a-zA-Z_][a-zA-Z0-9_]*)/gi,
-    /\bJOIN\s+([a-zA-Z_][a-zA-Z0-9_]*)/gi,
-    /\bINTO\s+([a-zA-Z_][a-zA-Z0-9_]*)/gi,
-    /\bUPDATE\s+([a-zA-Z_][a-zA-Z0-9_]*)/gi
-  ];
-
-  for (const pattern of patterns) {
-    let match;
-    while ((match = pattern.exec(sql)) !== null) {
-      tables.add(match[1].toLowerCase());
-    }
-  }
-  
-  return Array.from(tables);
+  return getTableNames(analyzeSQL(sql));
 }
 
 /**
@@ -219,3 +198,45 @@ export function isValidTimestamp(timestamp: string): boolean {
   
   return h >= 0 && h < 24 && m >= 0 && m < 60 && s >= 0 && s < 60;
 }
+
+/**
+ * Parseia datas de logs de servidores de banco:
+ * "2024-05-15 10:01:02.123 -03", "2024-05-15T10:01:02.123456Z", "240515  9:01:02" (MySQL antigo)
+ * Fusos Z/UTC/GMT e numéricos dão o instante exato; nomes de fuso (ex: BRT) são tratados como horário local
+ */
+export function parseDateTime(text: string): Date | undefined {
+  const match = /^(?:(\d{4})-(\d{2})-(\d{2})|(\d{2})(\d{2})(\d{2}))[T ]\s*(\d{1,2}):(\d{2}):(\d{2})(?:\.(\d+))?\s*(Z|UTC|GMT|[+-]\d{2}(?::?\d{2})?|[A-Za-z][\w/+-]*)?$/
+    .exec(text.trim());
+  if (!match) {
+    return undefined;
+  }
+
+  const year = match[1] ? Number(match[1]) : 2000 + Number(match[4]);
+  const month = Number(match[2] ?? match[5]) - 1;
+  const day = Number(match[3] ?? match[6]);
+  const milliseconds = match[10] ? Math.round(Number(`0.${match[10]}`) * 1000) : 0;
+  const fields: [number, number, number, number, number, number, number] = [
+    year, month, day, Number(match[7]), Number(match[8]), Number(match[9]), milliseconds
+  ];
+
+  const zone = match[11];
+  if (zone === 'Z' || zone === 'UTC' || zone === 'GMT') {
+    return new Date(Date.UTC(...fields));
+  }
+
+  const offset = zone ? /^([+-])(\d{2}):?(\d{2})?$/.exec(zone) : null;
+  if (offset) {
+    const minutes = (Number(offset[2]) * 60 + Number(offset[3] ?? 0)) * (offset[1] === '-' ? -1 : 1);
+    return new Date(Date.UTC(...fields) - minutes * 60 * 1000);
+  }
+
+  return new Date(...fields);
+}
+
+/**
+ * Horário HH:MM:SS (local) de uma data
+ */
+export function formatTimeOfDay(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+}
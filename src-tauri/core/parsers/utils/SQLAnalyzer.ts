@@ -0,0 +1,544 @@
+import {
+  SQLQueryType,
+  SQLStatementInfo,
+  SQLTableReference,
+  SQLTableRole
+} from '../../../../shared/types/log.types';
+
+/**
+ * Tokenizador e analisador leve de SQL
+ *
+ * Não valida a gramática: reconhece o suficiente para identificar o tipo do comando,
+ * as tabelas (com schema, apelido e papel de leitura/escrita), CTEs, subqueries e as
+ * cláusulas WHERE / ORDER BY / LIMIT do comando principal. Funciona com queries
+ * truncadas ou de dialetos diferentes (Oracle, PostgreSQL, MySQL, SQL Server).
+ */
+
+export type SQLTokenType = 'word' | 'identifier' | 'string' | 'number' | 'param' | 'punct' | 'operator';
+
+export interface SQLToken {
+  type: SQLTokenType;
+
+  /** Texto do token (identificadores e strings sem as aspas) */
+  value: string;
+
+  /** Profundidade de parênteses (o próprio "(" e ")" ficam na profundidade externa) */
+  depth: number;
+}
+
+const WORD = /[A-Za-z_À-ɏ][\w$#À-ɏ]*/y;
+const WORD_START = /[A-Za-z_À-ɏ]/;
+const NUMBER = /0x[0-9a-f]+|\d+(?:\.\d+)?(?:e[+-]?\d+)?|\.\d+/iy;
+const PARAM = /:[A-Za-z_]\w*|\$\d+|@@?\w+|\?/y;
+const OPERATOR = /[<>=!|&+\-\/%^~]+/y;
+
+const STATEMENT_KINDS: Record<string, SQLQueryType> = {
+  SELECT: 'select',
+  INSERT: 'insert',
+  REPLACE: 'insert',
+  UPDATE: 'update',
+  DELETE: 'delete',
+  MERGE: 'merge',
+  UPSERT: 'merge',
+  CALL: 'call',
+  EXEC: 'call',
+  EXECUTE: 'call',
+  CREATE: 'ddl',
+  ALTER: 'ddl',
+  DROP: 'ddl',
+  TRUNCATE: 'ddl'
+};
+
+/** Palavras que encerram uma referência de tabela (não podem ser apelidos) */
+const RESERVED_WORDS = new Set([
+  'WHERE', 'JOIN', 'INNER', 'LEFT', 'RIGHT', 'FULL', 'OUTER', 'CROSS', 'NATURAL', 'STRAIGHT_JOIN',
+  'ON', 'USING', 'GROUP', 'ORDER', 'HAVING', 'LIMIT', 'OFFSET', 'FETCH', 'UNION', 'INTERSECT',
+  'EXCEPT', 'MINUS', 'SET', 'VALUES', 'SELECT', 'WINDOW', 'FOR', 'RETURNING', 'WHEN', 'START',
+  'CONNECT', 'LATERAL', 'AS', 'DEFAULT', 'OUTPUT', 'PARTITION', 'SAMPLE', 'WITH', 'INTO', 'FROM'
+]);
+
+/** Palavras que podem preceder o nome da tabela em FROM/JOIN e são ignoradas */
+const TABLE_PREFIXES = new Set(['LATERAL', 'ONLY']);
+
+/** Tabelas fictícias que não representam acesso a dados */
+const PSEUDO_TABLES = new Set(['dual']);
+
+/** Palavras depois das quais um SELECT/INSERT/... inicia um comando (e não é parte de outro) */
+const STATEMENT_BOUNDARIES = new Set(['UNION', 'INTERSECT', 'EXCEPT', 'MINUS', 'ALL', 'DISTINCT']);
+
+/**
+ * Quebra uma query em tokens, ignorando espaços e comentários
+ */
+export function tokenizeSQL(sql: string): SQLToken[] {
+  const tokens: SQLToken[] = [];
+  let depth = 0;
+  let i = 0;
+
+  const push = (type: SQLTokenType, value: string) => tokens.push({ type, value, depth });
+
+  const readSticky = (pattern: RegExp): string | null => {
+    pattern.lastIndex = i;
+    const match = pattern.exec(sql);
+    return match ? match[0] : null;
+  };
+
+  while (i < sql.length) {
+    const char = sql[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (sql.startsWith('--', i)) {
+      const end = sql.indexOf('\n', i);
+      i = end === -1 ? sql.length : end;
+      continue;
+    }
+
+    if (sql.startsWith('/*', i)) {
+      const end = sql.indexOf('*/', i + 2);
+      i = end === -1 ? sql.length : end + 2;
+      continue;
+    }
+
+    if (char === "'" || char === '"' || char === '`') {
+      const end = findQuoteEnd(sql, i, char);
+      push(char === "'" ? 'string' : 'identifier', sql.slice(i + 1, end).replace(doubledQuote(char), char));
+      i = end + 1;
+      continue;
+    }
+
+    if (char === '[' && sql.indexOf(']', i) !== -1) {
+      const end = sql.indexOf(']', i);
+      push('identifier', sql.slice(i + 1, end));
+      i = end + 1;
+      continue;
+    }
+
+    if (char === '(') {
+      push('punct', char);
+      depth++;
+      i++;
+      continue;
+    }
+
+    if (char === ')') {
+      depth = Math.max(depth - 1, 0);
+      push('punct', char);
+      i++;
+      continue;
+    }
+
+    if (char === ',' || char === ';' || char === '.' || char === '*') {
+      // ".5" é número, não separador
+      const number = char === '.' ? readSticky(NUMBER) : null;
+      if (number) {
+        push('number', number);
+        i += number.length;
+      } else {
+        push('punct', char);
+        i++;
+      }
+      continue;
+    }
+
+    if (sql.startsWith('::', i)) {
+      push('operator', '::');
+      i += 2;
+      continue;
+    }
+
+    const text = readSticky(WORD) ?? readSticky(NUMBER) ?? readSticky(PARAM) ?? readSticky(OPERATOR);
+    if (text) {
+      const type: SQLTokenType = WORD_START.test(text[0]) ? 'word'
+        : /[\d.]/.test(text[0]) ? 'number'
+        : /[:$@?]/.test(text[0]) ? 'param'
+        : 'operator';
+      push(type, text);
+      i += text.length;
+      continue;
+    }
+
+    push('operator', char);
+    i++;
+  }
+
+  return tokens;
+}
+
+/**
+ * Analisa a estrutura de uma query
+ */
+export function analyzeSQL(sql: string): SQLStatementInfo {
+  return new StatementAnalyzer(tokenizeSQL(sql)).analyze();
+}
+
+/**
+ * Nomes únicos das tabelas de um comando (leitura e escrita)
+ */
+export function getTableNames(statement: SQLStatementInfo): string[] {
+  return Array.from(new Set(statement.tables.map(table => table.name)));
+}
+
+class StatementAnalyzer {
+  private tables: SQLTableReference[] = [];
+  private ctes: string[] = [];
+  /** Comando (SELECT, DELETE, ...) dono de cada profundidade durante a varredura */
+  private owners: Array<string | undefined> = [];
+
+  constructor(private readonly tokens: SQLToken[]) {}
+
+  analyze(): SQLStatementInfo {
+    const start = this.upper(0) === 'WITH' ? this.readCTEs(1) : 0;
+    const kindIndex = this.findIndex(start, token => token.type === 'word');
+    const kindToken = kindIndex === -1 ? undefined : this.tokens[kindIndex];
+    const kind = kindToken ? STATEMENT_KINDS[kindToken.value.toUpperCase()] ?? 'other' : 'other';
+    const mainDepth = kindToken?.depth ?? 0;
+
+    let hasWhere = false;
+    let hasOrderBy = false;
+    let hasLimit = false;
+    let hasSubquery = false;
+    let selectsAll = false;
+
+    for (let i = 0; i < this.tokens.length; i++) {
+      const token = this.tokens[i];
+
+      if (token.type === 'punct') {
+        if (token.value === '(') {
+          this.owners[token.depth + 1] = undefined;
+          const next = this.upper(i + 1);
+          hasSubquery = hasSubquery || next === 'SELECT' || next === 'WITH';
+        } else if (token.value === '*') {
+          const previous = this.tokens[i - 1];
+          const previousWord = previous?.type === 'word' ? previous.value.toUpperCase() : undefined;
+          selectsAll = selectsAll ||
+            previousWord === 'SELECT' || previousWord === 'DISTINCT' || previousWord === 'ALL' ||
+            previous?.value === '.' || (previous?.value === ',' && previous.type === 'punct');
+        }
+        continue;
+      }
+
+      if (token.type !== 'word') {
+        continue;
+      }
+
+      const word = token.value.toUpperCase();
+      const isMain = i >= start && token.depth === mainDepth;
+
+      if (isMain) {
+        if (word === 'WHERE') hasWhere = true;
+        if (word === 'ORDER' && this.upper(i + 1) === 'BY') hasOrderBy = true;
+        if (word === 'LIMIT' || word === 'FETCH' || word === 'TOP' || word === 'ROWNUM') hasLimit = true;
+      }
+
+      this.visitKeyword(word, i, start);
+    }
+
+    this.resolveAliasTargets();
+
+    return {
+      kind,
+      tables: this.tables,
+      ctes: this.ctes,
+      hasWhere,
+      hasOrderBy,
+      hasLimit,
+      hasSubquery,
+      selectsAll
+    };
+  }
+
+  /**
+   * Registra tabelas a partir das palavras-chave que as introduzem
+   */
+  private visitKeyword(word: string, i: number, start: number): void {
+    const depth = this.tokens[i].depth;
+    const owner = this.owners[depth];
+
+    switch (word) {
+      case 'SELECT':
+        this.owners[depth] = word;
+        break;
+
+      case 'INSERT':
+      case 'REPLACE':
+      case 'UPDATE':
+      case 'DELETE':
+      case 'MERGE':
+        if (!this.isStatementStart(i, start)) {
+          break;
+        }
+        this.owners[depth] = word;
+        // UPDATE t / DELETE t (sem FROM, Oracle e MySQL multi-tabela)
+        if (word === 'UPDATE' || (word === 'DELETE' && this.upper(i + 1) !== 'FROM')) {
+          this.readTable(i + 1, 'write');
+        }
+        break;
+
+      case 'FROM':
+        if (owner === 'DELETE' && this.upper(i - 1) === 'DELETE') {
+          this.readTable(i + 1, 'write');
+        } else if ((owner === 'SELECT' || owner === 'DELETE' || owner === 'UPDATE') && !this.isDistinctFrom(i)) {
+          this.readTableList(i + 1, 'read');
+        }
+        break;
+
+      case 'JOIN':
+      case 'STRAIGHT_JOIN':
+        if (owner) {
+          this.readTable(i + 1, 'read');
+        }
+        break;
+
+      case 'USING':
+        if (owner === 'MERGE') {
+          this.readTable(i + 1, 'read');
+        } else if (owner === 'DELETE') {
+          this.readTableList(i + 1, 'read');
+        }
+        break;
+
+      case 'INTO':
+        if (owner === 'INSERT' || owner === 'REPLACE' || owner === 'MERGE') {
+          this.readTable(i + 1, 'write');
+        }
+        break;
+
+      case 'TRUNCATE':
+      case 'CREATE':
+      case 'ALTER':
+      case 'DROP':
+        if (this.isStatementStart(i, start)) {
+          this.readDDLTarget(i + 1);
+        }
+        break;
+    }
+  }
+
+  /**
+   * Troca o alvo de escrita que é apelido de uma tabela do FROM pela tabela
+   * (SQL Server: "UPDATE p SET ... FROM produto p", "DELETE p FROM produto p")
+   */
+  private resolveAliasTargets(): void {
+    for (const target of this.tables.filter(table => table.role === 'write' && !table.schema)) {
+      const aliased = this.tables.find(table => table.role === 'read' && table.alias?.toLowerCase() === target.name);
+      if (!aliased) {
+        continue;
+      }
+
+      const written = this.tables.some(table => table.role === 'write' && table.name === aliased.name);
+      this.tables = this.tables
+        .map(table => table === target && !written ? { ...aliased, role: 'write' as const } : table)
+        .filter(table => table !== target && (written || table !== aliased));
+    }
+  }
+
+  /**
+   * Lê as CTEs de "WITH [RECURSIVE] nome [(colunas)] AS [[NOT] MATERIALIZED] (...), ..."
+   * @returns Índice do primeiro token do comando principal
+   */
+  private readCTEs(i: number): number {
+    if (this.upper(i) === 'RECURSIVE') i++;
+
+    while (i < this.tokens.length) {
+      const name = this.tokens[i];
+      if (!name || (name.type !== 'word' && name.type !== 'identifier')) {
+        return i;
+      }
+      this.ctes.push(name.value.toLowerCase());
+      i++;
+
+      if (this.isPunct(i, '(')) i = this.skipGroup(i);
+      if (this.upper(i) === 'AS') i++;
+      while (this.upper(i) === 'NOT' || this.upper(i) === 'MATERIALIZED') i++;
+      if (this.isPunct(i, '(')) i = this.skipGroup(i);
+
+      if (!this.isPunct(i, ',')) {
+        return i;
+      }
+      i++;
+    }
+
+    return i;
+  }
+
+  /**
+   * Lê "tabela [AS] apelido, tabela2 ..." (junções com vírgula)
+   */
+  private readTableList(i: number, role: SQLTableRole): void {
+    while (i < this.tokens.length) {
+      i = this.readTable(i, role);
+      if (!this.isPunct(i, ',')) {
+        return;
+      }
+      i++;
+    }
+  }
+
+  /**
+   * Lê uma referência de tabela (schema.tabela [AS] apelido)
+   * Subqueries e funções de tabela são puladas (as tabelas internas são lidas pela varredura)
+   * @returns Índice após a referência
+   */
+  private readTable(i: number, role: SQLTableRole): number {
+    while (TABLE_PREFIXES.has(this.upper(i))) i++;
+
+    if (this.isPunct(i, '(')) {
+      return this.readAlias(this.skipGroup(i)).next;
+    }
+
+    const first = this.tokens[i];
+    if (!first || !this.isName(first)) {
+      return i;
+    }
+
+    const parts = [first.value];
+    i++;
+    while (this.isPunct(i, '.') && this.tokens[i + 1] && this.isName(this.tokens[i + 1], true)) {
+      parts.push(this.tokens[i + 1].value);
+      i += 2;
+    }
+
+    // nome(...) em FROM é função de tabela; em INSERT INTO é a lista de colunas
+    if (role === 'read' && this.isPunct(i, '(')) {
+      return this.readAlias(this.skipGroup(i)).next;
+    }
+
+    const name = parts.join('.').toLowerCase();
+    const { next, alias } = this.readAlias(i);
+    i = next;
+
+    if (this.ctes.includes(name) || PSEUDO_TABLES.has(name)) {
+      return i;
+    }
+
+    if (!this.tables.some(table => table.name === name && table.role === role)) {
+      this.tables.push({
+        name,
+        ...(parts.length > 1 ? { schema: parts.slice(0, -1).join('.').toLowerCase() } : {}),
+        ...(alias ? { alias } : {}),
+        role
+      });
+    }
+
+    return i;
+  }
+
+  /**
+   * Alvo de "TRUNCATE [TABLE] x" e "CREATE/ALTER/DROP ... TABLE [IF [NOT] EXISTS] x"
+   */
+  private readDDLTarget(i: number): void {
+    const limit = Math.min(i + 5, this.tokens.length);
+    let tableIndex = -1;
+
+    for (let j = i; j < limit && this.tokens[j].type === 'word'; j++) {
+      if (this.upper(j) === 'TABLE') {
+        tableIndex = j;
+        break;
+      }
+    }
+
+    if (tableIndex === -1) {
+      // TRUNCATE sem TABLE: o próximo nome já é a tabela
+      if (this.upper(i - 1) === 'TRUNCATE') this.readTable(i, 'write');
+      return;
+    }
+
+    i = tableIndex + 1;
+    while (['IF', 'NOT', 'EXISTS'].includes(this.upper(i))) i++;
+    this.readTable(i, 'write');
+  }
+
+  /**
+   * Lê "[AS] apelido" (e a lista de colunas do apelido, se houver)
+   */
+  private readAlias(i: number): { next: number; alias?: string } {
+    const nameIndex = this.upper(i) === 'AS' ? i + 1 : i;
+    const token = this.tokens[nameIndex];
+
+    if (!token || !this.isName(token)) {
+      return { next: i };
+    }
+
+    const next = this.isPunct(nameIndex + 1, '(') ? this.skipGroup(nameIndex + 1) : nameIndex + 1;
+    return { next, alias: token.value };
+  }
+
+  /**
+   * Índice após o ")" que fecha o "(" em i
+   */
+  private skipGroup(i: number): number {
+    const depth = this.tokens[i].depth;
+    for (let j = i + 1; j < this.tokens.length; j++) {
+      if (this.tokens[j].value === ')' && this.tokens[j].type === 'punct' && this.tokens[j].depth === depth) {
+        return j + 1;
+      }
+    }
+    return this.tokens.length;
+  }
+
+  /**
+   * Comandos dentro de outro (ex: UPDATE em "ON DUPLICATE KEY UPDATE" ou
+   * "WHEN MATCHED THEN UPDATE") não abrem um novo comando
+   */
+  private isStatementStart(i: number, start: number): boolean {
+    if (i === 0 || i === start) {
+      return true;
+    }
+
+    const previous = this.tokens[i - 1];
+    if (previous.type === 'punct') {
+      return previous.value === '(' || previous.value === ';';
+    }
+
+    return previous.type === 'word' && STATEMENT_BOUNDARIES.has(previous.value.toUpperCase());
+  }
+
+  /** "a IS [NOT] DISTINCT FROM b" não é cláusula FROM */
+  private isDistinctFrom(i: number): boolean {
+    return this.upper(i - 1) === 'DISTINCT' && (this.upper(i - 2) === 'IS' || this.upper(i - 2) === 'NOT');
+  }
+
+  private isName(token: SQLToken, allowReserved = false): boolean {
+    if (token.type === 'identifier') return true;
+    return token.type === 'word' && (allowReserved || !RESERVED_WORDS.has(token.value.toUpperCase()));
+  }
+
+  private isPunct(i: number, value: string): boolean {
+    const token = this.tokens[i];
+    return token !== undefined && token.type === 'punct' && token.value === value;
+  }
+
+  private upper(i: number): string {
+    const token = this.tokens[i];
+    return token && token.type === 'word' ? token.value.toUpperCase() : '';
+  }
+
+  private findIndex(from: number, predicate: (token: SQLToken) => boolean): number {
+    for (let i = from; i < this.tokens.length; i++) {
+      if (predicate(this.tokens[i])) return i;
+    }
+    return -1;
+  }
+}
+
+/**
+ * Posição da aspa de fechamento (aspas dobradas e \\' são escapes)
+ */
+function findQuoteEnd(sql: string, start: number, quote: string): number {
+  for (let i = start + 1; i < sql.length; i++) {
+    if (sql[i] === '\\' && quote === "'") {
+      i++;
+    } else if (sql[i] === quote) {
+      if (sql[i + 1] !== quote) return i;
+      i++;
+    }
+  }
+  return sql.length;
+}
+
+function doubledQuote(quote: string): RegExp {
+  return new RegExp(quote + quote, 'g');
+}
@@ -0,0 +1,75 @@
+import { createHash } from 'crypto';
+import { SQLInfo } from '../../../../shared/types/log.types';
+
+/**
+ * Normalização e fingerprint de queries SQL
+ *
+ * Queries que diferem só em literais, binds ou formatação geram o mesmo texto
+ * normalizado e, portanto, o mesmo fingerprint:
+ *   SELECT * FROM produto WHERE id = :bd_c_0      -> select * from produto where id = ?
+ *   select *  from PRODUTO where id = 42          -> select * from produto where id = ?
+ *   SELECT * FROM produto WHERE id IN (1, 2, 3)   -> select * from produto where id in (?+)
+ */
+
+const BLOCK_COMMENT = /\/\*[\s\S]*?\*\//g;
+const LINE_COMMENT = /--[^\n]*/g;
+const STRING_LITERAL = /'(?:[^'\\]|\\.|'')*'/g;
+const HEX_LITERAL = /\b0x[0-9a-f]+\b/gi;
+const NUMBER_LITERAL = /\b\d+(?:\.\d+)?(?:e[+-]?\d+)?\b/gi;
+/** :nome (sem pegar casts ::tipo), $1, @p1 e ? */
+const BIND_PLACEHOLDER = /(?<!:):[a-z_]\w*|\$\d+|@\w+|\?/gi;
+const IN_LIST = /\bin\s*\(\s*\?(?:\s*,\s*\?)*\s*\)/gi;
+/** Tuplas idênticas repetidas (ex: VALUES (?, ?), (?, ?)) */
+const REPEATED_TUPLE = /(\([^()]*\))(?:\s*,\s*\1)+/g;
+
+/** Quantidade de caracteres hexadecimais mantidos no fingerprint */
+const FINGERPRINT_LENGTH = 16;
+
+/**
+ * Normaliza uma query: remove comentários e literais, canonicaliza binds,
+ * colapsa listas IN e padroniza espaços e maiúsculas
+ */
+export function normalizeSQL(sql: string): string {
+  return sql
+    .replace(BLOCK_COMMENT, ' ')
+    .replace(LINE_COMMENT, ' ')
+    .replace(STRING_LITERAL, '?')
+    .replace(HEX_LITERAL, '?')
+    .replace(BIND_PLACEHOLDER, '?')
+    .replace(NUMBER_LITERAL, '?')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .replace(/\s*,\s*/g, ', ')
+    .replace(/\(\s+/g, '(')
+    .replace(/\s+\)/g, ')')
+    .replace(IN_LIST, 'in (?+)')
+    .replace(REPEATED_TUPLE, '$1')
+    .replace(/\s*;\s*$/, '')
+    .trim();
+}
+
+/**
+ * Indica se a query usa placeholders de bind (:nome, $1, @p1 ou ?)
+ */
+export function hasBindPlaceholders(sql: string): boolean {
+  return new RegExp(BIND_PLACEHOLDER.source, 'i').test(sql.replace(STRING_LITERAL, ''));
+}
+
+/**
+ * Fingerprint estável (hash do texto normalizado) de uma query
+ */
+export function fingerprintSQL(sql: string): string {
+  return createHash('sha1')
+    .update(normalizeSQL(sql))
+    .digest('hex')
+    .slice(0, FINGERPRINT_LENGTH);
+}
+
+/**
+ * Fingerprint de um SQLInfo (query com binds ou, na falta dela, a decodificada)
+ * Retorna undefined se não houver query
+ */
+export function getSQLFingerprint(sqlInfo: SQLInfo): string | undefined {
+  const query = sqlInfo.query || sqlInfo.decodedQuery;
+  return query ? fingerprintSQL(query) : undefined;
+}
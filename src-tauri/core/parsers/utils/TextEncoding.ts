@@ -0,0 +1,299 @@
+import { LogEncoding } from '../../../../shared/types/parser.types';
+import { StringDecoder } from 'string_decoder';
+
+/**
+ * Detecção e decodificação do encoding dos logs
+ *
+ * Servidores legados gravam os .zlg em ISO-8859-1 ou Windows-1252; lidos como
+ * UTF-8, "Após" e "Execução" viram caracteres de substituição e os padrões
+ * dos parsers deixam de casar
+ */
+
+/**
+ * Encoding detectado a partir dos primeiros bytes
+ */
+export interface EncodingDetection {
+  encoding: LogEncoding;
+
+  /** Confiança de 0 a 1 */
+  confidence: number;
+
+  reason: string;
+
+  /** Bytes do BOM no início da amostra (0 sem BOM) */
+  bomLength: number;
+}
+
+/**
+ * Decodificador incremental: bytes de um caractere divididos entre duas
+ * leituras são guardados até a próxima (modo follow)
+ */
+export interface LogTextDecoder {
+  write(bytes: Buffer): string;
+  end(): string;
+}
+
+/** Bytes do início do arquivo usados na detecção */
+export const ENCODING_SAMPLE_BYTES = 64 * 1024;
+
+/**
+ * Caracteres do Windows-1252 entre 0x80 e 0x9F (no ISO-8859-1 são controles C1);
+ * os cinco bytes não definidos ficam como o controle C1, como nos navegadores
+ */
+const WINDOWS_1252_HIGH =
+  '€\u0081‚ƒ„…†‡ˆ‰Š‹Œ\u008dŽ\u008f' +
+  '\u0090‘’“”•–—˜™š›œ\u009džŸ';
+
+/** Acima desta proporção de bytes nulos nas posições pares/ímpares, o texto é UTF-16 */
+const UTF16_ZERO_RATIO = 0.3;
+
+/**
+ * Sequências UTF-8 válidas por byte inválido a partir das quais o arquivo
+ * continua sendo UTF-8 (com alguns bytes corrompidos)
+ */
+const MOSTLY_UTF8_RATIO = 10;
+
+/**
+ * Detecta o encoding de uma amostra do início do arquivo, na ordem:
+ * BOM, bytes nulos de UTF-16, validade como UTF-8 e, para UTF-8 inválido,
+ * quantos bytes altos são letras acentuadas dentro de palavras (Latin-1)
+ * Uma sequência UTF-8 cortada no fim da amostra não conta como inválida
+ */
+export function detectEncoding(sample: Buffer): EncodingDetection {
+  if (sample.length >= 3 && sample[0] === 0xef && sample[1] === 0xbb && sample[2] === 0xbf) {
+    return { encoding: 'utf8', confidence: 1, reason: 'UTF-8 byte order mark', bomLength: 3 };
+  }
+  if (sample.length >= 2 && sample[0] === 0xff && sample[1] === 0xfe) {
+    return { encoding: 'utf16le', confidence: 1, reason: 'UTF-16LE byte order mark', bomLength: 2 };
+  }
+  if (sample.length >= 2 && sample[0] === 0xfe && sample[1] === 0xff) {
+    return { encoding: 'utf16be', confidence: 1, reason: 'UTF-16BE byte order mark', bomLength: 2 };
+  }
+
+  const utf16 = detectUtf16(sample);
+  if (utf16) {
+    return { encoding: utf16, confidence: 0.8, reason: 'Null bytes alternating with ASCII text', bomLength: 0 };
+  }
+
+  const { valid, invalid } = countUtf8Sequences(sample);
+
+  if (invalid === 0) {
+    return valid > 0
+      ? { encoding: 'utf8', confidence: 0.95, reason: `${valid} valid UTF-8 multibyte sequence(s)`, bomLength: 0 }
+      // Só ASCII: qualquer encoding compatível com ASCII lê o arquivo igual
+      : { encoding: 'utf8', confidence: 0.5, reason: 'ASCII only', bomLength: 0 };
+  }
+
+  if (valid >= invalid * MOSTLY_UTF8_RATIO) {
+    return {
+      encoding: 'utf8',
+      confidence: 0.7,
+      reason: `${valid} valid UTF-8 sequence(s) and ${invalid} invalid byte(s)`,
+      bomLength: 0
+    };
+  }
+
+  const { highBytes, accentedLetters, windows1252Bytes } = countLatin1Letters(sample);
+  const letterRatio = highBytes > 0 ? accentedLetters / highBytes : 0;
+
+  return {
+    // 0x80-0x9F são controles no ISO-8859-1; em texto, só aparecem no Windows-1252 (€, aspas, travessões)
+    encoding: windows1252Bytes > 0 ? 'windows-1252' : 'latin1',
+    confidence: Math.round((0.6 + 0.35 * letterRatio) * 100) / 100,
+    reason: `${invalid} invalid UTF-8 byte(s); ${accentedLetters} of ${highBytes} high byte(s) are accented letters in words`,
+    bomLength: 0
+  };
+}
+
+/**
+ * Decodifica bytes em qualquer LogEncoding (o BOM, se houver, é mantido)
+ */
+export function decodeText(bytes: Buffer, encoding: LogEncoding): string {
+  if (encoding === 'windows-1252') {
+    const text = bytes.toString('latin1');
+    return /[\x80-\x9f]/.test(text)
+      ? text.replace(/[\x80-\x9f]/g, char => WINDOWS_1252_HIGH[char.charCodeAt(0) - 0x80])
+      : text;
+  }
+
+  if (encoding === 'utf16be') {
+    // Um byte sobrando no fim é metade de um caractere
+    return swapBytes(bytes.subarray(0, bytes.length - (bytes.length % 2))).toString('utf16le');
+  }
+
+  return bytes.toString(encoding);
+}
+
+/**
+ * Codifica texto ASCII (ex: quebras de linha) em qualquer LogEncoding
+ */
+export function encodeText(text: string, encoding: LogEncoding): Buffer {
+  if (encoding === 'windows-1252') {
+    return Buffer.from(text, 'latin1');
+  }
+
+  if (encoding === 'utf16be') {
+    return swapBytes(Buffer.from(text, 'utf16le'));
+  }
+
+  return Buffer.from(text, encoding);
+}
+
+/**
+ * Decodificador incremental para qualquer LogEncoding
+ */
+export function createTextDecoder(encoding: LogEncoding): LogTextDecoder {
+  if (encoding === 'windows-1252') {
+    // Um byte por caractere: nada fica pendente entre leituras
+    return { write: bytes => decodeText(bytes, encoding), end: () => '' };
+  }
+
+  if (encoding === 'utf16be') {
+    const decoder = new StringDecoder('utf16le');
+    let pending: Buffer = Buffer.alloc(0);
+
+    return {
+      write: bytes => {
+        const all = pending.length > 0 ? Buffer.concat([pending, bytes]) : bytes;
+        const even = all.length - (all.length % 2);
+        pending = Buffer.from(all.subarray(even));
+        return decoder.write(swapBytes(all.subarray(0, even)));
+      },
+      end: () => decoder.end()
+    };
+  }
+
+  return new StringDecoder(encoding);
+}
+
+/**
+ * Cópia com os bytes de cada par trocados (UTF-16BE <-> UTF-16LE)
+ */
+function swapBytes(bytes: Buffer): Buffer {
+  return Buffer.from(bytes).swap16();
+}
+
+/**
+ * Texto ASCII em UTF-16 tem um byte nulo em cada par: nas posições ímpares
+ * em little-endian e nas pares em big-endian
+ */
+function detectUtf16(sample: Buffer): 'utf16le' | 'utf16be' | undefined {
+  const pairs = Math.floor(sample.length / 2);
+  if (pairs === 0) {
+    return undefined;
+  }
+
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i < pairs * 2; i += 2) {
+    if (sample[i] === 0) evenZeros++;
+    if (sample[i + 1] === 0) oddZeros++;
+  }
+
+  if (oddZeros / pairs > UTF16_ZERO_RATIO && evenZeros / pairs < UTF16_ZERO_RATIO / 10) {
+    return 'utf16le';
+  }
+  if (evenZeros / pairs > UTF16_ZERO_RATIO && oddZeros / pairs < UTF16_ZERO_RATIO / 10) {
+    return 'utf16be';
+  }
+
+  return undefined;
+}
+
+/**
+ * Conta as sequências UTF-8 de mais de um byte válidas e os bytes que não
+ * formam sequência válida (bytes de continuação soltos, formas longas,
+ * surrogates e códigos acima de U+10FFFF)
+ */
+function countUtf8Sequences(sample: Buffer): { valid: number; invalid: number } {
+  let valid = 0;
+  let invalid = 0;
+  let i = 0;
+
+  while (i < sample.length) {
+    const byte = sample[i];
+
+    if (byte < 0x80) {
+      i++;
+      continue;
+    }
+
+    const length = byte >= 0xc2 && byte <= 0xdf ? 2
+      : byte >= 0xe0 && byte <= 0xef ? 3
+      : byte >= 0xf0 && byte <= 0xf4 ? 4
+      : 0;
+
+    if (length === 0) {
+      invalid++;
+      i++;
+      continue;
+    }
+
+    // Sequência cortada pelo fim da amostra
+    if (i + length > sample.length) {
+      break;
+    }
+
+    // Limites do segundo byte que excluem formas longas, surrogates e > U+10FFFF
+    const second = sample[i + 1];
+    const secondMin = byte === 0xe0 ? 0xa0 : byte === 0xf0 ? 0x90 : 0x80;
+    const secondMax = byte === 0xed ? 0x9f : byte === 0xf4 ? 0x8f : 0xbf;
+    let isValid = second >= secondMin && second <= secondMax;
+
+    for (let j = 2; isValid && j < length; j++) {
+      isValid = (sample[i + j] & 0xc0) === 0x80;
+    }
+
+    if (isValid) {
+      valid++;
+      i += length;
+    } else {
+      invalid++;
+      i++;
+    }
+  }
+
+  return { valid, invalid };
+}
+
+/**
+ * Lidos como Latin-1, os bytes altos de um log em português são letras
+ * acentuadas (á, ç, ã, õ...) ao lado de outras letras: "Ap\xf3s", "Execu\xe7\xe3o"
+ */
+function countLatin1Letters(sample: Buffer): {
+  highBytes: number;
+  accentedLetters: number;
+  windows1252Bytes: number;
+} {
+  let highBytes = 0;
+  let accentedLetters = 0;
+  let windows1252Bytes = 0;
+
+  for (let i = 0; i < sample.length; i++) {
+    const byte = sample[i];
+    if (byte < 0x80) {
+      continue;
+    }
+
+    highBytes++;
+
+    if (byte <= 0x9f) {
+      windows1252Bytes++;
+    } else if (isLatin1Letter(byte) && (isLetter(sample[i - 1]) || isLetter(sample[i + 1]))) {
+      accentedLetters++;
+    }
+  }
+
+  return { highBytes, accentedLetters, windows1252Bytes };
+}
+
+function isLatin1Letter(byte: number): boolean {
+  return byte >= 0xc0 && byte !== 0xd7 && byte !== 0xf7;
+}
+
+function isLetter(byte: number | undefined): boolean {
+  if (byte === undefined) {
+    return false;
+  }
+  return (byte >= 0x41 && byte <= 0x5a) || (byte >= 0x61 && byte <= 0x7a) || isLatin1Letter(byte);
+}
@@ -0,0 +1,238 @@
+import { LogDateSource, LogEntry } from '../../../../shared/types/log.types';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface BaseDate {
+  date: Date;
+  source: LogDateSource;
+
+  /** A data já é a da linha de partida (leitura retomada no meio do arquivo) */
+  resumed?: boolean;
+}
+
+export interface InferredTimestamp {
+  fullDate?: Date;
+
+  /** Horário anterior ao de uma linha já vista no mesmo dia */
+  outOfOrder: boolean;
+}
+
+/**
+ * Um recuo maior que isto entre linhas consecutivas é a virada do dia
+ * (23:59:58 -> 00:00:01); recuos menores são linhas fora de ordem
+ */
+const DAY_ROLLOVER_THRESHOLD_SECONDS = 12 * 60 * 60;
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+/** Problema registrado em parsingIssues para linhas fora de ordem */
+export const OUT_OF_ORDER_ISSUE = 'Timestamp out of order (earlier than a previous line)';
+
+/** Datas no nome do arquivo: 2024-03-15, 2024_03_15, 20240315, 15-03-2024, 15.03.2024 */
+const FILE_NAME_DATE_PATTERNS: Array<{ pattern: RegExp; order: 'ymd' | 'dmy' }> = [
+  { pattern: /(?<!\d)(\d{4})[-_.]?(\d{2})[-_.]?(\d{2})(?!\d)/, order: 'ymd' },
+  { pattern: /(?<!\d)(\d{2})[-_.](\d{2})[-_.](\d{4})(?!\d)/, order: 'dmy' }
+];
+
+/** Faixa de anos aceita (evita ler números quaisquer do nome como data) */
+const MIN_FILE_NAME_YEAR = 1990;
+const MAX_FILE_NAME_YEAR = 2100;
+
+/**
+ * Extrai a data do nome do arquivo (meia-noite, horário local)
+ */
+export function extractDateFromFileName(fileName: string): Date | undefined {
+  const baseName = path.basename(fileName);
+
+  for (const { pattern, order } of FILE_NAME_DATE_PATTERNS) {
+    const match = pattern.exec(baseName);
+    if (!match) {
+      continue;
+    }
+
+    const [year, month, day] = order === 'ymd'
+      ? [match[1], match[2], match[3]].map(Number)
+      : [match[3], match[2], match[1]].map(Number);
+
+    const date = new Date(year, month - 1, day);
+    if (year >= MIN_FILE_NAME_YEAR && year <= MAX_FILE_NAME_YEAR &&
+        date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day) {
+      return date;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Resolve a data base na ordem: opção baseDate (informada explicitamente),
+ * nome do arquivo, mtime do arquivo
+ * @param fileName Nome de onde extrair a data, quando difere do arquivo (membro de um pacote)
+ */
+export function resolveBaseDate(filePath: string, optionDate?: Date, fileName: string = filePath): BaseDate | undefined {
+  if (optionDate) {
+    return { date: optionDate, source: 'option' };
+  }
+
+  const fromName = extractDateFromFileName(fileName);
+  if (fromName) {
+    return { date: fromName, source: 'file-name' };
+  }
+
+  try {
+    return { date: fs.statSync(filePath).mtime, source: 'file-mtime' };
+  } catch {
+    // Arquivo inacessível: sem data base
+    return undefined;
+  }
+}
+
+/**
+ * Completa timestamps HH:MM:SS com a data, avançando o dia quando o horário
+ * volta por mais de 12h (virada da meia-noite) e sinalizando linhas fora de ordem
+ *
+ * Com a data vinda do mtime (que marca o fim do arquivo), se o primeiro horário
+ * for posterior ao horário do mtime o log começou no dia anterior. Isso só
+ * acerta logs com até uma virada; lido o arquivo, settleMtimeDays() diz
+ * quanto recuar as datas para o último dia coincidir com o do mtime.
+ */
+export class TimestampInferrer {
+  private day?: Date;
+  private dayStarted = false;
+  private highWaterSeconds = -1;
+  private settled = false;
+
+  constructor(private baseDate?: BaseDate) {}
+
+  get source(): LogDateSource | undefined {
+    return this.baseDate?.source;
+  }
+
+  /**
+   * Data completa do timestamp da próxima linha (na ordem do arquivo)
+   * @param fallbackDate Usada quando não há data base (ex: parseLine fora do stream)
+   */
+  infer(timestamp: string, fallbackDate?: Date): InferredTimestamp {
+    const seconds = toSecondsOfDay(timestamp);
+    if (seconds === null) {
+      return { outOfOrder: false };
+    }
+
+    if (!this.baseDate && fallbackDate) {
+      this.baseDate = { date: fallbackDate, source: 'option' };
+    }
+
+    if (!this.dayStarted && this.baseDate) {
+      this.startDay(this.baseDate, seconds);
+    }
+
+    let outOfOrder = false;
+
+    if (this.highWaterSeconds === -1 || seconds >= this.highWaterSeconds) {
+      this.highWaterSeconds = seconds;
+    } else if (this.highWaterSeconds - seconds > DAY_ROLLOVER_THRESHOLD_SECONDS) {
+      this.day = this.day ? addDays(this.day, 1) : undefined;
+      this.highWaterSeconds = seconds;
+    } else {
+      outOfOrder = true;
+    }
+
+    if (!this.day) {
+      return { outOfOrder };
+    }
+
+    const fullDate = new Date(this.day);
+    fullDate.setSeconds(seconds);
+
+    return { fullDate, outOfOrder };
+  }
+
+  /**
+   * Segunda passada para a data do mtime, depois de ler o arquivo até o fim:
+   * a última linha é do dia do mtime (ou do anterior, se for mais tarde que o
+   * horário do mtime), então cada virada além da prevista no início desloca
+   * todas as datas
+   * Corrige o dia corrente e devolve quantos dias as datas já inferidas devem
+   * recuar (0 para outras origens, leituras retomadas ou depois da primeira chamada)
+   */
+  settleMtimeDays(): number {
+    if (this.settled || !this.day || this.baseDate?.source !== 'file-mtime' || this.baseDate.resumed) {
+      return 0;
+    }
+    this.settled = true;
+
+    const { date } = this.baseDate;
+    let lastDay = startOfDay(date);
+    if (this.highWaterSeconds > secondsOfDay(date)) {
+      lastDay = addDays(lastDay, -1);
+    }
+
+    // Arredondado: dias com horário de verão não têm 24h
+    const days = Math.round((this.day.getTime() - lastDay.getTime()) / (SECONDS_PER_DAY * 1000));
+    this.day = addDays(this.day, -days);
+
+    return days;
+  }
+
+  private startDay({ date, source, resumed }: BaseDate, firstSeconds: number): void {
+    this.dayStarted = true;
+    let day = startOfDay(date);
+
+    if (source === 'file-mtime' && !resumed && firstSeconds > secondsOfDay(date)) {
+      day = addDays(day, -1);
+    }
+
+    this.day = day;
+  }
+}
+
+/**
+ * Move a data completa das entradas (ex: -2 recua dois dias), mantendo o horário
+ */
+export function shiftEntryDates(entries: LogEntry[], days: number): void {
+  if (days === 0) {
+    return;
+  }
+
+  for (const entry of entries) {
+    if (entry.context.fullDate) {
+      const shifted = new Date(entry.context.fullDate);
+      shifted.setDate(shifted.getDate() + days);
+      entry.context.fullDate = shifted;
+    }
+  }
+}
+
+/**
+ * Momento da entrada em segundos: epoch quando há fullDate, senão segundos do dia
+ * (permite medir durações mesmo sem data base)
+ */
+export function getEntryTime(entry: LogEntry): number | undefined {
+  if (entry.context.fullDate) {
+    return new Date(entry.context.fullDate).getTime() / 1000;
+  }
+
+  return toSecondsOfDay(entry.context.timestamp) ?? undefined;
+}
+
+function toSecondsOfDay(timestamp: string): number | null {
+  const match = /^(\d{1,2}):(\d{2}):(\d{2})$/.exec(timestamp);
+  if (!match) {
+    return null;
+  }
+
+  const seconds = Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3]);
+  return seconds < SECONDS_PER_DAY ? seconds : null;
+}
+
+function secondsOfDay(date: Date): number {
+  return date.getHours() * 3600 + date.getMinutes() * 60 + date.getSeconds();
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
@@ -1 +1,6 @@
 export * from './ParserUtils';
+export * from './SQLAnalyzer';
+export * from './SQLFingerprint';
+export * from './TimestampInference';
+export * from './LineReader';
+export * from './TextEncoding';
\ No newline at end of file
@@ -0,0 +1,165 @@
+import { LogEntry, QueryExecution } from '../../../shared/types/log.types';
+import { SearchHighlight, SearchLogsCommand } from '../../../shared/types/ipc.types';
+import { compileFilter, selectEntries } from '../filters/FilterCompiler';
+import { getFieldValue, SearchableField, SearchIndex, SEARCHABLE_FIELDS } from './SearchIndex';
+
+export type SearchOptions = Omit<SearchLogsCommand, 'logId'>;
+
+export interface SearchResult {
+  results: LogEntry[];
+  totalMatches: number;
+  highlights: SearchHighlight[];
+}
+
+const DEFAULT_PAGE_SIZE = 200;
+
+/**
+ * Busca sobre as entradas de um log (message, sqlInfo.query e sqlInfo.decodedQuery)
+ *
+ * Consultas de texto usam um índice de tokens construído uma vez por conjunto de
+ * entradas: os candidatos vêm do índice (cada palavra da consulta como parte de
+ * um token) e são confirmados pela busca exata. Regex faz varredura completa.
+ * O filtro opcional (linguagem de filtros) restringe as entradas consideradas.
+ */
+export class LogSearchEngine {
+  private indexes = new WeakMap<LogEntry[], SearchIndex>();
+
+  /**
+   * Executa a busca e devolve a página solicitada com offsets de destaque
+   * @param executions Execuções do log, para o filtro avaliar sql.* e table por execução
+   * @throws FilterSyntaxError se options.filter for inválido
+   */
+  search(entries: LogEntry[], options: SearchOptions, executions?: QueryExecution[]): SearchResult {
+    const fields = this.resolveFields(options.fields);
+    const offset = Math.max(options.offset ?? 0, 0);
+    const limit = options.limit ?? DEFAULT_PAGE_SIZE;
+    const findRanges = this.createRangeFinder(options);
+    const predicate = options.filter && options.filter.trim() ? compileFilter(options.filter) : null;
+    const accepted = predicate ? new Set(selectEntries(entries, predicate, executions)) : null;
+    // Só filtro: todas as entradas aceitas pelo filtro, sem destaques
+    const filterOnly = accepted !== null && !options.query;
+
+    const candidates = options.isRegex || filterOnly
+      ? null
+      : this.getIndex(entries).candidates(options.query, fields);
+
+    const matched: Array<{ entry: LogEntry; highlights: SearchHighlight[] }> = [];
+    let totalMatches = 0;
+
+    const visit = (entry: LogEntry) => {
+      if (accepted && !accepted.has(entry)) {
+        return;
+      }
+
+      const highlights: SearchHighlight[] = [];
+
+      for (const field of fields) {
+        for (const [start, end] of findRanges(getFieldValue(entry, field))) {
+          highlights.push({ lineNumber: entry.lineNumber, field, start, end });
+        }
+      }
+
+      if (highlights.length === 0 && !filterOnly) {
+        return;
+      }
+
+      if (totalMatches >= offset && matched.length < limit) {
+        matched.push({ entry, highlights });
+      }
+      totalMatches++;
+    };
+
+    if (candidates) {
+      for (const position of candidates) {
+        visit(entries[position]);
+      }
+    } else {
+      entries.forEach(visit);
+    }
+
+    return {
+      results: matched.map(match => match.entry),
+      totalMatches,
+      highlights: matched.flatMap(match => match.highlights)
+    };
+  }
+
+  /**
+   * Constrói (ou reaproveita) o índice de um conjunto de entradas
+   * Entradas acrescentadas ao array (LogStore.append no modo follow) são
+   * indexadas na próxima busca; se o array encolheu, o índice é reconstruído
+   */
+  getIndex(entries: LogEntry[]): SearchIndex {
+    let index = this.indexes.get(entries);
+    if (!index || index.size > entries.length) {
+      index = new SearchIndex(entries);
+      this.indexes.set(entries, index);
+    } else {
+      index.update();
+    }
+    return index;
+  }
+
+  /**
+   * Descarta o índice (ex: entradas foram alteradas)
+   */
+  invalidate(entries: LogEntry[]): void {
+    this.indexes.delete(entries);
+  }
+
+  private resolveFields(fields?: SearchLogsCommand['fields']): SearchableField[] {
+    if (!fields || fields.length === 0 || fields.includes('all')) {
+      return SEARCHABLE_FIELDS;
+    }
+
+    const resolved: SearchableField[] = [];
+    if (fields.includes('message')) resolved.push('message');
+    if (fields.includes('query')) resolved.push('query', 'decodedQuery');
+    return resolved;
+  }
+
+  /**
+   * Cria a função que encontra os intervalos [início, fim) da consulta em um texto
+   */
+  private createRangeFinder(options: SearchOptions): (value: string) => Array<[number, number]> {
+    if (options.isRegex) {
+      const pattern = new RegExp(options.query, options.caseSensitive ? 'g' : 'gi');
+
+      return value => {
+        const ranges: Array<[number, number]> = [];
+        if (!value) return ranges;
+
+        pattern.lastIndex = 0;
+        let match;
+        while ((match = pattern.exec(value)) !== null) {
+          if (match[0].length === 0) {
+            pattern.lastIndex++;
+            continue;
+          }
+          ranges.push([match.index, match.index + match[0].length]);
+        }
+        return ranges;
+      };
+    }
+
+    const needle = options.caseSensitive ? options.query : options.query.toLowerCase();
+
+    return value => {
+      const ranges: Array<[number, number]> = [];
+      if (!value || !needle) return ranges;
+
+      const haystack = options.caseSensitive ? value : value.toLowerCase();
+      let position = haystack.indexOf(needle);
+      while (position !== -1) {
+        ranges.push([position, position + needle.length]);
+        position = haystack.indexOf(needle, position + needle.length);
+      }
+      return ranges;
+    };
+  }
+}
+
+/**
+ * Instância singleton global do motor de busca
+ */
+export const logSearchEngine = new LogSearchEngine();
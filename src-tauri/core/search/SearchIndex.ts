@@ -0,0 +1,187 @@
+import { LogEntry } from '../../../shared/types/log.types';
+import { SearchHighlight } from '../../../shared/types/ipc.types';
+
+export type SearchableField = SearchHighlight['field'];
+
+export const SEARCHABLE_FIELDS: SearchableField[] = ['message', 'query', 'decodedQuery'];
+
+const TOKEN_PATTERN = /[\p{L}\p{N}_]+/gu;
+
+/**
+ * Quebra um texto em tokens normalizados (minúsculos, letras/dígitos/_)
+ */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(TOKEN_PATTERN) || []);
+}
+
+/**
+ * Valor de um campo pesquisável da entrada
+ */
+export function getFieldValue(entry: LogEntry, field: SearchableField): string {
+  switch (field) {
+    case 'message':
+      return entry.message;
+    case 'query':
+      return entry.sqlInfo?.query || '';
+    case 'decodedQuery':
+      return entry.sqlInfo?.decodedQuery || '';
+  }
+}
+
+/** Tamanho dos trechos (trigramas) usados para achar tokens que contêm o termo */
+const GRAM_LENGTH = 3;
+
+/**
+ * Índice invertido token -> posições (índices em entries) de um campo
+ * Os tokens são indexados por trigramas, para achar termos no meio de um
+ * token ("duto" em "produto")
+ */
+class FieldIndex {
+  private postings = new Map<string, number[]>();
+
+  /** Tokens na ordem em que apareceram (o índice no array é o id do token) */
+  private tokens: string[] = [];
+  private grams = new Map<string, number[]>();
+
+  add(token: string, position: number): void {
+    let list = this.postings.get(token);
+    if (!list) {
+      list = [];
+      this.postings.set(token, list);
+      this.addGrams(token, this.tokens.push(token) - 1);
+    }
+    // Posições chegam em ordem crescente; evita duplicar o mesmo token na mesma entrada
+    if (list[list.length - 1] !== position) {
+      list.push(position);
+    }
+  }
+
+  /**
+   * Posições de todas as entradas com algum token que contém o termo
+   */
+  lookup(term: string, into: Set<number>): void {
+    for (const token of this.tokensContaining(term)) {
+      for (const position of this.postings.get(token)!) {
+        into.add(position);
+      }
+    }
+  }
+
+  private addGrams(token: string, tokenId: number): void {
+    for (let i = 0; i + GRAM_LENGTH <= token.length; i++) {
+      const gram = token.slice(i, i + GRAM_LENGTH);
+      let ids = this.grams.get(gram);
+      if (!ids) {
+        ids = [];
+        this.grams.set(gram, ids);
+      }
+      // O mesmo trigrama pode se repetir no token ("aaaa")
+      if (ids[ids.length - 1] !== tokenId) {
+        ids.push(tokenId);
+      }
+    }
+  }
+
+  /**
+   * Termos curtos varrem o vocabulário; os demais partem do trigrama mais
+   * raro do termo e confirmam cada token candidato
+   */
+  private tokensContaining(term: string): string[] {
+    if (term.length < GRAM_LENGTH) {
+      return this.tokens.filter(token => token.includes(term));
+    }
+
+    let rarest: number[] | undefined;
+    for (let i = 0; i + GRAM_LENGTH <= term.length; i++) {
+      const ids = this.grams.get(term.slice(i, i + GRAM_LENGTH));
+      if (!ids) {
+        return [];
+      }
+      if (!rarest || ids.length < rarest.length) {
+        rarest = ids;
+      }
+    }
+
+    return rarest!.map(id => this.tokens[id]).filter(token => token.includes(term));
+  }
+}
+
+/**
+ * Índice de tokens de um conjunto de entradas
+ * Entradas acrescentadas ao array depois da construção (modo follow) são
+ * indexadas por update()
+ */
+export class SearchIndex {
+  private fields = new Map<SearchableField, FieldIndex>();
+  private indexedCount = 0;
+
+  constructor(readonly entries: LogEntry[]) {
+    for (const field of SEARCHABLE_FIELDS) {
+      this.fields.set(field, new FieldIndex());
+    }
+
+    this.update();
+  }
+
+  /**
+   * Quantidade de entradas já indexadas
+   */
+  get size(): number {
+    return this.indexedCount;
+  }
+
+  /**
+   * Indexa as entradas acrescentadas desde a última atualização
+   */
+  update(): void {
+    if (this.indexedCount === this.entries.length) {
+      return;
+    }
+
+    for (let position = this.indexedCount; position < this.entries.length; position++) {
+      const entry = this.entries[position];
+      for (const field of SEARCHABLE_FIELDS) {
+        const index = this.fields.get(field)!;
+        for (const token of tokenize(getFieldValue(entry, field))) {
+          index.add(token, position);
+        }
+      }
+    }
+    this.indexedCount = this.entries.length;
+  }
+
+  /**
+   * Posições candidatas: entradas em que todos os tokens da consulta aparecem
+   * (como parte de algum token) em pelo menos um dos campos
+   * Retorna null se a consulta não tiver tokens (ex: só pontuação)
+   */
+  candidates(query: string, fields: SearchableField[]): number[] | null {
+    const queryTokens = Array.from(new Set(tokenize(query)));
+    if (queryTokens.length === 0) {
+      return null;
+    }
+
+    let result: Set<number> | null = null;
+
+    for (const token of queryTokens) {
+      const matches = new Set<number>();
+      for (const field of fields) {
+        this.fields.get(field)!.lookup(token, matches);
+      }
+
+      if (result === null) {
+        result = matches;
+      } else {
+        const intersection = new Set<number>();
+        for (const position of result) {
+          if (matches.has(position)) intersection.add(position);
+        }
+        result = intersection;
+      }
+
+      if (result.size === 0) break;
+    }
+
+    return Array.from(result!).sort((a, b) => a - b);
+  }
+}
@@ -0,0 +1,4 @@
+export { LogSearchEngine, logSearchEngine } from './LogSearchEngine';
+export type { SearchOptions, SearchResult } from './LogSearchEngine';
+export { SearchIndex, tokenize } from './SearchIndex';
+export type { SearchableField } from './SearchIndex';
\ No newline at end of file
@@ -0,0 +1,227 @@
+import { LogEntry, QueryExecution, SessionSummary } from '../../../shared/types/log.types';
+import { getEntryTime } from '../parsers/utils/TimestampInference';
+import { getTransactionAction } from '../transactions/TransactionTracker';
+import { DEFAULT_THRESHOLD_PROFILE } from '../thresholds/ThresholdProfiles';
+
+export interface SessionOptions {
+  /** Intervalo sem linhas (s) após o qual o mesmo PID inicia nova sessão */
+  idleGapSeconds?: number;
+
+  /** Duração (s) a partir da qual a sessão é considerada longa */
+  longSessionSeconds?: number;
+
+  /** Tempo (s) a partir do qual uma query conta como lenta */
+  slowQueryThreshold?: number;
+
+  /** Guarda as entradas em SessionSummary.entries */
+  includeEntries?: boolean;
+}
+
+/** PIDs são reaproveitados pelo sistema operacional; 5 min sem linhas encerra a sessão */
+export const DEFAULT_IDLE_GAP_SECONDS = 5 * 60;
+
+const DEFAULT_LONG_SESSION_SECONDS = 15 * 60;
+
+/**
+ * Sessão ainda aberta para um PID
+ */
+interface OpenSession {
+  summary: SessionSummary;
+  callPaths: Set<string>;
+  firstTime?: number;
+  lastTime?: number;
+  transactionDepth: number;
+}
+
+/**
+ * Reconstrói as sessões do log a partir das entradas, na ordem do arquivo
+ *
+ * Uma sessão é a sequência de linhas de um PID; se o PID volta a aparecer depois
+ * de um período ocioso maior que idleGapSeconds, é outro processo reaproveitando
+ * o mesmo número e uma nova sessão começa.
+ *
+ * Funciona de forma incremental: add() devolve a sessão encerrada por aquela
+ * entrada (se houver) e flush() devolve as que ficaram abertas
+ */
+export class SessionReconstructor {
+  private open = new Map<string, OpenSession>();
+  private sessionCounts = new Map<string, number>();
+  private executionsByLine = new Map<number, QueryExecution>();
+
+  constructor(executions: QueryExecution[] = [], private readonly options: SessionOptions = {}) {
+    for (const execution of executions) {
+      if (execution.lineNumbers.length > 0) {
+        this.executionsByLine.set(execution.lineNumbers[0], execution);
+      }
+    }
+  }
+
+  /**
+   * Adiciona uma entrada e devolve as sessões encerradas por ela
+   */
+  add(entry: LogEntry): SessionSummary[] {
+    const processId = entry.context.processId;
+    if (!processId) {
+      return [];
+    }
+
+    const completed: SessionSummary[] = [];
+    const time = getEntryTime(entry);
+    let session = this.open.get(processId);
+
+    if (session && this.isIdleGap(session, time)) {
+      completed.push(this.finalize(session));
+      session = undefined;
+    }
+
+    if (!session) {
+      session = this.createSession(entry, time);
+      this.open.set(processId, session);
+    }
+
+    this.merge(session, entry, time);
+
+    return completed;
+  }
+
+  /**
+   * Encerra e devolve todas as sessões ainda abertas, na ordem do arquivo
+   */
+  flush(): SessionSummary[] {
+    const remaining = Array.from(this.open.values())
+      .map(session => this.finalize(session))
+      .sort((a, b) => a.lineRange.start - b.lineRange.start);
+
+    this.open.clear();
+
+    return remaining;
+  }
+
+  /**
+   * Descarta o estado acumulado
+   */
+  reset(): void {
+    this.open.clear();
+    this.sessionCounts.clear();
+  }
+
+  private isIdleGap(session: OpenSession, time: number | undefined): boolean {
+    if (time === undefined || session.lastTime === undefined) {
+      return false;
+    }
+    return time - session.lastTime > (this.options.idleGapSeconds ?? DEFAULT_IDLE_GAP_SECONDS);
+  }
+
+  private createSession(entry: LogEntry, time: number | undefined): OpenSession {
+    const processId = entry.context.processId;
+    const sequence = (this.sessionCounts.get(processId) ?? 0) + 1;
+    this.sessionCounts.set(processId, sequence);
+
+    return {
+      summary: {
+        sessionId: `${processId}#${sequence}`,
+        processId,
+        totalQueries: 0,
+        slowQueries: 0,
+        avgExecutionTime: 0,
+        totalExecutionTime: 0,
+        peakMemoryMB: 0,
+        timeRange: { start: entry.context.timestamp, end: entry.context.timestamp },
+        lineRange: { start: entry.lineNumber, end: entry.lineNumber },
+        durationSeconds: 0,
+        entryCount: 0,
+        callPaths: [],
+        isLongLived: false,
+        endedInTransaction: false,
+        entries: []
+      },
+      callPaths: new Set(),
+      firstTime: time,
+      lastTime: time,
+      transactionDepth: 0
+    };
+  }
+
+  /**
+   * Incorpora a entrada (e a execução de query que começa nela) na sessão
+   */
+  private merge(session: OpenSession, entry: LogEntry, time: number | undefined): void {
+    const summary = session.summary;
+    const { memoryMB, timestamp, connectionIndex } = entry.context;
+
+    summary.entryCount++;
+    summary.peakMemoryMB = Math.max(summary.peakMemoryMB, memoryMB);
+    summary.timeRange.end = timestamp;
+    summary.lineRange.end = entry.endLineNumber ?? entry.lineNumber;
+
+    if (time !== undefined) {
+      session.firstTime = session.firstTime ?? time;
+      session.lastTime = time;
+    }
+
+    if (connectionIndex) {
+      session.callPaths.add(connectionIndex);
+    }
+
+    if (this.options.includeEntries) {
+      summary.entries.push(entry);
+    }
+
+    const transaction = getTransactionAction(entry);
+    if (transaction === 'begin') {
+      session.transactionDepth++;
+    } else if (transaction === 'commit') {
+      session.transactionDepth = Math.max(session.transactionDepth - 1, 0);
+    } else if (transaction === 'rollback') {
+      session.transactionDepth = 0;
+    }
+
+    const execution = this.executionsByLine.get(entry.lineNumber);
+    if (execution && execution.processId === summary.processId) {
+      summary.totalQueries++;
+
+      const executionTime = execution.sqlInfo.executionTime;
+      if (executionTime !== undefined) {
+        summary.totalExecutionTime += executionTime;
+        if (executionTime >= (this.options.slowQueryThreshold ?? DEFAULT_THRESHOLD_PROFILE.slowQuerySeconds)) {
+          summary.slowQueries++;
+        }
+      }
+    }
+  }
+
+  private finalize(session: OpenSession): SessionSummary {
+    const summary = session.summary;
+
+    summary.avgExecutionTime = summary.totalQueries > 0
+      ? summary.totalExecutionTime / summary.totalQueries
+      : 0;
+    summary.durationSeconds = session.firstTime !== undefined && session.lastTime !== undefined
+      ? Math.max(session.lastTime - session.firstTime, 0)
+      : 0;
+    summary.isLongLived = summary.durationSeconds >= (this.options.longSessionSeconds ?? DEFAULT_LONG_SESSION_SECONDS);
+    summary.endedInTransaction = session.transactionDepth > 0;
+    summary.callPaths = Array.from(session.callPaths);
+
+    return summary;
+  }
+}
+
+/**
+ * Reconstrói todas as sessões de um log, na ordem em que começam no arquivo
+ */
+export function reconstructSessions(
+  entries: LogEntry[],
+  executions: QueryExecution[] = [],
+  options: SessionOptions = {}
+): SessionSummary[] {
+  const reconstructor = new SessionReconstructor(executions, options);
+  const sessions: SessionSummary[] = [];
+
+  for (const entry of entries) {
+    sessions.push(...reconstructor.add(entry));
+  }
+  sessions.push(...reconstructor.flush());
+
+  return sessions.sort((a, b) => a.lineRange.start - b.lineRange.start);
+}
@@ -0,0 +1,2 @@
+export { SessionReconstructor, reconstructSessions } from './SessionReconstructor';
+export type { SessionOptions } from './SessionReconstructor';
\ No newline at end of file
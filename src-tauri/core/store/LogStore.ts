@@ -0,0 +1,415 @@
+import {
+  LogEntry,
+  LogFileMetadata,
+  ParsedLog,
+  QueryExecution,
+  StoredLogState,
+  StoredLogSummary
+} from '../../../shared/types/log.types';
+import { randomUUID } from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as readline from 'readline';
+
+/**
+ * O que fazer com logs menos usados quando o orçamento de memória estoura
+ * - 'spill': grava entradas e execuções em disco (JSONL) e recarrega sob demanda
+ * - 'drop-raw-lines': descarta rawLine das entradas (export TXT perde fidelidade);
+ *   se ainda não couber no orçamento, os logs menos usados são gravados em disco
+ */
+export type OverflowStrategy = 'spill' | 'drop-raw-lines';
+
+export interface LogStoreOptions {
+  /** Orçamento de memória estimado para todas as entradas (bytes) */
+  memoryBudgetBytes?: number;
+
+  overflowStrategy?: OverflowStrategy;
+
+  /** Diretório para entradas despejadas em disco */
+  spillDirectory?: string;
+}
+
+interface StoredLog {
+  logId: string;
+  log: ParsedLog;
+  state: StoredLogState;
+  estimatedBytes: number;
+  lastAccessedAt: number;
+  spillPath?: string;
+  executionsSpillPath?: string;
+
+  /** rawLine já descartado (continua assim depois de recarregar do disco) */
+  rawLinesDropped?: boolean;
+}
+
+const DEFAULT_MEMORY_BUDGET_BYTES = 512 * 1024 * 1024;
+
+/** Custo aproximado de um LogEntry além das strings (objetos, contexto, tags) */
+const ENTRY_OVERHEAD_BYTES = 400;
+
+/** Custo aproximado de uma QueryExecution além das strings e das linhas */
+const EXECUTION_OVERHEAD_BYTES = 300;
+
+/**
+ * Store em memória de logs parseados, identificados por logId
+ * Mantém os logs mais recentes em memória e aplica o orçamento nos menos usados (LRU)
+ * As operações de um mesmo log (recarga, append, spill, close) são serializadas
+ */
+export class LogStore {
+  private logs = new Map<string, StoredLog>();
+  private locks = new Map<string, Promise<unknown>>();
+  private readonly memoryBudgetBytes: number;
+  private readonly overflowStrategy: OverflowStrategy;
+  private readonly spillDirectory: string;
+
+  constructor(options: LogStoreOptions = {}) {
+    this.memoryBudgetBytes = options.memoryBudgetBytes ?? DEFAULT_MEMORY_BUDGET_BYTES;
+    this.overflowStrategy = options.overflowStrategy ?? 'spill';
+    this.spillDirectory = options.spillDirectory ?? path.join(os.tmpdir(), 'log-analyzer');
+  }
+
+  /**
+   * Registra um log parseado e devolve o id gerado
+   */
+  async register(log: ParsedLog): Promise<string> {
+    const logId = randomUUID();
+
+    this.logs.set(logId, {
+      logId,
+      log,
+      state: 'memory',
+      estimatedBytes: estimateLogBytes(log),
+      lastAccessedAt: Date.now()
+    });
+
+    await this.enforceBudget(logId);
+
+    return logId;
+  }
+
+  /**
+   * Obtém um log, recarregando do disco se tiver sido despejado
+   * @throws Error se o logId não existir
+   */
+  async get(logId: string): Promise<ParsedLog> {
+    const stored = await this.withLock(logId, () => this.load(logId));
+    await this.enforceBudget(logId);
+
+    return stored.log;
+  }
+
+  /**
+   * Acrescenta entradas e execuções a um log registrado (modo follow)
+   * Recarrega o log se tiver sido despejado
+   * @throws Error se o logId não existir
+   */
+  async append(logId: string, entries: LogEntry[], executions: QueryExecution[] = []): Promise<void> {
+    await this.withLock(logId, async () => {
+      const stored = await this.load(logId);
+      const log = stored.log;
+
+      const queryExecutions = log.queryExecutions ?? (log.queryExecutions = []);
+
+      // Um lote pode ser grande demais para push(...entries)
+      for (const entry of entries) {
+        log.entries.push(entry);
+      }
+      for (const execution of executions) {
+        queryExecutions.push(execution);
+      }
+
+      stored.estimatedBytes += estimateEntriesBytes(entries) + estimateExecutionsBytes(executions);
+    });
+
+    await this.enforceBudget(logId);
+  }
+
+  /**
+   * Verifica se um log está registrado
+   */
+  has(logId: string): boolean {
+    return this.logs.has(logId);
+  }
+
+  /**
+   * Metadados de um log aberto
+   */
+  getMetadata(logId: string): LogFileMetadata {
+    return this.getStored(logId).log.metadata;
+  }
+
+  /**
+   * Lista os logs abertos, do mais recente para o mais antigo
+   */
+  list(): StoredLogSummary[] {
+    return Array.from(this.logs.values())
+      .sort((a, b) => b.lastAccessedAt - a.lastAccessedAt)
+      .map(stored => ({
+        logId: stored.logId,
+        metadata: stored.log.metadata,
+        state: stored.state,
+        estimatedBytes: stored.estimatedBytes,
+        lastAccessedAt: stored.lastAccessedAt
+      }));
+  }
+
+  /**
+   * Fecha um log, liberando memória e arquivos temporários
+   */
+  async close(logId: string): Promise<boolean> {
+    return this.withLock(logId, async () => {
+      const stored = this.logs.get(logId);
+      if (!stored) {
+        return false;
+      }
+
+      this.logs.delete(logId);
+      await removeSpillFiles(stored);
+
+      return true;
+    });
+  }
+
+  /**
+   * Fecha todos os logs
+   */
+  async clear(): Promise<void> {
+    for (const logId of Array.from(this.logs.keys())) {
+      await this.close(logId);
+    }
+  }
+
+  /**
+   * Memória estimada ocupada pelas entradas residentes
+   */
+  getMemoryUsage(): number {
+    let total = 0;
+    for (const stored of this.logs.values()) {
+      if (stored.state !== 'spilled') {
+        total += stored.estimatedBytes;
+      }
+    }
+    return total;
+  }
+
+  /**
+   * Executa a operação depois das operações pendentes do mesmo log
+   * (um spill no meio de um append, por exemplo, perderia as entradas acrescentadas)
+   */
+  private async withLock<T>(logId: string, operation: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(logId) ?? Promise.resolve();
+    const current = previous.catch(() => undefined).then(operation);
+    this.locks.set(logId, current);
+
+    try {
+      return await current;
+    } finally {
+      if (this.locks.get(logId) === current) {
+        this.locks.delete(logId);
+      }
+    }
+  }
+
+  /**
+   * Marca o acesso e recarrega do disco se o log tiver sido despejado
+   * Deve ser chamado com o lock do log
+   * @throws Error se o logId não existir
+   */
+  private async load(logId: string): Promise<StoredLog> {
+    const stored = this.getStored(logId);
+    stored.lastAccessedAt = Date.now();
+
+    if (stored.state === 'spilled' && stored.spillPath) {
+      stored.log.entries = await readJsonLines(stored.spillPath, reviveEntry);
+      if (stored.executionsSpillPath) {
+        stored.log.queryExecutions = await readJsonLines(stored.executionsSpillPath, reviveExecution);
+      }
+
+      stored.state = stored.rawLinesDropped ? 'raw-lines-dropped' : 'memory';
+      await removeSpillFiles(stored);
+      stored.spillPath = undefined;
+      stored.executionsSpillPath = undefined;
+    }
+
+    return stored;
+  }
+
+  private getStored(logId: string): StoredLog {
+    const stored = this.logs.get(logId);
+    if (!stored) {
+      throw new Error(`Log not found: ${logId}`);
+    }
+    return stored;
+  }
+
+  /**
+   * Aplica a estratégia de overflow nos logs menos usados até caber no orçamento
+   * Com 'drop-raw-lines', se descartar rawLine de todos não bastar, os logs
+   * menos usados são gravados em disco
+   * O log recém acessado nunca é afetado; chamado sem nenhum lock, cada
+   * candidato é alterado com o seu
+   */
+  private async enforceBudget(protectedLogId: string): Promise<void> {
+    if (this.getMemoryUsage() <= this.memoryBudgetBytes) {
+      return;
+    }
+
+    const candidates = Array.from(this.logs.values())
+      .filter(stored => stored.logId !== protectedLogId)
+      .sort((a, b) => a.lastAccessedAt - b.lastAccessedAt);
+
+    const steps: OverflowStrategy[] = this.overflowStrategy === 'drop-raw-lines'
+      ? ['drop-raw-lines', 'spill']
+      : ['spill'];
+
+    for (const step of steps) {
+      for (const stored of candidates) {
+        if (this.getMemoryUsage() <= this.memoryBudgetBytes) {
+          return;
+        }
+
+        await this.withLock(stored.logId, () => this.applyOverflow(stored, step));
+      }
+    }
+  }
+
+  /**
+   * Deve ser chamado com o lock do log; ignora logs fechados enquanto esperava
+   */
+  private async applyOverflow(stored: StoredLog, step: OverflowStrategy): Promise<void> {
+    if (this.logs.get(stored.logId) !== stored) {
+      return;
+    }
+
+    if (step === 'spill' && stored.state !== 'spilled') {
+      await this.spill(stored);
+    } else if (step === 'drop-raw-lines' && stored.state === 'memory') {
+      dropRawLines(stored.log.entries);
+      stored.state = 'raw-lines-dropped';
+      stored.rawLinesDropped = true;
+      stored.estimatedBytes = estimateLogBytes(stored.log);
+    }
+  }
+
+  private async spill(stored: StoredLog): Promise<void> {
+    await fs.promises.mkdir(this.spillDirectory, { recursive: true });
+
+    const spillPath = path.join(this.spillDirectory, `${stored.logId}.jsonl`);
+    await writeJsonLines(spillPath, stored.log.entries);
+    stored.spillPath = spillPath;
+
+    if (stored.log.queryExecutions) {
+      const executionsSpillPath = path.join(this.spillDirectory, `${stored.logId}.executions.jsonl`);
+      await writeJsonLines(executionsSpillPath, stored.log.queryExecutions);
+      stored.executionsSpillPath = executionsSpillPath;
+      stored.log.queryExecutions = [];
+    }
+
+    stored.log.entries = [];
+    stored.state = 'spilled';
+  }
+}
+
+/**
+ * Estimativa grosseira do tamanho em memória das entradas (strings UTF-16 + overhead)
+ */
+export function estimateEntriesBytes(entries: LogEntry[]): number {
+  let total = 0;
+
+  for (const entry of entries) {
+    total += ENTRY_OVERHEAD_BYTES;
+    total += (entry.rawLine.length + entry.message.length) * 2;
+
+    if (entry.sqlInfo) {
+      total += ((entry.sqlInfo.query?.length ?? 0) + (entry.sqlInfo.decodedQuery?.length ?? 0)) * 2;
+    }
+  }
+
+  return total;
+}
+
+/**
+ * Estimativa grosseira do tamanho em memória das execuções (strings, linhas + overhead)
+ */
+export function estimateExecutionsBytes(executions: QueryExecution[]): number {
+  let total = 0;
+
+  for (const execution of executions) {
+    total += EXECUTION_OVERHEAD_BYTES + execution.lineNumbers.length * 8;
+    total += ((execution.rawQuery?.length ?? 0) + (execution.processedQuery?.length ?? 0)) * 2;
+    total += ((execution.sqlInfo.query?.length ?? 0) + (execution.sqlInfo.decodedQuery?.length ?? 0)) * 2;
+  }
+
+  return total;
+}
+
+function estimateLogBytes(log: ParsedLog): number {
+  return estimateEntriesBytes(log.entries) + estimateExecutionsBytes(log.queryExecutions ?? []);
+}
+
+function dropRawLines(entries: LogEntry[]): void {
+  for (const entry of entries) {
+    entry.rawLine = '';
+  }
+}
+
+async function writeJsonLines(filePath: string, items: unknown[]): Promise<void> {
+  const stream = fs.createWriteStream(filePath, { encoding: 'utf8' });
+
+  try {
+    for (const item of items) {
+      if (!stream.write(JSON.stringify(item) + '\n')) {
+        await new Promise<void>(resolve => stream.once('drain', () => resolve()));
+      }
+    }
+  } finally {
+    await new Promise<void>((resolve, reject) => {
+      stream.once('error', reject);
+      stream.end(() => resolve());
+    });
+  }
+}
+
+async function readJsonLines<T>(filePath: string, revive: (item: T) => T): Promise<T[]> {
+  const items: T[] = [];
+  const rl = readline.createInterface({
+    input: fs.createReadStream(filePath, { encoding: 'utf8' }),
+    crlfDelay: Infinity
+  });
+
+  for await (const line of rl) {
+    if (!line) continue;
+    items.push(revive(JSON.parse(line)));
+  }
+
+  return items;
+}
+
+// Datas viram string no JSON
+function reviveEntry(entry: LogEntry): LogEntry {
+  if (entry.context.fullDate) {
+    entry.context.fullDate = new Date(entry.context.fullDate);
+  }
+  return entry;
+}
+
+function reviveExecution(execution: QueryExecution): QueryExecution {
+  if (execution.context.fullDate) {
+    execution.context.fullDate = new Date(execution.context.fullDate);
+  }
+  return execution;
+}
+
+async function removeSpillFiles(stored: StoredLog): Promise<void> {
+  for (const spillPath of [stored.spillPath, stored.executionsSpillPath]) {
+    if (spillPath) {
+      await fs.promises.rm(spillPath, { force: true });
+    }
+  }
+}
+
+/**
+ * Instância singleton global do store
+ */
+export const logStore = new LogStore();
@@ -0,0 +1 @@
+export { LogStore, logStore, estimateEntriesBytes, estimateExecutionsBytes } from './LogStore';
\ No newline at end of file
@@ -0,0 +1,191 @@
+import {
+  ThresholdKeywords,
+  ThresholdOverrides,
+  ThresholdProfile,
+  ThresholdSelection
+} from '../../../shared/types/threshold.types';
+
+/**
+ * Perfil padrão (query lenta a partir de 100ms, resultado grande acima de 100 registros)
+ */
+export const DEFAULT_THRESHOLD_PROFILE: ThresholdProfile = {
+  slowQuerySeconds: 0.1,
+  criticalQuerySeconds: 1,
+  severeQuerySeconds: 5,
+  largeResultSetRows: 100,
+  hugeResultSetRows: 10000,
+  highMemoryMB: 512,
+  memoryJumpMB: 10,
+  memoryGrowthMB: 20,
+  keywords: {
+    critical: ['fatal', 'critical', 'exception'],
+    error: ['error', 'erro', 'failed'],
+    warning: ['warning', 'aviso'],
+    debug: ['debug', 'bind']
+  }
+};
+
+/**
+ * Perfis embutidos
+ * - oltp: telas interativas, onde 50ms já é perceptível
+ * - batch: rotinas noturnas/integrações, com queries longas e grandes volumes esperados
+ * - pt-br: limites do padrão, com as variações em português das palavras-chave
+ */
+const BUILTIN_PROFILES: Record<string, ThresholdOverrides> = {
+  oltp: {
+    slowQuerySeconds: 0.05,
+    criticalQuerySeconds: 0.5,
+    severeQuerySeconds: 2,
+    largeResultSetRows: 50,
+    hugeResultSetRows: 5000
+  },
+  batch: {
+    slowQuerySeconds: 1,
+    criticalQuerySeconds: 10,
+    severeQuerySeconds: 60,
+    largeResultSetRows: 10000,
+    hugeResultSetRows: 1000000,
+    highMemoryMB: 2048,
+    memoryJumpMB: 100,
+    memoryGrowthMB: 200
+  },
+  'pt-br': {
+    keywords: {
+      critical: ['fatal', 'critical', 'crítico', 'critico', 'exception', 'exceção', 'excecao'],
+      error: ['error', 'erro', 'failed', 'falha', 'falhou'],
+      warning: ['warning', 'aviso', 'atenção', 'atencao']
+    }
+  }
+};
+
+const NUMERIC_FIELDS: Array<Exclude<keyof ThresholdProfile, 'keywords'>> = [
+  'slowQuerySeconds',
+  'criticalQuerySeconds',
+  'severeQuerySeconds',
+  'largeResultSetRows',
+  'hugeResultSetRows',
+  'highMemoryMB',
+  'memoryJumpMB',
+  'memoryGrowthMB'
+];
+
+const KEYWORD_GROUPS: Array<keyof ThresholdKeywords> = ['critical', 'error', 'warning', 'debug'];
+
+/**
+ * Perfil inexistente ou ajuste com valor inválido
+ */
+export class ThresholdProfileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ThresholdProfileError';
+  }
+}
+
+/**
+ * Registro de perfis de limites nomeados (ex: um por cliente)
+ */
+export class ThresholdProfileRegistry {
+  private profiles = new Map<string, ThresholdProfile>();
+
+  constructor() {
+    this.profiles.set('default', DEFAULT_THRESHOLD_PROFILE);
+
+    for (const [name, overrides] of Object.entries(BUILTIN_PROFILES)) {
+      this.register(name, overrides);
+    }
+  }
+
+  /**
+   * Registra (ou substitui) um perfil
+   * @param name Nome do perfil
+   * @param overrides Ajustes sobre o perfil base
+   * @param baseProfile Perfil de partida (padrão: 'default')
+   * @throws ThresholdProfileError se o perfil base não existir ou algum valor for inválido
+   */
+  register(name: string, overrides: ThresholdOverrides, baseProfile: string = 'default'): ThresholdProfile {
+    const profile = applyThresholdOverrides(this.get(baseProfile), overrides);
+    this.profiles.set(name, profile);
+
+    return profile;
+  }
+
+  /**
+   * Obtém um perfil pelo nome
+   * @throws ThresholdProfileError se o perfil não existir
+   */
+  get(name: string): ThresholdProfile {
+    const profile = this.profiles.get(name);
+    if (!profile) {
+      throw new ThresholdProfileError(
+        `Unknown threshold profile: ${name} (available: ${this.list().join(', ')})`
+      );
+    }
+    return profile;
+  }
+
+  /**
+   * Lista os nomes dos perfis registrados
+   */
+  list(): string[] {
+    return Array.from(this.profiles.keys());
+  }
+
+  /**
+   * Resolve os limites de ParserOptions/AnalysisConfig:
+   * perfil nomeado, depois slowQueryThreshold, depois os ajustes de thresholds
+   * @throws ThresholdProfileError se o perfil não existir ou algum valor for inválido
+   */
+  resolve(selection: ThresholdSelection & { slowQueryThreshold?: number } = {}): ThresholdProfile {
+    let profile = this.get(selection.thresholdProfile ?? 'default');
+
+    if (selection.slowQueryThreshold !== undefined) {
+      profile = applyThresholdOverrides(profile, { slowQuerySeconds: selection.slowQueryThreshold });
+    }
+
+    return selection.thresholds ? applyThresholdOverrides(profile, selection.thresholds) : profile;
+  }
+}
+
+/**
+ * Aplica ajustes sobre um perfil (sem alterá-lo)
+ * @throws ThresholdProfileError se algum valor for inválido
+ */
+export function applyThresholdOverrides(base: ThresholdProfile, overrides: ThresholdOverrides): ThresholdProfile {
+  const profile: ThresholdProfile = { ...base, keywords: { ...base.keywords } };
+
+  for (const field of NUMERIC_FIELDS) {
+    const value = overrides[field];
+    if (value === undefined) {
+      continue;
+    }
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+      throw new ThresholdProfileError(`Invalid threshold ${field}: expected a non-negative number`);
+    }
+    profile[field] = value;
+  }
+
+  for (const group of KEYWORD_GROUPS) {
+    const keywords = overrides.keywords?.[group];
+    if (keywords === undefined) {
+      continue;
+    }
+    if (!Array.isArray(keywords) || keywords.some(keyword => typeof keyword !== 'string')) {
+      throw new ThresholdProfileError(`Invalid keywords.${group}: expected an array of strings`);
+    }
+    profile.keywords[group] = keywords.map(keyword => keyword.toLowerCase());
+  }
+
+  return profile;
+}
+
+/**
+ * Indica se a mensagem (já em minúsculas) contém alguma das palavras-chave
+ */
+export function matchesKeyword(lowerMessage: string, keywords: string[]): boolean {
+  return keywords.some(keyword => lowerMessage.includes(keyword));
+}
+
+/**
+ * Instância singleton global do registro de perfis
+ */
+export const thresholdProfiles = new ThresholdProfileRegistry();
@@ -0,0 +1,8 @@
+export {
+  ThresholdProfileRegistry,
+  ThresholdProfileError,
+  DEFAULT_THRESHOLD_PROFILE,
+  applyThresholdOverrides,
+  matchesKeyword,
+  thresholdProfiles
+} from './ThresholdProfiles';
\ No newline at end of file
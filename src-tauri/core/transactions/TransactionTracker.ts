@@ -0,0 +1,219 @@
+import { LogEntry, QueryExecution } from '../../../shared/types/log.types';
+import { TransactionRecord } from '../../../shared/types/analysis.types';
+import { getEntryTime } from '../parsers/utils/TimestampInference';
+
+export type TransactionAction = 'begin' | 'commit' | 'rollback';
+
+export interface TransactionOptions {
+  /** Duração (s) a partir da qual a transação é considerada longa */
+  longTransactionSeconds?: number;
+}
+
+/** Transações longas seguram locks; 30s já costuma travar outras sessões */
+const DEFAULT_LONG_TRANSACTION_SECONDS = 30;
+
+const TRANSACTION_MESSAGE = {
+  ROLLBACK: /\bROLLBACK\b(?!\s+TO\b)/i,
+  COMMIT: /\bCOMMIT\b/i,
+  BEGIN: /\b(BEGIN|START\s+TRANSACTION)\b/i
+};
+
+const TRANSACTION_SQL = {
+  ROLLBACK: /^\s*ROLLBACK\b(?!\s+TO\b)/i,
+  COMMIT: /^\s*COMMIT\b/i,
+  BEGIN: /^\s*(BEGIN|START\s+TRANSACTION)\b/i
+};
+
+/**
+ * Transação ainda aberta para um PID
+ */
+interface OpenTransaction {
+  record: TransactionRecord;
+  depth: number;
+  startTime?: number;
+  endTime?: number;
+}
+
+/**
+ * Abertura, commit ou rollback registrado na entrada
+ * (linhas TRANSACTION ou SQL de controle de transação)
+ */
+export function getTransactionAction(entry: LogEntry): TransactionAction | undefined {
+  if (entry.messageType === 'TRANSACTION') {
+    if (TRANSACTION_MESSAGE.ROLLBACK.test(entry.message)) return 'rollback';
+    if (TRANSACTION_MESSAGE.COMMIT.test(entry.message)) return 'commit';
+    if (TRANSACTION_MESSAGE.BEGIN.test(entry.message)) return 'begin';
+    return undefined;
+  }
+
+  const query = entry.sqlInfo?.query;
+  if (query) {
+    if (TRANSACTION_SQL.ROLLBACK.test(query)) return 'rollback';
+    if (TRANSACTION_SQL.COMMIT.test(query)) return 'commit';
+    if (TRANSACTION_SQL.BEGIN.test(query)) return 'begin';
+  }
+
+  return undefined;
+}
+
+/**
+ * Pareia BEGIN com COMMIT/ROLLBACK por PID, anexando as queries executadas
+ * dentro de cada transação e os erros registrados nela
+ *
+ * BEGIN com a transação já aberta conta como aninhado: cada COMMIT fecha um nível,
+ * ROLLBACK desfaz a transação inteira. Transações sem fechamento até o fim do
+ * arquivo saem de flush() como 'open'.
+ */
+export class TransactionTracker {
+  private open = new Map<string, OpenTransaction>();
+  private executionsByLine = new Map<number, QueryExecution>();
+  private counter = 0;
+
+  constructor(executions: QueryExecution[] = [], private readonly options: TransactionOptions = {}) {
+    for (const execution of executions) {
+      if (execution.lineNumbers.length > 0) {
+        this.executionsByLine.set(execution.lineNumbers[0], execution);
+      }
+    }
+  }
+
+  /**
+   * Adiciona uma entrada e devolve a transação encerrada por ela (se houver)
+   */
+  add(entry: LogEntry): TransactionRecord[] {
+    const processId = entry.context.processId;
+    if (!processId) {
+      return [];
+    }
+
+    const action = getTransactionAction(entry);
+    const time = getEntryTime(entry);
+    const current = this.open.get(processId);
+
+    if (action === 'begin') {
+      if (current) {
+        current.depth++;
+        current.record.nestedBegins++;
+        this.touch(current, entry, time);
+      } else {
+        this.open.set(processId, this.createTransaction(entry, time));
+      }
+      return [];
+    }
+
+    if (!current) {
+      return [];
+    }
+
+    this.touch(current, entry, time);
+
+    if (entry.severity === 'ERROR' || entry.severity === 'CRITICAL') {
+      current.record.errors.push(entry);
+    }
+
+    const execution = this.executionsByLine.get(entry.lineNumber);
+    if (execution && execution.processId === processId) {
+      current.record.statements.push(execution);
+      current.record.totalSQLTime += execution.sqlInfo.executionTime ?? 0;
+    }
+
+    if (action === 'commit' && --current.depth > 0) {
+      return [];
+    }
+
+    if (action === 'commit' || action === 'rollback') {
+      current.record.outcome = action === 'commit' ? 'committed' : 'rolled-back';
+      this.open.delete(processId);
+      return [this.finalize(current)];
+    }
+
+    return [];
+  }
+
+  /**
+   * Devolve as transações que ficaram abertas até o fim do arquivo
+   */
+  flush(): TransactionRecord[] {
+    const remaining = Array.from(this.open.values())
+      .map(transaction => this.finalize(transaction))
+      .sort((a, b) => a.startLine - b.startLine);
+
+    this.open.clear();
+
+    return remaining;
+  }
+
+  /**
+   * Descarta o estado acumulado
+   */
+  reset(): void {
+    this.open.clear();
+    this.counter = 0;
+  }
+
+  private createTransaction(entry: LogEntry, time: number | undefined): OpenTransaction {
+    return {
+      record: {
+        id: `${entry.context.processId}#tx${++this.counter}`,
+        processId: entry.context.processId,
+        outcome: 'open',
+        callPath: entry.context.connectionIndex || undefined,
+        startLine: entry.lineNumber,
+        endLine: entry.endLineNumber ?? entry.lineNumber,
+        startTimestamp: entry.context.timestamp,
+        endTimestamp: entry.context.timestamp,
+        durationSeconds: 0,
+        isLong: false,
+        statements: [],
+        totalSQLTime: 0,
+        nestedBegins: 0,
+        errors: [],
+        rolledBackAfterError: false
+      },
+      depth: 1,
+      startTime: time,
+      endTime: time
+    };
+  }
+
+  private touch(transaction: OpenTransaction, entry: LogEntry, time: number | undefined): void {
+    transaction.record.endLine = entry.endLineNumber ?? entry.lineNumber;
+    transaction.record.endTimestamp = entry.context.timestamp;
+
+    if (time !== undefined) {
+      transaction.startTime = transaction.startTime ?? time;
+      transaction.endTime = time;
+    }
+  }
+
+  private finalize(transaction: OpenTransaction): TransactionRecord {
+    const record = transaction.record;
+
+    record.durationSeconds = transaction.startTime !== undefined && transaction.endTime !== undefined
+      ? Math.max(transaction.endTime - transaction.startTime, 0)
+      : 0;
+    record.isLong = record.durationSeconds >= (this.options.longTransactionSeconds ?? DEFAULT_LONG_TRANSACTION_SECONDS);
+    record.rolledBackAfterError = record.outcome === 'rolled-back' && record.errors.length > 0;
+
+    return record;
+  }
+}
+
+/**
+ * Rastreia todas as transações de um log, na ordem em que começam no arquivo
+ */
+export function trackTransactions(
+  entries: LogEntry[],
+  executions: QueryExecution[] = [],
+  options: TransactionOptions = {}
+): TransactionRecord[] {
+  const tracker = new TransactionTracker(executions, options);
+  const transactions: TransactionRecord[] = [];
+
+  for (const entry of entries) {
+    transactions.push(...tracker.add(entry));
+  }
+  transactions.push(...tracker.flush());
+
+  return transactions.sort((a, b) => a.startLine - b.startLine);
+}
@@ -0,0 +1,2 @@
+export { TransactionTracker, trackTransactions, getTransactionAction } from './TransactionTracker';
+export type { TransactionAction, TransactionOptions } from './TransactionTracker';
\ No newline at end of file
@@ -1,12 +1,232 @@
+use serde_json::{json, Value};
+use std::collections::HashMap;
+use std::io::{BufRead, BufReader, Write};
+use std::path::PathBuf;
+use std::process::{Child, ChildStdin, ChildStdout, Command, Stdio};
+use std::sync::atomic::{AtomicU64, Ordering};
+use std::sync::{Arc, Mutex};
+use std::time::{SystemTime, UNIX_EPOCH};
+use tauri::{AppHandle, Manager, State};
+use tokio::sync::oneshot;
+
+// Códigos de erro de IPCResponse (espelham IPCErrorCode em shared/types/ipc.types.ts)
+const ERROR_SIDECAR_UNAVAILABLE: u32 = 1006;
+
+type PendingRequests = Arc<Mutex<HashMap<u64, oneshot::Sender<Value>>>>;
+
+/// Processo Node que executa os parsers/analisadores TypeScript (src-tauri/core/ipc/server.ts)
+///
+/// Cada comando é enviado como uma linha JSON no stdin; respostas e eventos
+/// voltam pelo stdout e são repassados ao comando aguardando ou ao frontend.
+pub struct Sidecar {
+    child: Mutex<Option<Child>>,
+    stdin: Mutex<Option<ChildStdin>>,
+    pending: PendingRequests,
+    next_id: AtomicU64,
+    startup_error: Option<String>,
+}
+
+impl Sidecar {
+    /// Inicia o sidecar; falhas ficam registradas e são devolvidas em cada comando
+    pub fn spawn(app: &AppHandle) -> Self {
+        let pending: PendingRequests = Arc::new(Mutex::new(HashMap::new()));
+
+        match start_process(app) {
+            Ok(mut child) => {
+                let stdin = child.stdin.take();
+                if let Some(stdout) = child.stdout.take() {
+                    spawn_reader(app.clone(), stdout, pending.clone());
+                }
+
+                Self {
+                    child: Mutex::new(Some(child)),
+                    stdin: Mutex::new(stdin),
+                    pending,
+                    next_id: AtomicU64::new(1),
+                    startup_error: None,
+                }
+            }
+            Err(error) => Self {
+                child: Mutex::new(None),
+                stdin: Mutex::new(None),
+                pending,
+                next_id: AtomicU64::new(1),
+                startup_error: Some(error),
+            },
+        }
+    }
+
+    /// Envia um comando e aguarda o IPCResponse correspondente
+    async fn request(&self, command: &str, request: Value) -> Value {
+        if let Some(error) = &self.startup_error {
+            return error_response(error, ERROR_SIDECAR_UNAVAILABLE);
+        }
+
+        let id = self.next_id.fetch_add(1, Ordering::SeqCst);
+        let (sender, receiver) = oneshot::channel();
+        self.pending.lock().unwrap().insert(id, sender);
+
+        let message = json!({ "id": id, "command": command, "request": request });
+        let written = match self.stdin.lock().unwrap().as_mut() {
+            Some(stdin) => writeln!(stdin, "{}", message)
+                .and_then(|_| stdin.flush())
+                .map_err(|e| format!("Failed to write to sidecar: {}", e)),
+            None => Err("Sidecar is not running".to_string()),
+        };
+
+        if let Err(error) = written {
+            self.pending.lock().unwrap().remove(&id);
+            return error_response(&error, ERROR_SIDECAR_UNAVAILABLE);
+        }
+
+        receiver.await.unwrap_or_else(|_| {
+            error_response("Sidecar exited before responding", ERROR_SIDECAR_UNAVAILABLE)
+        })
+    }
+}
+
+impl Drop for Sidecar {
+    fn drop(&mut self) {
+        if let Some(mut child) = self.child.lock().unwrap().take() {
+            let _ = child.kill();
+        }
+    }
+}
+
+/// Caminho do script do sidecar: LOG_ANALYZER_SIDECAR ou o recurso empacotado
+fn resolve_sidecar_script(app: &AppHandle) -> Result<PathBuf, String> {
+    if let Ok(path) = std::env::var("LOG_ANALYZER_SIDECAR") {
+        return Ok(PathBuf::from(path));
+    }
+
+    app.path_resolver()
+        .resolve_resource("sidecar/server.js")
+        .ok_or_else(|| "Sidecar script not found in app resources".to_string())
+}
+
+fn start_process(app: &AppHandle) -> Result<Child, String> {
+    let script = resolve_sidecar_script(app)?;
+    let node = std::env::var("LOG_ANALYZER_NODE").unwrap_or_else(|_| "node".to_string());
+    let mut command = Command::new(node);
+
+    // Definições de formato da equipe (GenericParser), além das embutidas em formats/
+    if std::env::var_os("LOG_ANALYZER_FORMATS").is_none() {
+        if let Some(config_dir) = app.path_resolver().app_config_dir() {
+            command.env("LOG_ANALYZER_FORMATS", config_dir.join("formats"));
+        }
+    }
+
+    command
+        .arg(script)
+        .stdin(Stdio::piped())
+        .stdout(Stdio::piped())
+        .stderr(Stdio::inherit())
+        .spawn()
+        .map_err(|e| format!("Failed to start sidecar: {}", e))
+}
+
+/// Lê o stdout do sidecar: respostas vão para o comando pendente, eventos para o frontend
+fn spawn_reader(app: AppHandle, stdout: ChildStdout, pending: PendingRequests) {
+    std::thread::spawn(move || {
+        for line in BufReader::new(stdout).lines() {
+            let Ok(line) = line else { break };
+            let Ok(message) = serde_json::from_str::<Value>(&line) else { continue };
+
+            if let Some(event) = message.get("event").and_then(Value::as_str) {
+                let payload = message.get("payload").cloned().unwrap_or(Value::Null);
+                let _ = app.emit_all(event, payload);
+                continue;
+            }
+
+            if let Some(id) = message.get("id").and_then(Value::as_u64) {
+                if let Some(sender) = pending.lock().unwrap().remove(&id) {
+                    let response = message.get("response").cloned().unwrap_or(Value::Null);
+                    let _ = sender.send(response);
+                }
+            }
+        }
+
+        // Sidecar encerrado: descartar os senders faz os comandos pendentes retornarem erro
+        pending.lock().unwrap().clear();
+    });
+}
+
+fn error_response(error: &str, code: u32) -> Value {
+    let timestamp = SystemTime::now()
+        .duration_since(UNIX_EPOCH)
+        .map(|d| d.as_millis() as u64)
+        .unwrap_or(0);
+
+    json!({ "success": false, "error": error, "errorCode": code, "timestamp": timestamp })
+}
+
 // Comando de exemplo - será expandido depois
 #[tauri::command]
 pub fn greet(name: &str) -> String {
     format!("Hello, {}! Welcome to Log Analyzer!", name)
 }
 
-// TODO: Adicionar comandos de parsing
-// - parse_log
-// - analyze_log
-// - detect_format
-// - search_logs
-// - export_log
\ No newline at end of file
+#[tauri::command]
+pub async fn parse_log(sidecar: State<'_, Sidecar>, request: Value) -> Result<Value, String> {
+    Ok(sidecar.request("parse_log", request).await)
+}
+
+#[tauri::command]
+pub async fn analyze_log(sidecar: State<'_, Sidecar>, request: Value) -> Result<Value, String> {
+    Ok(sidecar.request("analyze_log", request).await)
+}
+
+#[tauri::command]
+pub async fn correlate_logs(sidecar: State<'_, Sidecar>, request: Value) -> Result<Value, String> {
+    Ok(sidecar.request("correlate_logs", request).await)
+}
+
+#[tauri::command]
+pub async fn detect_format(sidecar: State<'_, Sidecar>, request: Value) -> Result<Value, String> {
+    Ok(sidecar.request("detect_format", request).await)
+}
+
+#[tauri::command]
+pub async fn list_archive(sidecar: State<'_, Sidecar>, request: Value) -> Result<Value, String> {
+    Ok(sidecar.request("list_archive", request).await)
+}
+
+#[tauri::command]
+pub async fn search_logs(sidecar: State<'_, Sidecar>, request: Value) -> Result<Value, String> {
+    Ok(sidecar.request("search_logs", request).await)
+}
+
+#[tauri::command]
+pub async fn export_log(sidecar: State<'_, Sidecar>, request: Value) -> Result<Value, String> {
+    Ok(sidecar.request("export_log", request).await)
+}
+
+#[tauri::command]
+pub async fn list_logs(sidecar: State<'_, Sidecar>, request: Value) -> Result<Value, String> {
+    Ok(sidecar.request("list_logs", request).await)
+}
+
+#[tauri::command]
+pub async fn close_log(sidecar: State<'_, Sidecar>, request: Value) -> Result<Value, String> {
+    Ok(sidecar.request("close_log", request).await)
+}
+
+#[tauri::command]
+pub async fn follow_log(sidecar: State<'_, Sidecar>, request: Value) -> Result<Value, String> {
+    Ok(sidecar.request("follow_log", request).await)
+}
+
+#[tauri::command]
+pub async fn unfollow_log(sidecar: State<'_, Sidecar>, request: Value) -> Result<Value, String> {
+    Ok(sidecar.request("unfollow_log", request).await)
+}
+
+#[tauri::command]
+pub async fn index_log(sidecar: State<'_, Sidecar>, request: Value) -> Result<Value, String> {
+    Ok(sidecar.request("index_log", request).await)
+}
+
+#[tauri::command]
+pub async fn read_lines(sidecar: State<'_, Sidecar>, request: Value) -> Result<Value, String> {
+    Ok(sidecar.request("read_lines", request).await)
+}
@@ -3,12 +3,32 @@
 
 mod commands;
 
+use tauri::Manager;
+
 fn main() {
     tauri::Builder::default()
+        .setup(|app| {
+            // Sidecar Node com os parsers TypeScript
+            let sidecar = commands::Sidecar::spawn(&app.handle());
+            app.manage(sidecar);
+            Ok(())
+        })
         .invoke_handler(tauri::generate_handler![
             commands::greet,
-            // Adicionar mais comandos aqui conforme implementarmos
+            commands::parse_log,
+            commands::analyze_log,
+            commands::correlate_logs,
+            commands::detect_format,
+            commands::list_archive,
+            commands::search_logs,
+            commands::export_log,
+            commands::list_logs,
+            commands::close_log,
+            commands::follow_log,
+            commands::unfollow_log,
+            commands::index_log,
+            commands::read_lines,
         ])
         .run(tauri::generate_context!())
         .expect("error while running tauri application");
-}
\ No newline at end of file
+}
@@ -0,0 +1,52 @@
+import { invoke } from '@tauri-apps/api/tauri';
+import { listen, UnlistenFn } from '@tauri-apps/api/event';
+import {
+  IPCCommands,
+  IPCErrorCode,
+  LogAppendedEvent,
+  LOG_APPENDED_EVENT,
+  ParsingProgressEvent,
+  PARSING_PROGRESS_EVENT
+} from '@shared/types/ipc.types';
+
+export type IPCCommandName = keyof IPCCommands;
+
+/**
+ * Chama um comando do backend com request/response tipados por IPCCommands
+ * Falhas de transporte também são devolvidas no envelope IPCResponse
+ */
+export async function invokeCommand<K extends IPCCommandName>(
+  command: K,
+  request: IPCCommands[K]['request']
+): Promise<IPCCommands[K]['response']> {
+  try {
+    return await invoke<IPCCommands[K]['response']>(command, { request });
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+      errorCode: IPCErrorCode.SIDECAR_UNAVAILABLE,
+      timestamp: Date.now()
+    };
+  }
+}
+
+/**
+ * Escuta o progresso de parsings longos
+ * @returns Função para cancelar a inscrição
+ */
+export function onParsingProgress(
+  handler: (event: ParsingProgressEvent) => void
+): Promise<UnlistenFn> {
+  return listen<ParsingProgressEvent>(PARSING_PROGRESS_EVENT, event => handler(event.payload));
+}
+
+/**
+ * Escuta as linhas novas dos logs abertos com follow_log
+ * @returns Função para cancelar a inscrição
+ */
+export function onLogAppended(
+  handler: (event: LogAppendedEvent) => void
+): Promise<UnlistenFn> {
+  return listen<LogAppendedEvent>(LOG_APPENDED_EVENT, event => handler(event.payload));
+}